@@ -1,29 +1,77 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { 
   Tone, Length, ArticleType, ImageSize, AspectRatio, Language, 
-  ArticleConfig, SavedArticle, User 
+  ArticleConfig, ArticleOutline, SavedArticle, User, GenerationStatus, SectionAction,
+  SelectionRewrite, ArticleFormatId, BrandVoiceProfile, BrandVoiceMode, SeoMetadata, OriginalityReport, ArticleKeywords,
+  ArticleVariant, HeadlineSet, HeadlineVariant, SocialPosts, GeneratedArticle
 } from './types';
 import { 
   streamArticleGeneration, suggestKeywords, suggestTopic, 
   generateCoverImage, editGeneratedImage, checkOriginality, generateImage,
-  extractFocusKeyword
+  extractFocusKeyword, generateOutline, streamArticleFromOutline, continueArticleGeneration,
+  rewriteSection, streamSelectionRewrite, generateSeoMetadata, generateHeadlines, repurposeArticle
 } from './services/geminiService';
+import { isAbortError } from './services/modelProvider';
+import { splitSections, replaceSection, extractImageLines, replaceH1 } from './services/markdownSections';
+import { getUsageTotals, subscribeToUsage, onBudgetNotice, isBudgetExceededError } from './services/usageTracker';
+import { isAiServiceError } from './services/aiErrors';
+import { getBrandVoices, subscribeToBrandVoices } from './services/brandVoices';
+import { LANGUAGE_CODES, getTranslationGroup, getExportFileName } from './services/translations';
+import { buildMetaTags, applySeoTitle, slugify, buildCanonicalUrl, escapeAttribute } from './services/seoMetadata';
+import { buildStructuredData, renderJsonLd } from './services/structuredData';
+import { appendOriginalityRun, getHighlightPhrases } from './services/originalityReport';
+import { findDuplicates, getDuplicateSettings } from './services/duplicateContent';
+import { findKeywordOwners } from './services/keywordMap';
+import { ARTICLE_FORMATS, getCategoryFormats, setCategoryFormat, renameCategoryFormat, getFormatForCategory, applyFormatFix } from './services/articleFormats';
+import { FOOTNOTE_MARKER_PATTERN, FOOTNOTE_DEFINITION_PATTERN, splitReferences } from './services/citations';
+import { createVariants, getVariantLengths, getVariantConfigLengths, keepOneLength, isStyleOverlay, getVariantGroup, getLengthLabel } from './services/articleVariants';
+import { countArticleWords, describeWordTarget, formatWordTarget, getAcceptedRange, getWordCountStatus, parseWordTarget, MIN_TARGET_WORDS, MAX_TARGET_WORDS } from './services/wordCount';
 import { 
   IconSparkles, IconFeather, IconSettings, IconArrowLeft, IconX, IconImage, 
-  IconShield, IconChevronRight, IconPlus, IconDownload, IconFileText, 
+  IconChevronRight, IconPlus, IconDownload, IconFileText, 
   IconTrash, IconSun, IconMoon, IconRefresh, IconBrush, IconGoogle, IconShare,
   IconClipboard, IconFileCode, IconEdit, IconCheck, IconTag, IconGlobe, IconUser,
-  IconAlert, IconCopy
+  IconAlert, IconCopy, IconLink, IconExternalLink
 } from './components/Icons';
 import { MarkdownView } from './components/MarkdownView';
 import { ImageMaskEditor } from './components/ImageMaskEditor';
 import { CustomSelect } from './components/CustomSelect';
+import { OutlineEditor } from './components/OutlineEditor';
+import { SectionActions } from './components/SectionActions';
+import { SelectionRewriteBar } from './components/SelectionRewriteBar';
+import { BatchGenerator } from './components/BatchGenerator';
+import { UsagePanel, formatCost } from './components/UsagePanel';
+import { ErrorNotice } from './components/ErrorNotice';
+import { RetryPolicySettings } from './components/RetryPolicySettings';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { BrandVoiceManager } from './components/BrandVoiceManager';
+import { TranslateModal } from './components/TranslateModal';
+import { SeoMetadataPanel } from './components/SeoMetadataPanel';
+import { StructuredDataCard } from './components/StructuredDataCard';
+import { HeadlineLab } from './components/HeadlineLab';
+import { RepurposePanel } from './components/RepurposePanel';
+import { SeoReportCard } from './components/SeoReportCard';
+import { OriginalityReportCard } from './components/OriginalityReportCard';
+import { DuplicateContentCard } from './components/DuplicateContentCard';
+import { DuplicateCheckSettings } from './components/DuplicateCheckSettings';
+import { KeywordMap } from './components/KeywordMap';
+import { InternalLinksModal } from './components/InternalLinksModal';
+import { FormatChecklist } from './components/FormatChecklist';
 
 const USER_KEY = 'ai_writer_user';
 const PREFS_KEY = 'ai_writer_prefs';
 const CUSTOM_CATS_KEY = 'ai_writer_custom_categories';
+const FORMAT_IDS = Object.keys(ARTICLE_FORMATS) as ArticleFormatId[];
+const NO_BRAND_VOICE = 'None';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
+const RENDER_THROTTLE_MS = 32; // ~30fps update rate
+
+const GENERATION_INCOMPLETE_TITLES: Partial<Record<GenerationStatus, string>> = {
+  stopped: 'Generation stopped',
+  failed: 'Generation failed',
+  truncated: 'Output limit reached',
+};
 
 export default function App() {
   // -- State: Auth --
@@ -39,16 +87,21 @@ export default function App() {
   const [view, setView] = useState<'login' | 'dashboard' | 'create' | 'article' | 'history' | 'settings'>('login');
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
+  const [currentArticleId, setCurrentArticleId] = useState<string | null>(null); // Saved article shown in the article view, if any
+  const [translateTarget, setTranslateTarget] = useState<SavedArticle | null>(null);
+  const [showInternalLinks, setShowInternalLinks] = useState(false);
   const [isEditingContent, setIsEditingContent] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   // -- State: Preferences --
   const [defaultLanguage, setDefaultLanguage] = useState<Language>(Language.ENGLISH);
   const [customCategories, setCustomCategories] = useState<string[]>([]);
+  const [categoryFormats, setCategoryFormats] = useState<Record<string, ArticleFormatId>>(getCategoryFormats);
   
   // -- State: Category Modal --
   const [showCategoryModal, setShowCategoryModal] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
+  const [newCategoryFormat, setNewCategoryFormat] = useState<ArticleFormatId>('standard');
   const [editingCategory, setEditingCategory] = useState<string | null>(null);
   const [editCategoryInputValue, setEditCategoryInputValue] = useState('');
 
@@ -67,12 +120,29 @@ export default function App() {
     numberOfImages: 1
   });
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generationStatus, setGenerationStatus] = useState<GenerationStatus>('idle');
+  const [isExpandingToTarget, setIsExpandingToTarget] = useState(false);
+  // Length variants of the open article; empty when only one length was written
+  const [variants, setVariants] = useState<ArticleVariant[]>([]);
+  const [activeVariantIndex, setActiveVariantIndex] = useState(0);
+  const [variantGroupId, setVariantGroupId] = useState<string | null>(null);
+  // Raw text of the word target field; config.targetWords only changes when it parses
+  const [wordTargetInput, setWordTargetInput] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [rewritingSectionIndex, setRewritingSectionIndex] = useState<number | null>(null);
   const [generatedContent, setGeneratedContent] = useState('');
   const [suggestedKeywords, setSuggestedKeywords] = useState<string[]>([]);
   const [isSuggestingKeywords, setIsSuggestingKeywords] = useState(false);
   const [isSuggestingTopic, setIsSuggestingTopic] = useState(false);
   const [keywordsCopied, setKeywordsCopied] = useState(false);
 
+  const [createMode, setCreateMode] = useState<'single' | 'batch'>('single');
+  const [historyMode, setHistoryMode] = useState<'articles' | 'keywords'>('articles');
+
+  // -- State: Outline --
+  const [outline, setOutline] = useState<ArticleOutline | null>(null);
+  const [isGeneratingOutline, setIsGeneratingOutline] = useState(false);
+
   // -- State: Image Generation --
   const [generatedImageUrls, setGeneratedImageUrls] = useState<string[]>([]);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
@@ -82,27 +152,53 @@ export default function App() {
   const [isEditingImage, setIsEditingImage] = useState(false);
   const [imageGenerationError, setImageGenerationError] = useState<string | null>(null);
   
+  // -- State: Selection Rewrite --
+  const [editorSelection, setEditorSelection] = useState<{ start: number; end: number } | null>(null);
+  const [selectionSuggestion, setSelectionSuggestion] = useState<string | null>(null);
+  const [isRewritingSelection, setIsRewritingSelection] = useState(false);
+
   // -- State: Insert Image Modal --
   const [showInsertImageModal, setShowInsertImageModal] = useState(false);
   const [insertImagePrompt, setInsertImagePrompt] = useState('');
   const [insertImageCursorPos, setInsertImageCursorPos] = useState(0);
 
   // -- State: Analysis --
-  const [originalityReport, setOriginalityReport] = useState<string | null>(null);
+  const [originalityHistory, setOriginalityHistory] = useState<OriginalityReport[]>([]); // Oldest first
   const [isCheckingOriginality, setIsCheckingOriginality] = useState(false);
+  const [showOriginalityHighlights, setShowOriginalityHighlights] = useState(false);
   const [focusKeyword, setFocusKeyword] = useState<string | null>(null);
+  const [seoMetadata, setSeoMetadata] = useState<SeoMetadata | null>(null);
+  const [isGeneratingSeo, setIsGeneratingSeo] = useState(false);
+  const [headlineSet, setHeadlineSet] = useState<HeadlineSet | null>(null);
+  const [isGeneratingHeadlines, setIsGeneratingHeadlines] = useState(false);
+  const [socialPosts, setSocialPosts] = useState<SocialPosts | null>(null);
+  const [isRepurposing, setIsRepurposing] = useState(false);
   const [isExtractingKeyword, setIsExtractingKeyword] = useState(false);
 
   // -- State: History & Storage --
   const [savedArticles, setSavedArticles] = useState<SavedArticle[]>([]);
   const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'idle'>('idle');
 
+  // -- State: Usage --
+  const [monthlySpend, setMonthlySpend] = useState(() => getUsageTotals().month);
+  const [brandVoices, setBrandVoices] = useState<BrandVoiceProfile[]>(getBrandVoices);
+  const [budgetNotice, setBudgetNotice] = useState<{ message: string; blocked: boolean } | null>(null);
+  const [aiError, setAiError] = useState<{ error: unknown; retry?: () => void } | null>(null);
+
   // -- Helper for current image --
   // Safely get the current image URL or null if array is empty or index invalid
   const currentImageUrl = (generatedImageUrls && generatedImageUrls[selectedImageIndex]) || null;
+  const articleWords = countArticleWords(generatedContent);
+  const activeVariant = variants[activeVariantIndex] || null;
+  // Prompts for the open article describe its own length, not every length selected in the form
+  const openConfig: ArticleConfig = activeVariant ? { ...config, length: getVariantConfigLengths(activeVariant.length, config.length) } : config;
+  const acceptedWords = config.targetWords ? getAcceptedRange(config.targetWords) : null;
+  const wordCountStatus = config.targetWords ? getWordCountStatus(articleWords, config.targetWords) : null;
   
   // -- Helper for categories --
   const allCategories = [...Object.values(ArticleType), ...customCategories];
+  const currentFormat = getFormatForCategory(config.type, categoryFormats);
+  const selectedBrandVoice = brandVoices.find(v => v.id === config.brandVoiceId);
 
   // -- Effects --
   useEffect(() => {
@@ -152,8 +248,20 @@ export default function App() {
                 draft.config.length = [draft.config.length];
             }
             setConfig(draft.config);
+            if (draft.config.targetWords) setWordTargetInput(formatWordTarget(draft.config.targetWords));
         }
         if (draft.content) setGeneratedContent(draft.content);
+        if (draft.seo) setSeoMetadata(draft.seo);
+        if (draft.headlines) setHeadlineSet(draft.headlines);
+        if (draft.social) setSocialPosts(draft.social);
+        if (Array.isArray(draft.originality)) setOriginalityHistory(draft.originality);
+        if (Array.isArray(draft.variants) && draft.variants.length > 0) {
+            setVariants(draft.variants.map((variant: ArticleVariant) => variant.status === 'generating' ? { ...variant, status: 'stopped' } : variant));
+            setActiveVariantIndex(draft.activeVariant || 0);
+            setVariantGroupId(draft.variantGroupId || null);
+        }
+        // A reload in the middle of a run leaves a partial article behind
+        if (draft.status) setGenerationStatus(draft.status === 'generating' ? 'stopped' : draft.status);
         
         // Handle restoration of image(s)
         if (draft.imageUrls && Array.isArray(draft.imageUrls)) {
@@ -186,6 +294,13 @@ export default function App() {
     }
   }, []);
 
+  useEffect(() => {
+    const unsubscribeUsage = subscribeToUsage(() => setMonthlySpend(getUsageTotals().month));
+    const unsubscribeBudget = onBudgetNotice((message, blocked) => setBudgetNotice({ message, blocked }));
+    const unsubscribeVoices = subscribeToBrandVoices(() => setBrandVoices(getBrandVoices()));
+    return () => { unsubscribeUsage(); unsubscribeBudget(); unsubscribeVoices(); };
+  }, []);
+
   useEffect(() => {
     if (isDarkMode) {
       document.documentElement.classList.add('dark');
@@ -203,7 +318,15 @@ export default function App() {
           config,
           content: generatedContent,
           imageUrl: currentImageUrl, // Backward compat
-          imageUrls: generatedImageUrls
+          imageUrls: generatedImageUrls,
+          status: generationStatus,
+          seo: seoMetadata,
+          headlines: headlineSet,
+          social: socialPosts,
+          originality: originalityHistory,
+          variants: stashActiveVariant(),
+          activeVariant: activeVariantIndex,
+          variantGroupId
         };
         localStorage.setItem('autosave_draft', JSON.stringify(draft));
         
@@ -213,7 +336,7 @@ export default function App() {
 
         return () => clearTimeout(timeout);
     }
-  }, [config, generatedContent, generatedImageUrls, currentImageUrl]);
+  }, [config, generatedContent, generatedImageUrls, currentImageUrl, generationStatus, seoMetadata, headlineSet, socialPosts, originalityHistory, variants, activeVariantIndex, variantGroupId]);
 
   // -- Handlers --
   const handleLogin = (e: React.FormEvent) => {
@@ -319,11 +442,18 @@ export default function App() {
       const updated = [...customCategories, trimmed];
       setCustomCategories(updated);
       localStorage.setItem(CUSTOM_CATS_KEY, JSON.stringify(updated));
+      updateCategoryFormat(trimmed, newCategoryFormat);
       setConfig(prev => ({ ...prev, type: trimmed }));
       setNewCategoryName('');
+      setNewCategoryFormat('standard');
       // Keep modal open to allow adding more or seeing the list
   };
 
+  const updateCategoryFormat = (cat: string, formatId: ArticleFormatId | null) => {
+      setCategoryFormat(cat, formatId);
+      setCategoryFormats(getCategoryFormats());
+  };
+
   const startEditingCategory = (cat: string) => {
       setEditingCategory(cat);
       setEditCategoryInputValue(cat);
@@ -349,6 +479,8 @@ export default function App() {
       const updated = customCategories.map(c => c === oldName ? newName : c);
       setCustomCategories(updated);
       localStorage.setItem(CUSTOM_CATS_KEY, JSON.stringify(updated));
+      renameCategoryFormat(oldName, newName);
+      setCategoryFormats(getCategoryFormats());
 
       // Update current config if needed
       if (config.type === oldName) {
@@ -371,6 +503,7 @@ export default function App() {
           const updated = customCategories.filter(c => c !== catToDelete);
           setCustomCategories(updated);
           localStorage.setItem(CUSTOM_CATS_KEY, JSON.stringify(updated));
+          updateCategoryFormat(catToDelete, null);
           // If deleted category was selected, reset to default
           if (config.type === catToDelete) {
               setConfig(prev => ({...prev, type: ArticleType.TECH}));
@@ -378,19 +511,36 @@ export default function App() {
       }
   };
 
+  // Shows a failed AI call with a next step. Cancelled runs are not errors, and budget blocks have their own banner.
+  const reportError = (error: unknown, retry?: () => void) => {
+    if (isAbortError(error) || isBudgetExceededError(error)) return;
+    console.error(error);
+    setAiError({ error, retry });
+  };
+
   const handleSuggestTopic = async () => {
     setIsSuggestingTopic(true);
-    const topic = await suggestTopic(config.type);
-    if (topic) setConfig(prev => ({ ...prev, topic }));
-    setIsSuggestingTopic(false);
+    try {
+      const topic = await suggestTopic(config.type);
+      if (topic) setConfig(prev => ({ ...prev, topic }));
+    } catch (e) {
+      reportError(e, handleSuggestTopic);
+    } finally {
+      setIsSuggestingTopic(false);
+    }
   };
 
   const handleSuggestKeywords = async () => {
     if (!config.topic) return;
     setIsSuggestingKeywords(true);
-    const keywords = await suggestKeywords(config.topic, config.type);
-    setSuggestedKeywords(keywords);
-    setIsSuggestingKeywords(false);
+    try {
+      const keywords = await suggestKeywords(config.topic, config.type);
+      setSuggestedKeywords(keywords);
+    } catch (e) {
+      reportError(e, handleSuggestKeywords);
+    } finally {
+      setIsSuggestingKeywords(false);
+    }
   };
 
   const addKeyword = (kw: string) => {
@@ -414,72 +564,292 @@ export default function App() {
     setTimeout(() => setKeywordsCopied(false), 2000);
   };
 
-  const handleGenerate = async () => {
+  const handleGenerateOutline = async () => {
     if (!config.topic) return;
+    setIsGeneratingOutline(true);
+    try {
+      const result = await generateOutline(config);
+      setOutline(result);
+    } catch (e) {
+      reportError(e, handleGenerateOutline);
+    } finally {
+      setIsGeneratingOutline(false);
+    }
+  };
+
+  // Aborts whatever generation is in flight and hands out a signal for the next one
+  const beginCancellableTask = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  };
+
+  // Optimized buffering for smoother rendering (Buzz Speed optimization)
+  // trailer is kept below the streamed text, e.g. the References of an article being continued
+  const createStreamBuffer = (initialContent: string = '', trailer: string = '') => {
+    let contentBuffer = initialContent;
+    let lastUpdateTime = 0;
+    return {
+      onChunk: (chunk: string) => {
+        contentBuffer += chunk;
+        const now = Date.now();
+        if (now - lastUpdateTime > RENDER_THROTTLE_MS) {
+            setGeneratedContent(contentBuffer + trailer);
+            lastUpdateTime = now;
+        }
+      },
+      // Ensure final content is set, including whatever arrived before a stop or failure
+      flush: () => setGeneratedContent(contentBuffer + trailer),
+      // Swaps in the finished article, which can differ from the streamed text (citations, expanded sections)
+      replace: (content: string) => { contentBuffer = content; trailer = ''; },
+      getText: () => contentBuffer + trailer,
+    };
+  };
+
+  // Sections expanded to reach the word target replace the article wholesale
+  const createReviser = (stream: ReturnType<typeof createStreamBuffer>) => (article: string) => {
+    setIsExpandingToTarget(true);
+    stream.replace(article);
+    stream.flush();
+  };
+
+  const startCoverImage = (signal: AbortSignal): Promise<string[]> => {
+    setIsGeneratingImage(true);
+    return generateCoverImage(
+        config.topic, 
+        config.imageSize || ImageSize.S_1K, 
+        config.aspectRatio || AspectRatio.S_16_9,
+        config.numberOfImages || 1,
+        signal
+    )
+      .then(urls => { 
+          if (urls.length === 0) setImageGenerationError("Could not generate image");
+          else setGeneratedImageUrls(urls); 
+          setIsGeneratingImage(false); 
+          return urls; 
+      })
+      .catch(err => { 
+          if (!isAbortError(err)) {
+              console.error("Cover image generation failed:", err); 
+              setImageGenerationError(isAiServiceError(err) ? err.message : "Failed to generate image");
+          }
+          setIsGeneratingImage(false); 
+          return []; 
+      });
+  };
+
+  // Variants are written one after another, each into its own tab. A failed variant keeps its
+  // partial text and the rest still get written; only Stop ends the run (by rethrowing the abort).
+  const writeVariants = async (initial: ArticleVariant[], signal: AbortSignal) => {
+    let written = initial;
+    for (let i = 0; i < written.length; i++) {
+      setActiveVariantIndex(i);
+      setGeneratedContent('');
+      setGenerationStatus('generating');
+      const stream = createStreamBuffer();
+      let status: GenerationStatus;
+      try {
+        const article = await streamArticleGeneration({ ...config, length: getVariantConfigLengths(written[i].length, config.length) }, stream.onChunk, signal, createReviser(stream));
+        stream.replace(article.content);
+        status = article.isComplete ? 'complete' : 'truncated';
+      } catch (err) {
+        stream.flush();
+        if (isAbortError(err)) {
+          // Tabs of variants that never started show the stopped banner instead of a blank page
+          setVariants(written.map((variant, j) => j > i ? { ...variant, status: 'stopped' } : variant));
+          throw err;
+        }
+        reportError(err);
+        status = 'failed';
+      } finally {
+        setIsExpandingToTarget(false);
+      }
+      stream.flush();
+      setGenerationStatus(status);
+      written = written.map((variant, j) => j === i ? { ...variant, content: stream.getText(), status } : variant);
+      setVariants(written);
+    }
+  };
+
+  // When an approved outline is passed, the article is written section by section from it
+  const handleGenerate = async (approvedOutline?: ArticleOutline) => {
+    if (!config.topic) return;
+    const signal = beginCancellableTask();
+    const newVariants = createVariants(getVariantLengths(config.length, !!approvedOutline));
     setIsGenerating(true);
+    setGenerationStatus('generating');
     setGeneratedContent('');
     setGeneratedImageUrls([]);
     setSelectedImageIndex(0);
-    setOriginalityReport(null);
+    setOriginalityHistory([]);
+    setShowOriginalityHighlights(false);
     setFocusKeyword(null);
+    setSeoMetadata(null);
+    setHeadlineSet(null);
+    setSocialPosts(null);
     setIsEditingContent(false);
+    setCurrentArticleId(null);
+    setVariants(newVariants);
+    setActiveVariantIndex(0);
+    setVariantGroupId(newVariants.length > 0 ? generateId() : null);
     setView('article');
     
+    const stream = createStreamBuffer();
     try {
-      let imagePromise: Promise<string[]> | null = null;
-      if (config.generateImage) {
-        setIsGeneratingImage(true);
-        imagePromise = generateCoverImage(
-            config.topic, 
-            config.imageSize || ImageSize.S_1K, 
-            config.aspectRatio || AspectRatio.S_16_9,
-            config.numberOfImages || 1
-        )
-          .then(urls => { 
-              if (urls.length === 0) setImageGenerationError("Could not generate image");
-              else setGeneratedImageUrls(urls); 
-              setIsGeneratingImage(false); 
-              return urls; 
-          })
-          .catch(err => { 
-              console.error("Cover image generation failed:", err); 
-              setImageGenerationError("Failed to generate image");
-              setIsGeneratingImage(false); 
-              return []; 
-          });
+      const imagePromise = config.generateImage ? startCoverImage(signal) : null;
+
+      if (newVariants.length > 0) {
+        await writeVariants(newVariants, signal);
+      } else {
+        const article = approvedOutline
+          ? await streamArticleFromOutline(config, approvedOutline, stream.onChunk, signal, createReviser(stream))
+          : await streamArticleGeneration(config, stream.onChunk, signal, createReviser(stream));
+        if (approvedOutline) setOutline(null);
+        stream.replace(article.content);
+        stream.flush();
+        setGenerationStatus(article.isComplete ? 'complete' : 'truncated');
       }
 
-      // Optimized buffering for smoother rendering (Buzz Speed optimization)
-      let contentBuffer = '';
-      let lastUpdateTime = 0;
-      const RENDER_THROTTLE_MS = 32; // ~30fps update rate
+      if (imagePromise) await imagePromise;
+    } catch (err) {
+      // Partial text is always kept (variants flush their own); the status tells the user it is incomplete
+      if (newVariants.length === 0) stream.flush();
+      if (isAbortError(err)) {
+        setGenerationStatus('stopped');
+      } else {
+        // The stopped/failed banner offers Continue writing, so no retry action here
+        reportError(err);
+        setGenerationStatus('failed');
+      }
+    } finally {
+      setIsGenerating(false);
+      setIsExpandingToTarget(false);
+    }
+  };
 
-      await streamArticleGeneration(config, (chunk) => {
-        contentBuffer += chunk;
+  // Parks the open variant's live state in the list before another one is shown or saved
+  const stashActiveVariant = (): ArticleVariant[] =>
+    variants.map((variant, i) => i === activeVariantIndex
+      ? {
+        ...variant, content: generatedContent, status: generationStatus, originalityHistory, savedArticleId: currentArticleId,
+        seo: seoMetadata, headlines: headlineSet, socialPosts
+      }
+      : variant);
+
+  const handleSelectVariant = (index: number) => {
+    if (index === activeVariantIndex || isGenerating || rewritingSectionIndex !== null) return;
+    const stashed = stashActiveVariant();
+    const next = stashed[index];
+    setVariants(stashed);
+    setActiveVariantIndex(index);
+    setGeneratedContent(next.content);
+    setGenerationStatus(next.status);
+    setOriginalityHistory(next.originalityHistory);
+    setShowOriginalityHighlights(false);
+    // Drafts from before variants had their own metadata leave these undefined
+    setSeoMetadata(next.seo || null);
+    setHeadlineSet(next.headlines || null);
+    setSocialPosts(next.socialPosts || null);
+    setCurrentArticleId(next.savedArticleId);
+    setIsEditingContent(false);
+  };
+
+  const handleResumeGeneration = async () => {
+    if (!generatedContent) return;
+    const signal = beginCancellableTask();
+    setIsGenerating(true);
+    setGenerationStatus('generating');
+    setIsEditingContent(false);
+
+    // The continuation is written above a References section, which stays in place meanwhile
+    const { body, references } = splitReferences(generatedContent);
+    const stream = createStreamBuffer(body, references ? `\n\n${references}` : '');
+    try {
+      const article = await continueArticleGeneration(openConfig, generatedContent, stream.onChunk, signal);
+      stream.replace(article.content);
+      stream.flush();
+      setGenerationStatus(article.isComplete ? 'complete' : 'truncated');
+    } catch (err) {
+      stream.flush();
+      if (isAbortError(err)) {
+        setGenerationStatus('stopped');
+      } else {
+        // The stopped/failed banner offers Continue writing, so no retry action here
+        reportError(err);
+        setGenerationStatus('failed');
+      }
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSectionAction = async (sectionIndex: number, action: SectionAction) => {
+    const section = splitSections(generatedContent)[sectionIndex];
+    if (!section) return;
+
+    let instructions: string | undefined;
+    if (action === 'rewrite') {
+        const p = prompt("How should this section be rewritten?");
+        if (!p) return;
+        instructions = p;
+    }
+
+    const originalContent = generatedContent;
+    // Images are kept out of the prompt and re-attached to the new section text
+    const images = extractImageLines(section.markdown);
+    const signal = beginCancellableTask();
+    setRewritingSectionIndex(sectionIndex);
+
+    let sectionBuffer = '';
+    let lastUpdateTime = 0;
+    const render = () => {
+        const markdown = images.length > 0 ? `${sectionBuffer.trim()}\n\n${images.join('\n\n')}` : sectionBuffer;
+        setGeneratedContent(replaceSection(originalContent, section, markdown));
+    };
+
+    try {
+      await rewriteSection(openConfig, originalContent, section.markdown, action, (chunk) => {
+        sectionBuffer += chunk;
         const now = Date.now();
         if (now - lastUpdateTime > RENDER_THROTTLE_MS) {
-            setGeneratedContent(contentBuffer);
+            render();
             lastUpdateTime = now;
         }
-      });
-      // Ensure final content is set
-      setGeneratedContent(contentBuffer);
+      }, instructions, signal);
 
-      if (imagePromise) await imagePromise;
+      if (sectionBuffer.trim()) render();
+      else setGeneratedContent(originalContent);
     } catch (err) {
-      console.error(err);
+      // Never leave a half-rewritten section behind
+      setGeneratedContent(originalContent);
+      reportError(err, () => handleSectionAction(sectionIndex, action));
     } finally {
-      setIsGenerating(false);
+      setRewritingSectionIndex(null);
     }
   };
 
+  // Every run is kept on the saved article so score changes after edits stay visible
   const handleAnalyze = async () => {
     if (!generatedContent) return;
+    const articleId = currentArticleId;
     setIsCheckingOriginality(true);
     try {
       const report = await checkOriginality(generatedContent);
-      setOriginalityReport(report);
-    } catch (e) { console.error(e); } 
+      setOriginalityHistory(prev => appendOriginalityRun(prev, report));
+      if (articleId) {
+        setSavedArticles(prev => {
+          const newSaved = prev.map(a => a.id === articleId ? { ...a, originalityHistory: appendOriginalityRun(a.originalityHistory || [], report) } : a);
+          localStorage.setItem('saved_articles', JSON.stringify(newSaved));
+          return newSaved;
+        });
+      }
+    } catch (e) { reportError(e, handleAnalyze); } 
     finally { setIsCheckingOriginality(false); }
   };
   
@@ -490,15 +860,93 @@ export default function App() {
       const keyword = await extractFocusKeyword(generatedContent);
       setFocusKeyword(keyword);
     } catch (e) {
-      console.error(e);
-      alert("Failed to extract keyword");
+      reportError(e, handleGetFocusKeyword);
     } finally {
       setIsExtractingKeyword(false);
     }
   };
 
+  const handleGenerateSeo = async () => {
+    if (!generatedContent) return;
+    setIsGeneratingSeo(true);
+    try {
+      handleSeoChange(await generateSeoMetadata(generatedContent, openConfig, focusKeyword));
+    } catch (e) {
+      reportError(e, handleGenerateSeo);
+    } finally {
+      setIsGeneratingSeo(false);
+    }
+  };
+
+  // Edits to an article opened from history are written straight back to it
+  const handleSeoChange = (seo: SeoMetadata) => {
+    setSeoMetadata(seo);
+    if (!currentArticleId) return;
+    setSavedArticles(prev => {
+      const newSaved = prev.map(a => a.id === currentArticleId ? { ...a, seo } : a);
+      localStorage.setItem('saved_articles', JSON.stringify(newSaved));
+      return newSaved;
+    });
+  };
+
+  // Scored against the same keyword as the SEO report
+  const getHeadlineKeyword = () => focusKeyword || config.keywords.split(',')[0]?.trim() || null;
+
+  const handleGenerateHeadlines = async () => {
+    if (!generatedContent) return;
+    setIsGeneratingHeadlines(true);
+    try {
+      handleHeadlinesChange(await generateHeadlines(generatedContent, openConfig, getHeadlineKeyword()));
+    } catch (e) {
+      reportError(e, handleGenerateHeadlines);
+    } finally {
+      setIsGeneratingHeadlines(false);
+    }
+  };
+
+  const handleHeadlinesChange = (headlines: HeadlineSet) => {
+    setHeadlineSet(headlines);
+    if (!currentArticleId) return;
+    setSavedArticles(prev => {
+      const newSaved = prev.map(a => a.id === currentArticleId ? { ...a, headlines } : a);
+      localStorage.setItem('saved_articles', JSON.stringify(newSaved));
+      return newSaved;
+    });
+  };
+
+  // The chosen variant becomes both the article's H1 and its SEO title; the others stay for A/B testing
+  const handleSelectHeadline = (variant: HeadlineVariant) => {
+    if (!headlineSet) return;
+    setGeneratedContent(prev => replaceH1(prev, variant.text));
+    handleSeoChange(applySeoTitle(seoMetadata, variant.text));
+    handleHeadlinesChange({ ...headlineSet, selectedId: variant.id });
+  };
+
+  const handleRepurpose = async () => {
+    if (!generatedContent) return;
+    setIsRepurposing(true);
+    try {
+      handleSocialPostsChange(await repurposeArticle(generatedContent, openConfig, seoMetadata?.canonicalUrl || null));
+    } catch (e) {
+      reportError(e, handleRepurpose);
+    } finally {
+      setIsRepurposing(false);
+    }
+  };
+
+  const handleSocialPostsChange = (posts: SocialPosts) => {
+    setSocialPosts(posts);
+    if (!currentArticleId) return;
+    setSavedArticles(prev => {
+      const newSaved = prev.map(a => a.id === currentArticleId ? { ...a, socialPosts: posts } : a);
+      localStorage.setItem('saved_articles', JSON.stringify(newSaved));
+      return newSaved;
+    });
+  };
+
   const handleGenerateImage = async () => {
     if (!config.topic) return;
+    const signal = beginCancellableTask();
     setIsGeneratingImage(true);
     setImageGenerationError(null);
     setGeneratedImageUrls([]); // Clear previous to show loading state correctly
@@ -508,7 +956,8 @@ export default function App() {
            config.topic, 
            config.imageSize || ImageSize.S_1K, 
            config.aspectRatio || AspectRatio.S_16_9,
-           config.numberOfImages || 1
+           config.numberOfImages || 1,
+           signal
         );
        if (urls.length === 0) {
            setImageGenerationError("Failed to generate images. Please try again.");
@@ -516,8 +965,10 @@ export default function App() {
            setGeneratedImageUrls(urls);
        }
     } catch(e) { 
-        console.error(e); 
-        setImageGenerationError("Error communicating with image service.");
+        if (!isAbortError(e)) {
+            console.error(e); 
+            setImageGenerationError(isAiServiceError(e) ? e.message : "Error communicating with image service.");
+        }
     } 
     finally { setIsGeneratingImage(false); }
   };
@@ -569,8 +1020,7 @@ export default function App() {
             }, 100);
         }
     } catch (e) {
-        console.error(e);
-        alert("Failed to generate image. Please try again.");
+        reportError(e, handleConfirmInsertImage);
     } finally {
         setIsGeneratingImage(false);
     }
@@ -599,27 +1049,173 @@ export default function App() {
           alert("Failed to edit image.");
       }
     } catch (e) { 
-        console.error(e); 
-        alert("Error editing image.");
+        reportError(e, () => handleEditImage(maskBase64));
     } 
     finally { setIsEditingImage(false); }
   };
 
-  const handleSaveArticle = () => {
+  // Batch runs save straight into history without touching the open article
+  // Saved in the same shape as a single generation, from the row's own config
+  const handleBatchArticleComplete = (articleConfig: ArticleConfig, article: GeneratedArticle) => {
     const newArticle: SavedArticle = {
+      id: generateId(),
+      topic: articleConfig.topic,
+      content: article.content,
+      date: Date.now(),
+      type: articleConfig.type,
+      imageUrl: null,
+      language: articleConfig.language,
+      targetWords: articleConfig.targetWords,
+      isComplete: article.isComplete
+    };
+    setSavedArticles(prev => {
+      const newSaved = [newArticle, ...prev];
+      localStorage.setItem('saved_articles', JSON.stringify(newSaved));
+      return newSaved;
+    });
+    return newArticle.id;
+  };
+
+  // A variant is saved from its own stashed state; without variants the open article is saved
+  const createSavedRecord = (variant: ArticleVariant | null): SavedArticle => {
+    const article = variant || {
+      content: generatedContent, status: generationStatus, originalityHistory,
+      seo: seoMetadata, headlines: headlineSet, socialPosts
+    };
+    return {
       id: generateId(), 
       topic: config.topic, 
-      content: generatedContent,
+      content: article.content,
       date: Date.now(), 
       type: config.type, 
-      imageUrl: currentImageUrl // Save the currently selected cover image
+      imageUrl: currentImageUrl, // Save the currently selected cover image
+      language: config.language,
+      seo: article.seo || undefined,
+      headlines: article.headlines || undefined,
+      socialPosts: article.socialPosts || undefined,
+      originalityHistory: article.originalityHistory.length > 0 ? article.originalityHistory : undefined,
+      targetWords: config.targetWords,
+      isComplete: !['stopped', 'failed', 'truncated'].includes(article.status),
+      variantGroupId: variant ? variantGroupId || undefined : undefined,
+      variantLength: variant?.length
     };
+  };
+
+  const saveOpenArticle = () => {
+    const newArticle = createSavedRecord(activeVariant ? stashActiveVariant()[activeVariantIndex] : null);
     const newSaved = [newArticle, ...savedArticles];
     setSavedArticles(newSaved);
     localStorage.setItem('saved_articles', JSON.stringify(newSaved));
+    setCurrentArticleId(newArticle.id);
+    return newArticle;
+  };
+
+  // Near-duplicates of saved articles are caught before they are saved or leave the app
+  const confirmNotDuplicate = (action: string): boolean => {
+    const { threshold, mode } = getDuplicateSettings();
+    const top = findDuplicates(generatedContent, savedArticles, currentArticleId)[0];
+    if (!top || top.similarity < threshold) return true;
+    const message = `${top.similarity}% of this article matches "${top.topic}" from your history.`;
+    if (mode === 'block') {
+      alert(`${message}\n\n${action} is blocked above ${threshold}%. Rewrite the passages listed under Duplicate Content first.`);
+      return false;
+    }
+    return window.confirm(`${message}\n\n${action} anyway?`);
+  };
+
+  const handleSaveArticle = () => {
+    if (!confirmNotDuplicate('Saving')) return;
+    saveOpenArticle();
+    setView('history');
+  };
+
+  // Saves every written variant that isn't saved yet, linked through the run's variant group
+  const handleSaveAllVariants = () => {
+    if (!confirmNotDuplicate('Saving')) return;
+    const records: SavedArticle[] = [];
+    const updated = stashActiveVariant().map(variant => {
+      if (!variant.content.trim() || variant.savedArticleId) return variant;
+      const record = createSavedRecord(variant);
+      records.push(record);
+      return { ...variant, savedArticleId: record.id };
+    });
+    if (records.length === 0) return;
+
+    const newSaved = [...records, ...savedArticles];
+    setSavedArticles(newSaved);
+    localStorage.setItem('saved_articles', JSON.stringify(newSaved));
+    setVariants(updated);
+    setCurrentArticleId(updated[activeVariantIndex].savedArticleId);
     setView('history');
   };
 
+  const handleKeywordsExtracted = (articleId: string, keywords: ArticleKeywords) => {
+    setSavedArticles(prev => {
+      const newSaved = prev.map(a => a.id === articleId ? { ...a, keywords } : a);
+      localStorage.setItem('saved_articles', JSON.stringify(newSaved));
+      return newSaved;
+    });
+  };
+
+  const handleOpenDuplicate = (article: SavedArticle) => {
+    if (window.confirm(`Open "${article.topic}"? Unsaved changes to the current article will be lost.`)) openSavedArticle(article);
+  };
+
+  const openSavedArticle = (article: SavedArticle) => {
+    setGeneratedContent(article.content);
+    setGeneratedImageUrls(article.imageUrl ? [article.imageUrl] : []);
+    setConfig(prev => ({
+      ...prev, topic: article.topic, type: article.type, language: article.language || prev.language, targetWords: article.targetWords,
+      length: article.variantLength ? [article.variantLength] : prev.length
+    }));
+    setVariants([]);
+    setVariantGroupId(null);
+    setWordTargetInput(article.targetWords ? formatWordTarget(article.targetWords) : '');
+    setFocusKeyword(null);
+    setSeoMetadata(article.seo || null);
+    setHeadlineSet(article.headlines || null);
+    setSocialPosts(article.socialPosts || null);
+    setOriginalityHistory(article.originalityHistory || []);
+    setShowOriginalityHighlights(false);
+    // Saved mid-run: show the incomplete banner so the rest can still be written
+    setGenerationStatus(article.isComplete === false ? 'stopped' : 'idle');
+    setCurrentArticleId(article.id);
+    setView('article');
+  };
+
+  // Translates what is on screen; an unsaved article is saved first so its translations have something to link to
+  const handleTranslateOpenArticle = () => {
+    if (!generatedContent) return;
+    const saved = savedArticles.find(a => a.id === currentArticleId);
+    if (saved) {
+      setTranslateTarget({ ...saved, content: generatedContent });
+      return;
+    }
+    // Same duplicate guard as the other save paths
+    if (!confirmNotDuplicate('Saving')) return;
+    setTranslateTarget(saveOpenArticle());
+  };
+
+  // The open article, its translations and its length variants, which shouldn't be suggested as link targets
+  const getOpenArticleGroupIds = () => {
+    const current = savedArticles.find(a => a.id === currentArticleId);
+    const translations = current ? getTranslationGroup(current, savedArticles) : [];
+    const siblings = variantGroupId
+      ? savedArticles.filter(a => a.variantGroupId === variantGroupId)
+      : current ? getVariantGroup(current, savedArticles) : [];
+    return [...translations, ...siblings].map(a => a.id);
+  };
+
+  const handleTranslated = (translation: SavedArticle, sourceLanguage: Language) => {
+    setSavedArticles(prev => {
+      // Older articles have no language; record the one the user confirmed in the dialog
+      const updated = prev.map(a => a.id === translation.translatedFromId && !a.language ? { ...a, language: sourceLanguage } : a);
+      const newSaved = [translation, ...updated];
+      localStorage.setItem('saved_articles', JSON.stringify(newSaved));
+      return newSaved;
+    });
+  };
+
   const insertText = (before: string, after: string = '') => {
       const textarea = textareaRef.current;
       if (!textarea) return;
@@ -637,10 +1233,74 @@ export default function App() {
       }, 0);
   };
 
+  const handleEditorSelect = () => {
+      const textarea = textareaRef.current;
+      // The range is locked while a suggestion for it is pending
+      if (!textarea || selectionSuggestion !== null) return;
+      const { selectionStart, selectionEnd } = textarea;
+      setEditorSelection(selectionEnd > selectionStart ? { start: selectionStart, end: selectionEnd } : null);
+  };
+
+  const handleSelectionRewrite = async (rewrite: SelectionRewrite) => {
+      if (!editorSelection) return;
+      const { start, end } = editorSelection;
+      const selectedText = generatedContent.substring(start, end);
+      const surroundingText = generatedContent.substring(Math.max(0, start - 800), start) + '[SELECTION]' + generatedContent.substring(end, end + 800);
+
+      const signal = beginCancellableTask();
+      setIsRewritingSelection(true);
+      setSelectionSuggestion('');
+
+      let buffer = '';
+      try {
+          await streamSelectionRewrite(selectedText, rewrite, surroundingText, (chunk) => {
+              buffer += chunk;
+              setSelectionSuggestion(buffer);
+          }, signal);
+      } catch (err) {
+          if (!isAbortError(err)) {
+              reportError(err, () => handleSelectionRewrite(rewrite));
+              setSelectionSuggestion(null);
+          }
+      } finally {
+          setIsRewritingSelection(false);
+      }
+  };
+
+  const handleAcceptSuggestion = () => {
+      if (!editorSelection || !selectionSuggestion) return;
+      const { start, end } = editorSelection;
+      // Preserve the whitespace around the original selection so paragraphs don't merge
+      const original = generatedContent.substring(start, end);
+      const leading = original.match(/^\s*/)?.[0] || '';
+      const trailing = original.match(/\s*$/)?.[0] || '';
+      const replacement = leading + selectionSuggestion.trim() + trailing;
+
+      setGeneratedContent(generatedContent.substring(0, start) + replacement + generatedContent.substring(end));
+      setSelectionSuggestion(null);
+      setEditorSelection(null);
+
+      setTimeout(() => {
+          if (textareaRef.current) {
+              textareaRef.current.focus();
+              textareaRef.current.setSelectionRange(start, start + replacement.length);
+          }
+      }, 0);
+  };
+
+  const handleRejectSuggestion = () => {
+      if (isRewritingSelection) handleStopGeneration();
+      setSelectionSuggestion(null);
+  };
+
   // Toggle Length Logic for Multi-select
   const toggleLength = (l: Length) => {
       setConfig(prev => {
           const current = prev.length;
+          // Outline mode writes one article, so a new length replaces the old one
+          if (prev.useOutline && !isStyleOverlay(l) && !current.includes(l)) {
+              return { ...prev, length: keepOneLength(current, l) };
+          }
           // If already selected
           if (current.includes(l)) {
               // Don't allow deselecting the last one
@@ -656,20 +1316,48 @@ export default function App() {
       });
   };
 
+  // rel="alternate" links between every saved translation of the open article, by exported file name
+  const getHreflangLinks = () => {
+    const current = savedArticles.find(a => a.id === currentArticleId);
+    if (!current) return '';
+    // Alternates must be absolute URLs, so translations without a canonical URL are left out
+    const getPageUrl = (article: SavedArticle) => article.seo ? article.seo.canonicalUrl || buildCanonicalUrl(article.seo.slug) : '';
+    const group = getTranslationGroup(current, savedArticles).filter(a => a.language && getPageUrl(a));
+    if (group.length < 2) return '';
+    const original = group.find(a => !a.translationGroupId);
+    const links = group.map(a => `<link rel="alternate" hreflang="${LANGUAGE_CODES[a.language!]}" href="${getPageUrl(a)}" />`);
+    if (original) links.push(`<link rel="alternate" hreflang="x-default" href="${getPageUrl(original)}" />`);
+    return links.join('\n        ');
+  };
+
+  const getStructuredData = () => buildStructuredData({
+    content: generatedContent,
+    topic: config.topic,
+    formatId: currentFormat.id,
+    language: config.language,
+    seo: seoMetadata,
+    imageUrl: currentImageUrl,
+    authorName: currentUser?.name,
+    datePublished: savedArticles.find(a => a.id === currentArticleId)?.date || Date.now(),
+  });
+
   const generateHtmlContent = () => {
     let html = `
       <!DOCTYPE html>
-      <html>
+      <html lang="${LANGUAGE_CODES[config.language]}">
       <head>
         <meta charset="utf-8">
-        <title>${config.topic}</title>
+        <title>${escapeAttribute(seoMetadata?.seoTitle || config.topic)}</title>
+        ${seoMetadata ? buildMetaTags(seoMetadata, currentImageUrl) : ''}
+        ${getHreflangLinks()}
+        ${renderJsonLd(getStructuredData())}
         <style>
           body { font-family: sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; line-height: 1.6; color: #333; }
           img { max-width: 100%; height: auto; border-radius: 10px; margin-bottom: 20px; }
           h1 { color: #111; font-size: 2em; margin-bottom: 0.5em; }
           h2 { color: #333; margin-top: 20px; font-size: 1.5em; }
           h3 { color: #444; margin-top: 15px; font-size: 1.25em; }
-          ul { padding-left: 20px; }
+          ul, ol { padding-left: 20px; }
           li { margin-bottom: 5px; }
           p { margin-bottom: 1em; }
           table { width: 100%; border-collapse: collapse; margin-bottom: 1em; border: 1px solid #ddd; }
@@ -686,11 +1374,20 @@ export default function App() {
 
     const lines = generatedContent.split('\n');
     let inList = false;
+    let inReferences = false;
     let inTable = false;
     let tableBuffer: string[] = [];
 
+    // Escapes the text, then renders bold, [^1] footnote markers and [text](url) links;
+    // the lookbehind leaves image syntax alone
+    const formatInline = (text: string) => escapeAttribute(text)
+      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
+      .replace(FOOTNOTE_MARKER_PATTERN, '<sup><a href="#ref-$1">[$1]</a></sup>')
+      .replace(/(?<!!)\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, url: string) => `<a href="${url}">${label}</a>`);
+
     const flushList = () => {
         if (inList) { html += '</ul>'; inList = false; }
+        if (inReferences) { html += '</ol>'; inReferences = false; }
     };
 
     const flushTable = () => {
@@ -699,14 +1396,14 @@ export default function App() {
              if (tableBuffer.length >= 2) {
                  const headerCells = tableBuffer[0].split('|').map(c => c.trim()).filter(c => c !== '');
                  html += '<thead><tr>';
-                 headerCells.forEach(h => html += `<th>${h}</th>`);
+                 headerCells.forEach(h => html += `<th>${formatInline(h)}</th>`);
                  html += '</tr></thead>';
                  html += '<tbody>';
                  for(let i = 2; i < tableBuffer.length; i++) {
                      const cells = tableBuffer[i].split('|').map(c => c.trim()).filter(c => c !== '');
                      if (cells.length > 0) {
                          html += '<tr>';
-                         cells.forEach(c => html += `<td>${c}</td>`);
+                         cells.forEach(c => html += `<td>${formatInline(c)}</td>`);
                          html += '</tr>';
                      }
                  }
@@ -736,28 +1433,34 @@ export default function App() {
           flushList();
           const match = trimLine.match(/!\[(.*?)\]\((.*?)\)/);
           if (match) {
-              html += `<img src="${match[2]}" alt="${match[1]}" />`;
-              if (match[1]) html += `<p style="text-align:center; font-style:italic; font-size:0.9em; color:#666;">${match[1]}</p>`;
+              html += `<img src="${escapeAttribute(match[2])}" alt="${escapeAttribute(match[1])}" />`;
+              if (match[1]) html += `<p style="text-align:center; font-style:italic; font-size:0.9em; color:#666;">${escapeAttribute(match[1])}</p>`;
           }
           return;
       }
 
       if (line.startsWith('# ')) {
         flushList();
-        html += `<h1>${line.substring(2)}</h1>`;
+        html += `<h1>${formatInline(line.substring(2))}</h1>`;
       } else if (line.startsWith('## ')) {
         flushList();
-        html += `<h2>${line.substring(3)}</h2>`;
+        html += `<h2>${formatInline(line.substring(3))}</h2>`;
       } else if (line.startsWith('### ')) {
         flushList();
-        html += `<h3>${line.substring(4)}</h3>`;
+        html += `<h3>${formatInline(line.substring(4))}</h3>`;
+      } else if (FOOTNOTE_DEFINITION_PATTERN.test(trimLine)) {
+        const [, number, source] = trimLine.match(FOOTNOTE_DEFINITION_PATTERN)!;
+        if (inList) flushList();
+        if (!inReferences) { html += '<ol>'; inReferences = true; }
+        html += `<li id="ref-${number}" value="${number}">${formatInline(source)}</li>`;
       } else if (trimLine.startsWith('- ') || trimLine.startsWith('* ')) {
+        if (inReferences) flushList();
         if (!inList) { html += '<ul>'; inList = true; }
-        const text = trimLine.substring(2).replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
+        const text = formatInline(trimLine.substring(2));
         html += `<li>${text}</li>`;
       } else if (trimLine.length > 0) {
         flushList();
-        const text = line.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
+        const text = formatInline(line);
         html += `<p>${text}</p>`;
       }
     });
@@ -770,11 +1473,11 @@ export default function App() {
   };
 
   const handleExportMarkdown = () => {
-    if (!generatedContent) return;
+    if (!generatedContent || !confirmNotDuplicate('Exporting')) return;
     const element = document.createElement("a");
     const file = new Blob([generatedContent], {type: 'text/markdown'});
     element.href = URL.createObjectURL(file);
-    element.download = `${config.topic.replace(/\s+/g, '_') || 'article'}.md`;
+    element.download = getExportFileName(config.topic, 'md');
     document.body.appendChild(element); 
     element.click();
     document.body.removeChild(element);
@@ -782,12 +1485,12 @@ export default function App() {
   };
 
   const handleExportHtml = () => {
-    if (!generatedContent) return;
+    if (!generatedContent || !confirmNotDuplicate('Exporting')) return;
     const htmlContent = generateHtmlContent();
     const element = document.createElement("a");
     const file = new Blob([htmlContent], {type: 'text/html'});
     element.href = URL.createObjectURL(file);
-    element.download = `${config.topic.replace(/\s+/g, '_') || 'article'}.html`;
+    element.download = getExportFileName(config.topic, 'html');
     document.body.appendChild(element);
     element.click();
     document.body.removeChild(element);
@@ -795,7 +1498,7 @@ export default function App() {
   };
 
   const handleCopyToClipboard = async () => {
-    if (!generatedContent) return;
+    if (!generatedContent || !confirmNotDuplicate('Copying')) return;
     const htmlContent = generateHtmlContent();
     try {
       const type = "text/html";
@@ -925,6 +1628,14 @@ export default function App() {
           </aside>
 
           <main className="flex-1 pb-24 lg:pb-20">
+              {budgetNotice && (
+                  <div className={`mb-6 p-4 rounded-xl border flex items-start gap-3 animate-slide-up ${budgetNotice.blocked ? 'bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-900/30 text-red-700 dark:text-red-400' : 'bg-amber-50 dark:bg-amber-900/10 border-amber-200 dark:border-amber-900/30 text-amber-800 dark:text-amber-300'}`}>
+                      <IconAlert className="w-5 h-5 shrink-0 mt-0.5" />
+                      <p className="flex-1 text-sm font-medium">{budgetNotice.message}</p>
+                      <button onClick={() => { setBudgetNotice(null); setView('settings'); }} className="text-sm font-bold hover:underline whitespace-nowrap">View Usage</button>
+                      <button onClick={() => setBudgetNotice(null)} className="opacity-60 hover:opacity-100"><IconX className="w-4 h-4" /></button>
+                  </div>
+              )}
               {view === 'dashboard' && (
                   <div className="space-y-8 animate-fade-in">
                       {/* Hero Section */}
@@ -960,10 +1671,10 @@ export default function App() {
                                <div className="mb-1 text-green-500"><IconCheck className="w-6 h-6" /></div>
                               <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">System Online</span>
                           </div>
-                          <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm flex flex-col items-center justify-center text-center">
-                              <div className="mb-1 text-blue-500"><IconTag className="w-6 h-6" /></div>
-                              <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Pro Plan</span>
-                          </div>
+                          <button onClick={() => setView('settings')} className="bg-white dark:bg-gray-800 p-5 rounded-2xl border border-gray-100 dark:border-gray-700 shadow-sm flex flex-col items-center justify-center text-center hover:border-blue-200 dark:hover:border-blue-800 transition-colors">
+                              <span className="text-3xl font-bold text-gray-900 dark:text-white mb-1">{formatCost(monthlySpend)}</span>
+                              <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Spent This Month</span>
+                          </button>
                       </div>
 
                       {/* Recent Articles */}
@@ -978,7 +1689,7 @@ export default function App() {
                           {savedArticles.length > 0 ? (
                               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                                   {savedArticles.slice(0, 6).map(article => (
-                                      <div key={article.id} onClick={() => { setGeneratedContent(article.content); setGeneratedImageUrls(article.imageUrl ? [article.imageUrl] : []); setConfig(prev => ({...prev, topic: article.topic, type: article.type})); setFocusKeyword(null); setView('article'); }} 
+                                      <div key={article.id} onClick={() => openSavedArticle(article)} 
                                           className="group bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 overflow-hidden cursor-pointer hover:shadow-lg transition-all hover:-translate-y-1">
                                           <div className="h-40 bg-gray-100 dark:bg-gray-900 relative overflow-hidden">
                                               {article.imageUrl ? (
@@ -1101,6 +1812,15 @@ export default function App() {
                           </div>
                       </div>
                       
+                      <BrandVoiceManager savedArticles={savedArticles} onError={reportError} />
+                      <PromptTemplateEditor />
+
+                      <UsagePanel />
+
+                      <RetryPolicySettings />
+
+                      <DuplicateCheckSettings />
+
                       <div className="text-center text-xs text-gray-400 pb-10">
                           <p>InkFlow AI Writer v1.0.0</p>
                           <p>&copy; 2024 InkFlow Inc. All rights reserved.</p>
@@ -1109,6 +1829,28 @@ export default function App() {
               )}
 
               {view === 'create' && (
+                  <div className="flex p-1 mb-4 bg-gray-100 dark:bg-gray-800 rounded-xl w-full sm:w-fit">
+                      {(['single', 'batch'] as const).map(mode => (
+                          <button
+                              key={mode}
+                              onClick={() => setCreateMode(mode)}
+                              className={`flex-1 sm:flex-none px-5 py-2 rounded-lg text-sm font-bold transition-all ${createMode === mode ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                          >
+                              {mode === 'single' ? 'Single Article' : 'Batch'}
+                          </button>
+                      ))}
+                  </div>
+              )}
+
+              {/* Kept mounted while hidden so a running batch survives navigation */}
+              <div className={view === 'create' && createMode === 'batch' ? '' : 'hidden'}>
+                  <div className="bg-white dark:bg-gray-800 rounded-2xl p-4 lg:p-6 shadow-sm border border-gray-200 dark:border-gray-700 animate-slide-up">
+                      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6 flex items-center gap-2"><IconFileText className="text-blue-500" /> Batch Generation</h2>
+                      <BatchGenerator defaults={config} onArticleComplete={handleBatchArticleComplete} />
+                  </div>
+              </div>
+
+              {view === 'create' && createMode === 'single' && (
                   <div className="bg-white dark:bg-gray-800 rounded-2xl p-4 lg:p-6 shadow-sm border border-gray-200 dark:border-gray-700 animate-slide-up">
                       <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6 flex items-center gap-2"><IconSparkles className="text-blue-500" /> Create New Article</h2>
                       <div className="space-y-8">
@@ -1130,6 +1872,9 @@ export default function App() {
                                 icon={<IconTag className="w-5 h-5" />}
                                 placeholder="Select a category"
                               />
+                              {currentFormat.id !== 'standard' && (
+                                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Format: <span className="font-medium text-gray-700 dark:text-gray-300">{currentFormat.name}</span> — {currentFormat.summary}</p>
+                              )}
                           </div>
 
                           {/* Topic & Language */}
@@ -1188,20 +1933,31 @@ export default function App() {
                                 />
                                 {suggestedKeywords.length > 0 && (
                                     <div className="flex flex-wrap gap-2 pt-1">
-                                        {suggestedKeywords.map(kw => (
-                                            <button key={kw} onClick={() => addKeyword(kw)} className="px-3 py-1.5 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-xs font-medium rounded-lg flex items-center gap-1 hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors">
-                                                <IconPlus className="w-3 h-3" /> {kw}
-                                            </button>
-                                        ))}
+                                        {suggestedKeywords.map(kw => {
+                                            const owners = findKeywordOwners(kw, savedArticles);
+                                            return (
+                                                <button
+                                                    key={kw}
+                                                    onClick={() => addKeyword(kw)}
+                                                    title={owners.length > 0 ? `Already the focus keyword of ${owners.map(a => `"${a.topic}"`).join(', ')}` : undefined}
+                                                    className={`px-3 py-1.5 text-xs font-medium rounded-lg flex items-center gap-1 transition-colors ${owners.length > 0 ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 hover:bg-amber-100 dark:hover:bg-amber-900/30' : 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/50'}`}
+                                                >
+                                                    {owners.length > 0 ? <IconAlert className="w-3 h-3" /> : <IconPlus className="w-3 h-3" />} {kw}
+                                                </button>
+                                            );
+                                        })}
                                     </div>
                                 )}
+                                {suggestedKeywords.some(kw => findKeywordOwners(kw, savedArticles).length > 0) && (
+                                    <p className="text-xs text-amber-600 dark:text-amber-400">Keywords marked with ⚠ are already the focus keyword of a saved article. Targeting them again makes the articles compete; hover for details or check the Keyword Map in History.</p>
+                                )}
                           </div>
 
                           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                               {/* Tone Selection - Pills */}
                               <div className="space-y-3">
                                   <label className="block text-sm font-bold text-gray-900 dark:text-white">Tone of Voice</label>
-                                  <div className="flex flex-wrap gap-2">
+                                  <div className={`flex flex-wrap gap-2 ${selectedBrandVoice && config.brandVoiceMode === 'replace' ? 'opacity-40 pointer-events-none' : ''}`}>
                                       {Object.values(Tone).map((t) => (
                                           <button
                                               key={t}
@@ -1216,13 +1972,37 @@ export default function App() {
                                           </button>
                                       ))}
                                   </div>
+                                  {brandVoices.length > 0 && (
+                                      <div className="pt-2 space-y-2">
+                                          <CustomSelect
+                                            label="Brand Voice"
+                                            value={selectedBrandVoice?.name || NO_BRAND_VOICE}
+                                            options={[NO_BRAND_VOICE, ...brandVoices.map(v => v.name)]}
+                                            onChange={(name) => setConfig({ ...config, brandVoiceId: brandVoices.find(v => v.name === name)?.id })}
+                                            icon={<IconFeather className="w-5 h-5" />}
+                                          />
+                                          {selectedBrandVoice && (
+                                              <div className="flex p-1 bg-gray-100 dark:bg-gray-900 rounded-xl w-fit">
+                                                  {(['alongside', 'replace'] as BrandVoiceMode[]).map(mode => (
+                                                      <button
+                                                          key={mode}
+                                                          onClick={() => setConfig({ ...config, brandVoiceMode: mode })}
+                                                          className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${(config.brandVoiceMode || 'alongside') === mode ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                                                      >
+                                                          {mode === 'alongside' ? 'Blend with Tone' : 'Replace Tone'}
+                                                      </button>
+                                                  ))}
+                                              </div>
+                                          )}
+                                      </div>
+                                  )}
                               </div>
 
                               {/* Length Selection - Cards (Multi-select) */}
                               <div className="space-y-3">
                                   <div className="flex justify-between items-center">
                                     <label className="block text-sm font-bold text-gray-900 dark:text-white">Article Length</label>
-                                    <span className="text-[10px] uppercase font-semibold text-gray-500 dark:text-gray-400">Select up to 2</span>
+                                    <span className="text-[10px] uppercase font-semibold text-gray-500 dark:text-gray-400">{config.useOutline ? 'One length per outline' : getVariantLengths(config.length, false).length > 1 ? 'One article per length' : 'Select up to 2'}</span>
                                   </div>
                                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                                       {Object.values(Length).map((t) => {
@@ -1254,6 +2034,25 @@ export default function App() {
                                           );
                                       })}
                                   </div>
+                                  <div className="space-y-1.5 pt-1">
+                                      <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Target Word Count</label>
+                                      <input
+                                          type="text"
+                                          inputMode="numeric"
+                                          className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
+                                          placeholder="Optional, e.g. 1500 or 1200-1500"
+                                          value={wordTargetInput}
+                                          onChange={(e) => {
+                                              setWordTargetInput(e.target.value);
+                                              setConfig({...config, targetWords: parseWordTarget(e.target.value) || undefined});
+                                          }}
+                                      />
+                                      {wordTargetInput.trim() && !config.targetWords ? (
+                                          <p className="text-xs text-red-500">Enter a number or a range between {MIN_TARGET_WORDS} and {MAX_TARGET_WORDS} words.</p>
+                                      ) : config.targetWords && (
+                                          <p className="text-xs text-gray-500 dark:text-gray-400">Articles that come back shorter than {acceptedWords?.min} words are continued or expanded automatically.</p>
+                                      )}
+                                  </div>
                               </div>
                           </div>
 
@@ -1299,10 +2098,71 @@ export default function App() {
                               )}
                           </div>
 
-                          <div className="pt-6">
-                              <button onClick={handleGenerate} disabled={!config.topic || isGenerating} className="w-full py-4 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-bold text-lg shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:shadow-none flex items-center justify-center gap-3 transform active:scale-[0.99]">
-                                  {isGenerating ? <><IconRefresh className="animate-spin w-6 h-6" /> Writing Magic...</> : <><IconSparkles className="w-6 h-6" /> Generate Article</>}
-                              </button>
+                          {/* Outline-first Toggle */}
+                          <div className="p-5 bg-gray-50 dark:bg-gray-900 rounded-2xl border border-gray-200 dark:border-gray-700">
+                              <div className="flex items-center justify-between">
+                                  <div className="flex items-center gap-3">
+                                      <div className={`p-2 rounded-lg ${config.useOutline ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400' : 'bg-gray-200 text-gray-500 dark:bg-gray-800 dark:text-gray-400'}`}>
+                                         <IconFileText className="w-5 h-5" />
+                                      </div>
+                                      <div>
+                                          <div className="font-bold text-gray-900 dark:text-white">Outline First</div>
+                                          <div className="text-xs text-gray-500 dark:text-gray-400">Review and edit the structure before any text is written</div>
+                                      </div>
+                                  </div>
+                                  <label className="relative inline-flex items-center cursor-pointer">
+                                      <input type="checkbox" className="sr-only peer" checked={!!config.useOutline} onChange={(e) => { setConfig({...config, useOutline: e.target.checked, length: e.target.checked ? keepOneLength(config.length) : config.length}); if (!e.target.checked) setOutline(null); }} />
+                                      <div className="w-12 h-7 bg-gray-200 peer-focus:outline-none rounded-full peer dark:bg-gray-700 peer-checked:bg-blue-600 relative after:absolute after:top-[3px] after:left-[3px] after:bg-white after:rounded-full after:h-5.5 after:w-5.5 after:shadow-sm after:transition-all peer-checked:after:translate-x-5"></div>
+                                  </label>
+                              </div>
+
+                              {config.useOutline && outline && (
+                                  <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700 animate-slide-up">
+                                      <OutlineEditor outline={outline} onChange={setOutline} disabled={isGenerating || isGeneratingOutline} />
+                                  </div>
+                              )}
+                          </div>
+
+                          {/* Cite Sources Toggle */}
+                          <div className="p-5 bg-gray-50 dark:bg-gray-900 rounded-2xl border border-gray-200 dark:border-gray-700">
+                              <div className="flex items-center justify-between">
+                                  <div className="flex items-center gap-3">
+                                      <div className={`p-2 rounded-lg ${config.grounded ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400' : 'bg-gray-200 text-gray-500 dark:bg-gray-800 dark:text-gray-400'}`}>
+                                         <IconExternalLink className="w-5 h-5" />
+                                      </div>
+                                      <div>
+                                          <div className="font-bold text-gray-900 dark:text-white">Cite Sources</div>
+                                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                                              {config.useOutline ? 'Not used when writing from an outline' : 'Back facts with web search results, footnotes and a References section'}
+                                          </div>
+                                      </div>
+                                  </div>
+                                  <label className="relative inline-flex items-center cursor-pointer">
+                                      <input type="checkbox" className="sr-only peer" checked={!!config.grounded} onChange={(e) => setConfig({...config, grounded: e.target.checked})} />
+                                      <div className="w-12 h-7 bg-gray-200 peer-focus:outline-none rounded-full peer dark:bg-gray-700 peer-checked:bg-blue-600 relative after:absolute after:top-[3px] after:left-[3px] after:bg-white after:rounded-full after:h-5.5 after:w-5.5 after:shadow-sm after:transition-all peer-checked:after:translate-x-5"></div>
+                                  </label>
+                              </div>
+                          </div>
+
+                          <div className="pt-6 space-y-3">
+                              {config.useOutline && outline ? (
+                                  <>
+                                      <button onClick={() => handleGenerate(outline)} disabled={!config.topic || isGenerating || outline.sections.length === 0} className="w-full py-4 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-bold text-lg shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:shadow-none flex items-center justify-center gap-3 transform active:scale-[0.99]">
+                                          {isGenerating ? <><IconRefresh className="animate-spin w-6 h-6" /> Writing Magic...</> : <><IconSparkles className="w-6 h-6" /> Write Article From Outline</>}
+                                      </button>
+                                      <button onClick={handleGenerateOutline} disabled={isGeneratingOutline || isGenerating} className="w-full text-sm text-gray-500 hover:text-blue-500 flex items-center justify-center gap-1 disabled:opacity-50">
+                                          <IconRefresh className={`w-4 h-4 ${isGeneratingOutline ? 'animate-spin' : ''}`} /> Regenerate Outline
+                                      </button>
+                                  </>
+                              ) : config.useOutline ? (
+                                  <button onClick={handleGenerateOutline} disabled={!config.topic || isGeneratingOutline} className="w-full py-4 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-bold text-lg shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:shadow-none flex items-center justify-center gap-3 transform active:scale-[0.99]">
+                                      {isGeneratingOutline ? <><IconRefresh className="animate-spin w-6 h-6" /> Planning Structure...</> : <><IconFileText className="w-6 h-6" /> Generate Outline</>}
+                                  </button>
+                              ) : (
+                                  <button onClick={() => handleGenerate()} disabled={!config.topic || isGenerating} className="w-full py-4 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-bold text-lg shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:shadow-none flex items-center justify-center gap-3 transform active:scale-[0.99]">
+                                      {isGenerating ? <><IconRefresh className="animate-spin w-6 h-6" /> Writing Magic...</> : <><IconSparkles className="w-6 h-6" /> Generate Article</>}
+                                  </button>
+                              )}
                           </div>
                       </div>
                   </div>
@@ -1332,6 +2192,24 @@ export default function App() {
                              {isEditingContent ? <IconCheck className="w-5 h-5" /> : <IconEdit className="w-5 h-5" />}
                           </button>
                           
+                          <button 
+                            onClick={handleTranslateOpenArticle} 
+                            disabled={!generatedContent || isGenerating}
+                            className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors hidden lg:block disabled:opacity-50"
+                            title="Translate to..."
+                          >
+                             <IconGlobe className="w-5 h-5" />
+                          </button>
+
+                          <button 
+                            onClick={() => setShowInternalLinks(true)} 
+                            disabled={!generatedContent || isGenerating}
+                            className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors hidden lg:block disabled:opacity-50"
+                            title="Add internal links"
+                          >
+                             <IconLink className="w-5 h-5" />
+                          </button>
+
                           <div className="relative hidden lg:block">
                             <button onClick={() => setShowExportMenu(!showExportMenu)} className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors" title="Export">
                                 <IconShare className="w-5 h-5" />
@@ -1412,6 +2290,90 @@ export default function App() {
                           )}
                       </div>
 
+                      {/* Generation Status */}
+                      {isGenerating || rewritingSectionIndex !== null ? (
+                          <div className="flex items-center justify-between gap-3 p-3 pl-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 rounded-xl">
+                              <span className="flex items-center gap-2 text-sm font-medium text-blue-700 dark:text-blue-300">
+                                  <IconRefresh className="w-4 h-4 animate-spin" />
+                                  {isExpandingToTarget && config.targetWords
+                                      ? `Expanding thin sections to reach ${describeWordTarget(config.targetWords)}... ${articleWords} words so far`
+                                      : `Writing... ${generatedContent.split(/\s+/).filter(Boolean).length} words so far${isGenerating && config.targetWords ? ` (target ${formatWordTarget(config.targetWords)})` : ''}`}
+                              </span>
+                              <button onClick={handleStopGeneration} className="flex items-center gap-1.5 px-4 py-1.5 bg-white dark:bg-gray-800 text-red-600 border border-red-200 dark:border-red-900/40 rounded-lg text-sm font-bold hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">
+                                  <IconX className="w-4 h-4" /> Stop
+                              </button>
+                          </div>
+                      ) : (generationStatus === 'stopped' || generationStatus === 'failed' || generationStatus === 'truncated') && (
+                          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl">
+                              <div className="flex items-start gap-2 text-sm text-amber-800 dark:text-amber-300">
+                                  <IconAlert className="w-5 h-5 shrink-0" />
+                                  <div>
+                                      <div className="font-bold">{GENERATION_INCOMPLETE_TITLES[generationStatus]} — article incomplete</div>
+                                      <div className="text-xs mt-0.5">
+                                          {generationStatus === 'truncated'
+                                              ? 'The model stopped before the end, most likely at its output limit. Continue writing to finish it from where it stops.'
+                                              : generatedContent
+                                              ? `The partial text (${generatedContent.split(/\s+/).filter(Boolean).length} words) was kept. You can continue writing or edit it yourself.`
+                                              : 'Nothing was written before the run ended.'}
+                                      </div>
+                                  </div>
+                              </div>
+                              <div className="flex items-center gap-2 shrink-0">
+                                  {generatedContent && (
+                                      <button onClick={handleResumeGeneration} className="flex items-center gap-1.5 px-4 py-1.5 bg-amber-600 hover:bg-amber-700 text-white rounded-lg text-sm font-bold transition-colors">
+                                          <IconSparkles className="w-4 h-4" /> Continue writing
+                                      </button>
+                                  )}
+                                  <button onClick={() => setGenerationStatus('idle')} className="px-3 py-1.5 text-amber-800 dark:text-amber-300 text-sm font-medium hover:underline">Dismiss</button>
+                              </div>
+                          </div>
+                      )}
+
+                      {/* Target vs. actual length */}
+                      {!isGenerating && generatedContent && config.targetWords && acceptedWords && (
+                          <div className={`flex items-center gap-2 px-4 py-2.5 rounded-xl border text-sm ${wordCountStatus === 'onTarget' ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-300' : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300'}`}>
+                              {wordCountStatus === 'onTarget' ? <IconCheck className="w-4 h-4 shrink-0" /> : <IconAlert className="w-4 h-4 shrink-0" />}
+                              <span><span className="font-bold">{articleWords.toLocaleString()}</span> of {formatWordTarget(config.targetWords)} words</span>
+                              <span className="text-xs opacity-80">
+                                  {wordCountStatus === 'onTarget' ? '— on target' : wordCountStatus === 'short' ? `— ${(acceptedWords.min - articleWords).toLocaleString()} short` : `— ${(articleWords - acceptedWords.max).toLocaleString()} over`}
+                              </span>
+                          </div>
+                      )}
+
+                      {/* Length Variants */}
+                      {variants.length > 0 && (
+                          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                              <div className="flex p-1 bg-gray-100 dark:bg-gray-800 rounded-xl overflow-x-auto no-scrollbar">
+                                  {variants.map((variant, index) => {
+                                      const isActive = index === activeVariantIndex;
+                                      const status = isActive ? generationStatus : variant.status;
+                                      const words = countArticleWords(isActive ? generatedContent : variant.content);
+                                      return (
+                                          <button
+                                              key={variant.id}
+                                              onClick={() => handleSelectVariant(index)}
+                                              disabled={!isActive && (isGenerating || rewritingSectionIndex !== null)}
+                                              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 whitespace-nowrap disabled:opacity-50 ${isActive ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                                          >
+                                              {status === 'generating' && <IconRefresh className="w-3.5 h-3.5 animate-spin" />}
+                                              {(status === 'stopped' || status === 'failed' || status === 'truncated') && <IconAlert className="w-3.5 h-3.5 text-amber-500" />}
+                                              {getLengthLabel(variant.length)}
+                                              <span className="text-xs text-gray-400">{words > 0 ? `${words}w` : '—'}</span>
+                                              {(isActive ? currentArticleId : variant.savedArticleId) && <IconCheck className="w-3.5 h-3.5 text-green-500" />}
+                                          </button>
+                                      );
+                                  })}
+                              </div>
+                              <button
+                                  onClick={handleSaveAllVariants}
+                                  disabled={isGenerating || stashActiveVariant().every(variant => !variant.content.trim() || variant.savedArticleId)}
+                                  className="flex items-center justify-center gap-2 px-4 py-2 text-green-600 hover:text-green-700 bg-green-50 dark:bg-green-900/20 rounded-lg text-sm font-medium disabled:opacity-50"
+                              >
+                                  <IconDownload className="w-4 h-4" /> Save all variants
+                              </button>
+                          </div>
+                      )}
+
                       <div className="flex flex-col lg:flex-row gap-6 items-start">
                           <div className="flex-1 w-full bg-white dark:bg-gray-800 rounded-2xl p-4 lg:p-8 shadow-sm border border-gray-200 dark:border-gray-700 min-h-[500px]">
                               {/* Content Area */}
@@ -1435,26 +2397,81 @@ export default function App() {
                                               Insert AI Image
                                           </button>
                                       </div>
+                                      {editorSelection && (
+                                          <SelectionRewriteBar
+                                              selectedText={generatedContent.substring(editorSelection.start, editorSelection.end)}
+                                              suggestion={selectionSuggestion}
+                                              isStreaming={isRewritingSelection}
+                                              onRewrite={handleSelectionRewrite}
+                                              onAccept={handleAcceptSuggestion}
+                                              onReject={handleRejectSuggestion}
+                                          />
+                                      )}
                                       <textarea 
                                           ref={textareaRef}
                                           value={generatedContent}
                                           onChange={(e) => setGeneratedContent(e.target.value)}
-                                          readOnly={isGeneratingImage}
+                                          onSelect={handleEditorSelect}
+                                          onBlur={() => { if (selectionSuggestion === null) setEditorSelection(null); }}
+                                          readOnly={isGeneratingImage || selectionSuggestion !== null}
                                           className="w-full h-full min-h-[500px] p-4 bg-gray-50 dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700 focus:ring-2 focus:ring-blue-500 outline-none font-mono text-base leading-relaxed text-gray-800 dark:text-gray-200 resize-none disabled:opacity-50 disabled:cursor-not-allowed"
                                           placeholder="Article content..."
                                       />
                                   </div>
                               ) : (
-                                  generatedContent ? <MarkdownView content={generatedContent} /> : <div className="h-full flex items-center justify-center text-gray-500">Waiting for generation to start...</div>
+                                  generatedContent ? (
+                                      <MarkdownView
+                                          content={generatedContent}
+                                          highlights={showOriginalityHighlights && originalityHistory.length > 0 ? getHighlightPhrases(originalityHistory[originalityHistory.length - 1]) : undefined}
+                                          renderSectionActions={isGenerating ? undefined : (sectionIndex) => (
+                                              <SectionActions
+                                                  onAction={(action) => handleSectionAction(sectionIndex, action)}
+                                                  isBusy={rewritingSectionIndex === sectionIndex}
+                                                  disabled={rewritingSectionIndex !== null}
+                                              />
+                                          )}
+                                      />
+                                  ) : <div className="h-full flex items-center justify-center text-gray-500">Waiting for generation to start...</div>
                               )}
                           </div>
                           
                           {!isEditingContent && (
                               <div className="w-full lg:w-72 space-y-4 lg:sticky lg:top-24">
-                                  <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700">
-                                      <h3 className="font-bold text-gray-900 dark:text-white mb-4 flex items-center gap-2"><IconShield className="text-blue-500" /> Content Audit</h3>
-                                      {!originalityReport ? <button onClick={handleAnalyze} disabled={isCheckingOriginality || !generatedContent} className="w-full py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg text-sm font-medium transition-colors">{isCheckingOriginality ? 'Analyzing...' : 'Check SEO & Originality'}</button> : <div className="text-sm"><MarkdownView content={originalityReport} /><button onClick={() => setOriginalityReport(null)} className="mt-4 text-xs text-blue-500 hover:underline">Re-run Analysis</button></div>}
-                                  </div>
+                                  {currentFormat.id !== 'standard' && generatedContent && !isGenerating && (
+                                      <FormatChecklist
+                                          content={generatedContent}
+                                          formatId={currentFormat.id}
+                                          language={config.language}
+                                          onFix={(requirement) => setGeneratedContent(applyFormatFix(generatedContent, currentFormat.id, requirement))}
+                                      />
+                                  )}
+
+                                  <OriginalityReportCard
+                                      history={originalityHistory}
+                                      isChecking={isCheckingOriginality}
+                                      disabled={!generatedContent}
+                                      onCheck={handleAnalyze}
+                                      showHighlights={showOriginalityHighlights}
+                                      onToggleHighlights={() => setShowOriginalityHighlights(!showOriginalityHighlights)}
+                                  />
+
+                                  {generatedContent && !isGenerating && (
+                                      <DuplicateContentCard
+                                          content={generatedContent}
+                                          savedArticles={savedArticles}
+                                          excludeId={currentArticleId}
+                                          onOpen={handleOpenDuplicate}
+                                      />
+                                  )}
+
+                                  {generatedContent && !isGenerating && (
+                                      <SeoReportCard
+                                          content={generatedContent}
+                                          keyword={focusKeyword || config.keywords.split(',')[0]?.trim() || null}
+                                          language={config.language}
+                                          seo={seoMetadata}
+                                      />
+                                  )}
                                   
                                   {/* NEW Focus Keyword Card */}
                                   <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700">
@@ -1491,6 +2508,34 @@ export default function App() {
                                           </div>
                                       )}
                                   </div>
+
+                                  <SeoMetadataPanel
+                                      seo={seoMetadata}
+                                      onChange={handleSeoChange}
+                                      onGenerate={handleGenerateSeo}
+                                      isGenerating={isGeneratingSeo}
+                                      disabled={!generatedContent || isGenerating}
+                                  />
+
+                                  <HeadlineLab
+                                      headlines={headlineSet}
+                                      slug={seoMetadata?.slug || slugify(config.topic)}
+                                      fileName={getExportFileName(config.topic, 'headlines.json')}
+                                      onGenerate={handleGenerateHeadlines}
+                                      onSelect={handleSelectHeadline}
+                                      isGenerating={isGeneratingHeadlines}
+                                      disabled={!generatedContent || isGenerating}
+                                  />
+
+                                  <RepurposePanel
+                                      posts={socialPosts}
+                                      onChange={handleSocialPostsChange}
+                                      onGenerate={handleRepurpose}
+                                      isGenerating={isRepurposing}
+                                      disabled={!generatedContent || isGenerating}
+                                  />
+
+                                  {generatedContent && !isGenerating && <StructuredDataCard result={getStructuredData()} />}
                               </div>
                           )}
                       </div>
@@ -1499,35 +2544,81 @@ export default function App() {
 
               {view === 'history' && (
                   <div className="space-y-6 animate-fade-in">
-                      <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Your History</h2>
-                      <div className="grid grid-cols-1 gap-4">
-                          {savedArticles.map(article => (
-                              <div key={article.id} className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row gap-6 items-start shadow-sm hover:shadow-md transition-all">
-                                  {article.imageUrl && <img src={article.imageUrl} alt="" className="w-full sm:w-32 h-48 sm:h-24 object-cover rounded-lg bg-gray-100 flex-shrink-0" />}
-                                  <div className="flex-1 w-full">
-                                      <div className="flex justify-between items-start">
-                                          <div>
-                                              <span className="inline-block px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 text-xs rounded-full mb-2 font-semibold">{article.type}</span>
-                                              <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">{article.topic}</h3>
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Your History</h2>
+                          <div className="flex p-1 bg-gray-100 dark:bg-gray-800 rounded-xl w-full sm:w-fit">
+                              {(['articles', 'keywords'] as const).map(mode => (
+                                  <button
+                                      key={mode}
+                                      onClick={() => setHistoryMode(mode)}
+                                      className={`flex-1 sm:flex-none px-5 py-2 rounded-lg text-sm font-bold transition-all ${historyMode === mode ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                                  >
+                                      {mode === 'articles' ? 'Articles' : 'Keyword Map'}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                      {historyMode === 'keywords' && (
+                          <KeywordMap
+                              savedArticles={savedArticles}
+                              onKeywordsExtracted={handleKeywordsExtracted}
+                              onOpen={openSavedArticle}
+                              onError={reportError}
+                          />
+                      )}
+                      {historyMode === 'articles' && (
+                          <div className="grid grid-cols-1 gap-4">
+                              {savedArticles.map(article => (
+                                  <div key={article.id} className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row gap-6 items-start shadow-sm hover:shadow-md transition-all">
+                                      {article.imageUrl && <img src={article.imageUrl} alt="" className="w-full sm:w-32 h-48 sm:h-24 object-cover rounded-lg bg-gray-100 flex-shrink-0" />}
+                                      <div className="flex-1 w-full">
+                                          <div className="flex justify-between items-start">
+                                              <div>
+                                                  <span className="inline-block px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 text-xs rounded-full mb-2 font-semibold">{article.type}</span>
+                                                  {article.language && <span className="inline-block ml-2 px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs rounded-full mb-2 font-semibold">{article.language}</span>}
+                                                  {article.variantLength && <span className="inline-block ml-2 px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs rounded-full mb-2 font-semibold">{getLengthLabel(article.variantLength)}</span>}
+                                                  <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">{article.topic}</h3>
+                                              </div>
+                                              <div className="flex gap-2">
+                                                  <button onClick={() => setTranslateTarget(article)} className="p-2 text-gray-400 hover:text-blue-500 transition-colors" title="Translate to..."><IconGlobe className="w-4 h-4" /></button>
+                                                  <button onClick={() => { const newSaved = savedArticles.filter(a => a.id !== article.id); setSavedArticles(newSaved); localStorage.setItem('saved_articles', JSON.stringify(newSaved)); }} className="p-2 text-gray-400 hover:text-red-500 transition-colors"><IconTrash className="w-4 h-4" /></button>
+                                              </div>
                                           </div>
-                                          <div className="flex gap-2">
-                                              <button onClick={() => { const newSaved = savedArticles.filter(a => a.id !== article.id); setSavedArticles(newSaved); localStorage.setItem('saved_articles', JSON.stringify(newSaved)); }} className="p-2 text-gray-400 hover:text-red-500 transition-colors"><IconTrash className="w-4 h-4" /></button>
+                                          <p className="text-gray-600 dark:text-gray-400 text-sm line-clamp-2 mb-4">{article.content.substring(0, 150)}...</p>
+                                          {getVariantGroup(article, savedArticles).length > 1 && (
+                                              <div className="flex flex-wrap items-center gap-1.5 mb-4 text-xs">
+                                                  <IconFileText className="w-3.5 h-3.5 text-gray-400" />
+                                                  {getVariantGroup(article, savedArticles).filter(a => a.id !== article.id).map(linked => (
+                                                      <button key={linked.id} onClick={() => openSavedArticle(linked)} className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded-full hover:text-blue-600 dark:hover:text-blue-400">
+                                                          {linked.variantLength ? getLengthLabel(linked.variantLength) : 'Variant'}
+                                                      </button>
+                                                  ))}
+                                              </div>
+                                          )}
+                                          {getTranslationGroup(article, savedArticles).length > 1 && (
+                                              <div className="flex flex-wrap items-center gap-1.5 mb-4 text-xs">
+                                                  <IconGlobe className="w-3.5 h-3.5 text-gray-400" />
+                                                  {getTranslationGroup(article, savedArticles).filter(a => a.id !== article.id).map(linked => (
+                                                      <button key={linked.id} onClick={() => openSavedArticle(linked)} className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded-full hover:text-blue-600 dark:hover:text-blue-400">
+                                                          {linked.language || 'Unknown'}
+                                                      </button>
+                                                  ))}
+                                              </div>
+                                          )}
+                                          <div className="flex items-center justify-between">
+                                              <span className="text-xs text-gray-500">{new Date(article.date).toLocaleDateString()}</span>
+                                              <button onClick={() => openSavedArticle(article)} className="text-blue-600 dark:text-blue-400 text-sm font-medium hover:underline flex items-center gap-1">Open Article <IconChevronRight className="w-4 h-4" /></button>
                                           </div>
                                       </div>
-                                      <p className="text-gray-600 dark:text-gray-400 text-sm line-clamp-2 mb-4">{article.content.substring(0, 150)}...</p>
-                                      <div className="flex items-center justify-between">
-                                          <span className="text-xs text-gray-500">{new Date(article.date).toLocaleDateString()}</span>
-                                          <button onClick={() => { setGeneratedContent(article.content); setGeneratedImageUrls(article.imageUrl ? [article.imageUrl] : []); setConfig(prev => ({...prev, topic: article.topic, type: article.type})); setFocusKeyword(null); setView('article'); }} className="text-blue-600 dark:text-blue-400 text-sm font-medium hover:underline flex items-center gap-1">Open Article <IconChevronRight className="w-4 h-4" /></button>
-                                      </div>
                                   </div>
-                              </div>
-                          ))}
-                          {savedArticles.length === 0 && (
-                             <div className="bg-white dark:bg-gray-800 rounded-2xl p-10 text-center border-2 border-dashed border-gray-200 dark:border-gray-700">
-                                  <p className="text-gray-500">No articles saved yet.</p>
-                             </div>
-                          )}
-                      </div>
+                              ))}
+                              {savedArticles.length === 0 && (
+                                 <div className="bg-white dark:bg-gray-800 rounded-2xl p-10 text-center border-2 border-dashed border-gray-200 dark:border-gray-700">
+                                      <p className="text-gray-500">No articles saved yet.</p>
+                                 </div>
+                              )}
+                          </div>
+                      )}
                   </div>
               )}
           </main>
@@ -1636,6 +2727,14 @@ export default function App() {
                                   Add
                               </button>
                           </div>
+                          <div className="mt-3">
+                              <CustomSelect
+                                  value={ARTICLE_FORMATS[newCategoryFormat].name}
+                                  options={FORMAT_IDS.map(id => ARTICLE_FORMATS[id].name)}
+                                  onChange={(name) => setNewCategoryFormat(FORMAT_IDS.find(id => ARTICLE_FORMATS[id].name === name) || 'standard')}
+                                  icon={<IconFileText className="w-5 h-5" />}
+                              />
+                          </div>
                       </div>
                       
                       {customCategories.length > 0 && (
@@ -1659,6 +2758,14 @@ export default function App() {
                                           ) : (
                                               <>
                                                   <span className="text-gray-800 dark:text-gray-200 font-medium truncate flex-1">{cat}</span>
+                                                  <select
+                                                      value={categoryFormats[cat] || 'standard'}
+                                                      onChange={(e) => updateCategoryFormat(cat, e.target.value as ArticleFormatId)}
+                                                      className="mx-2 px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-xs text-gray-700 dark:text-gray-300 outline-none focus:ring-2 focus:ring-blue-500"
+                                                      title="Article format"
+                                                  >
+                                                      {FORMAT_IDS.map(id => <option key={id} value={id}>{ARTICLE_FORMATS[id].name}</option>)}
+                                                  </select>
                                                   <div className="flex items-center gap-1 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
                                                       <button onClick={() => startEditingCategory(cat)} className="text-gray-400 hover:text-blue-500 p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors" title="Edit">
                                                           <IconEdit className="w-4 h-4" />
@@ -1679,6 +2786,29 @@ export default function App() {
           </div>
       )}
 
+      {translateTarget && (
+          <TranslateModal
+            article={translateTarget}
+            savedArticles={savedArticles}
+            defaultLanguage={defaultLanguage}
+            onTranslated={handleTranslated}
+            onOpen={openSavedArticle}
+            onError={(error) => reportError(error)}
+            onClose={() => setTranslateTarget(null)}
+          />
+      )}
+
+      {showInternalLinks && (
+          <InternalLinksModal
+            content={generatedContent}
+            savedArticles={savedArticles}
+            language={config.language}
+            excludeIds={getOpenArticleGroupIds()}
+            onInsert={setGeneratedContent}
+            onClose={() => setShowInternalLinks(false)}
+          />
+      )}
+
       {showImageMaskEditor && currentImageUrl && (
           <ImageMaskEditor 
             imageUrl={currentImageUrl}
@@ -1737,6 +2867,15 @@ export default function App() {
             </div>
         </div>
       )}
+
+      {aiError && (
+        <ErrorNotice
+          error={aiError.error}
+          onRetry={aiError.retry}
+          onDismiss={() => setAiError(null)}
+          onEditPrompt={() => { setCreateMode('single'); setView('create'); }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
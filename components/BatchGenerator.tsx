@@ -0,0 +1,236 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ArticleConfig, BatchItem, BatchItemStatus, GeneratedArticle } from '../types';
+import { streamArticleGeneration, continueArticleGeneration } from '../services/geminiService';
+import { parseBatchInput, createBatchItems, createBatchRunner, BatchRunner, BATCH_CSV_TEMPLATE } from '../services/batchQueue';
+import { getLengthLabel } from '../services/articleVariants';
+import { CustomSelect } from './CustomSelect';
+import { IconPlus, IconRefresh, IconTrash, IconAlert, IconCheck, IconFileText, IconClock } from './Icons';
+
+interface BatchGeneratorProps {
+  defaults: ArticleConfig; // Used for any column a row leaves out
+  onArticleComplete: (config: ArticleConfig, article: GeneratedArticle) => string; // Returns the saved article id
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  running: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  done: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+export const BatchGenerator: React.FC<BatchGeneratorProps> = ({ defaults, onArticleComplete }) => {
+  const [input, setInput] = useState('');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [maxRetries, setMaxRetries] = useState(2);
+  const [isPaused, setIsPaused] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const runnerRef = useRef<BatchRunner | null>(null);
+  const onCompleteRef = useRef(onArticleComplete);
+  onCompleteRef.current = onArticleComplete;
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const getRunner = () => {
+    if (!runnerRef.current) {
+      runnerRef.current = createBatchRunner({
+        concurrency,
+        maxRetries,
+        generate: async (item, onProgress, signal) => {
+          let streamed = '';
+          const onChunk = (chunk: string) => {
+            streamed += chunk;
+            onProgress(streamed.split(/\s+/).filter(Boolean).length);
+          };
+          let article = await streamArticleGeneration(item.config, onChunk, signal);
+          if (!article.content.trim()) throw new Error('Model returned an empty article');
+          // Nobody is watching to press Continue writing, so a cut-off article is finished once here
+          if (!article.isComplete) article = await continueArticleGeneration(item.config, article.content, onChunk, signal);
+          return article;
+        },
+        onUpdate: updateItem,
+        onComplete: (item, article) => {
+          const savedArticleId = onCompleteRef.current(item.config, article);
+          updateItem(item.id, { savedArticleId });
+        },
+      });
+    }
+    return runnerRef.current;
+  };
+
+  useEffect(() => {
+    runnerRef.current?.setOptions({ concurrency, maxRetries });
+  }, [concurrency, maxRetries]);
+
+  // Stop spending quota if the app goes away mid-run
+  useEffect(() => () => runnerRef.current?.cancel(), []);
+
+  const handleAddToQueue = () => {
+    const configs = parseBatchInput(input, defaults);
+    if (configs.length === 0) {
+      alert("No topics found. Paste one topic per line, or a CSV with a header row.");
+      return;
+    }
+    const newItems = createBatchItems(configs);
+    setItems(prev => [...prev, ...newItems]);
+    setInput('');
+    getRunner().enqueue(newItems);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setInput(await file.text());
+    e.target.value = '';
+  };
+
+  const handleTogglePause = () => {
+    const runner = getRunner();
+    if (isPaused) runner.resume();
+    else runner.pause();
+    setIsPaused(!isPaused);
+  };
+
+  const handleRetry = (retryItems: BatchItem[]) => {
+    if (retryItems.length === 0) return;
+    getRunner().enqueue(retryItems);
+  };
+
+  const handleClearFinished = () => {
+    setItems(prev => prev.filter(item => item.status !== 'done'));
+  };
+
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const failedItems = items.filter(i => i.status === 'failed');
+  const activeCount = items.filter(i => i.status === 'running' || i.status === 'queued').length;
+
+  return (
+    <div className="space-y-6">
+      {/* Input */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-bold text-gray-900 dark:text-white">Topics</label>
+          <div className="flex items-center gap-3">
+            <button onClick={() => setInput(BATCH_CSV_TEMPLATE)} className="text-xs text-gray-500 hover:text-blue-500 dark:text-gray-400">Use CSV template</button>
+            <div className="w-px h-3 bg-gray-300 dark:bg-gray-600"></div>
+            <button onClick={() => fileInputRef.current?.click()} className="text-xs text-blue-600 dark:text-blue-400 font-medium hover:underline flex items-center gap-1">
+              <IconFileText className="w-3 h-3" /> Import CSV
+            </button>
+            <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleImportFile} />
+          </div>
+        </div>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={"One topic per line, or CSV with a header row:\ntopic,category,keywords,tone,length,language"}
+          className="w-full h-40 px-4 py-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm resize-none"
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Empty or unknown values use the current form settings ({defaults.type}, {defaults.tone}, {defaults.language}).
+        </p>
+      </div>
+
+      {/* Run Settings */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <CustomSelect
+          label="Parallel Articles"
+          value={concurrency.toString()}
+          options={['1', '2', '3', '4', '5']}
+          onChange={(val) => setConcurrency(parseInt(val))}
+        />
+        <CustomSelect
+          label="Retries Per Article"
+          value={maxRetries.toString()}
+          options={['0', '1', '2', '3', '4', '5']}
+          onChange={(val) => setMaxRetries(parseInt(val))}
+        />
+      </div>
+
+      <button onClick={handleAddToQueue} disabled={!input.trim()} className="w-full py-4 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-xl font-bold text-lg shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:shadow-none flex items-center justify-center gap-3">
+        <IconPlus className="w-6 h-6" /> Add to Queue
+      </button>
+
+      {/* Queue */}
+      {items.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-bold text-gray-900 dark:text-white">Queue</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{doneCount} of {items.length} saved to history{isPaused ? ' • Paused' : ''}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              {doneCount > 0 && (
+                <button onClick={handleClearFinished} className="px-3 py-1.5 text-xs font-medium text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">Clear finished</button>
+              )}
+              <button
+                onClick={handleTogglePause}
+                disabled={activeCount === 0 && !isPaused}
+                className={`px-4 py-1.5 rounded-lg text-sm font-bold transition-colors disabled:opacity-40 ${isPaused ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+              >
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+            </div>
+          </div>
+
+          <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-green-500 transition-all" style={{ width: `${(doneCount / items.length) * 100}%` }} />
+          </div>
+
+          <div className="divide-y divide-gray-100 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-xl overflow-hidden">
+            {items.map(item => (
+              <div key={item.id} className="flex items-center gap-3 px-4 py-3 bg-white dark:bg-gray-800">
+                <div className="w-5 shrink-0 text-gray-400">
+                  {item.status === 'running' && <IconRefresh className="w-4 h-4 animate-spin text-blue-500" />}
+                  {item.status === 'queued' && <IconClock className="w-4 h-4" />}
+                  {item.status === 'done' && <IconCheck className="w-4 h-4 text-green-500" />}
+                  {item.status === 'failed' && <IconAlert className="w-4 h-4 text-red-500" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{item.config.topic}</div>
+                  <div className="text-[11px] text-gray-500 dark:text-gray-400 truncate">
+                    {item.config.type} • {item.config.length.map(getLengthLabel).join(' + ')} • {item.config.tone} • {item.config.language}
+                    {item.attempts > 1 && ` • attempt ${item.attempts}`}
+                  </div>
+                </div>
+                {(item.status === 'running' || item.status === 'done') && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{item.wordsWritten} words</span>
+                )}
+                <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                {(item.status === 'done' || item.status === 'failed') && (
+                  <button onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))} className="p-1 text-gray-400 hover:text-red-500" title="Remove">
+                    <IconTrash className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Failures */}
+      {failedItems.length > 0 && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-900/30 rounded-xl space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold text-red-700 dark:text-red-400 flex items-center gap-2"><IconAlert className="w-4 h-4" /> Failed ({failedItems.length})</h3>
+            <button onClick={() => handleRetry(failedItems)} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-lg text-xs font-bold flex items-center gap-1">
+              <IconRefresh className="w-3 h-3" /> Re-run all failed
+            </button>
+          </div>
+          <ul className="space-y-2">
+            {failedItems.map(item => (
+              <li key={item.id} className="flex items-start justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 dark:text-white truncate">{item.config.topic}</div>
+                  <div className="text-xs text-red-600 dark:text-red-400 line-clamp-2">{item.error}</div>
+                </div>
+                <button onClick={() => handleRetry([item])} className="text-xs text-red-700 dark:text-red-400 font-medium hover:underline whitespace-nowrap">Retry</button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
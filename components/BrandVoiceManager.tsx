@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { BrandVoiceProfile, BrandStyleGuide, SavedArticle } from '../types';
+import { getBrandVoices, saveBrandVoice, deleteBrandVoice, subscribeToBrandVoices, splitSamples } from '../services/brandVoices';
+import { extractBrandVoice } from '../services/geminiService';
+import { IconEdit, IconTrash, IconPlus, IconRefresh, IconSparkles } from './Icons';
+
+interface BrandVoiceManagerProps {
+  savedArticles: SavedArticle[];
+  onError: (error: unknown, retry?: () => void) => void;
+}
+
+type ListField = 'vocabulary' | 'bannedPhrases' | 'formattingHabits';
+
+// List fields are edited as text, one entry per line, and split on save
+type GuideForm = Omit<BrandStyleGuide, ListField> & Record<ListField, string>;
+
+// A profile being created (no id yet) or edited
+interface Draft {
+  id?: string;
+  name: string;
+  samples: string;
+  articleIds: string[];
+  guide: GuideForm | null;
+  sampleCount: number;
+}
+
+const EMPTY_DRAFT: Draft = { name: '', samples: '', articleIds: [], guide: null, sampleCount: 0 };
+const MIN_SAMPLES = 2;
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none text-sm";
+const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+const toForm = (guide: BrandStyleGuide): GuideForm => ({
+  ...guide,
+  vocabulary: guide.vocabulary.join('\n'),
+  bannedPhrases: guide.bannedPhrases.join('\n'),
+  formattingHabits: guide.formattingHabits.join('\n'),
+});
+
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const fromForm = (form: GuideForm): BrandStyleGuide => ({
+  ...form,
+  vocabulary: fromLines(form.vocabulary),
+  bannedPhrases: fromLines(form.bannedPhrases),
+  formattingHabits: fromLines(form.formattingHabits),
+});
+
+export const BrandVoiceManager: React.FC<BrandVoiceManagerProps> = ({ savedArticles, onError }) => {
+  const [profiles, setProfiles] = useState<BrandVoiceProfile[]>(getBrandVoices);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+
+  useEffect(() => subscribeToBrandVoices(() => setProfiles(getBrandVoices())), []);
+
+  const samples = draft
+    ? [...splitSamples(draft.samples), ...savedArticles.filter(a => draft.articleIds.includes(a.id)).map(a => a.content)]
+    : [];
+
+  const updateDraft = (patch: Partial<Draft>) => setDraft(prev => prev ? { ...prev, ...patch } : prev);
+  const updateGuide = (patch: Partial<GuideForm>) => setDraft(prev => prev && prev.guide ? { ...prev, guide: { ...prev.guide, ...patch } } : prev);
+
+  const toggleArticle = (id: string) => {
+    if (!draft) return;
+    updateDraft({ articleIds: draft.articleIds.includes(id) ? draft.articleIds.filter(a => a !== id) : [...draft.articleIds, id] });
+  };
+
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!draft || files.length === 0) return;
+    try {
+      const texts = await Promise.all(files.map(file => file.text()));
+      const existing = draft.samples.trim();
+      updateDraft({ samples: [existing, ...texts.map(t => t.trim())].filter(Boolean).join('\n\n---\n\n') });
+    } catch (error) {
+      console.error("Failed to read sample files", error);
+      alert("Could not read one of the selected files.");
+    }
+  };
+
+  const handleExtract = async () => {
+    if (samples.length < MIN_SAMPLES) return;
+    setIsExtracting(true);
+    try {
+      const guide = await extractBrandVoice(samples);
+      updateDraft({ guide: toForm(guide), sampleCount: samples.length });
+    } catch (error) {
+      onError(error, handleExtract);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft?.guide || !draft.name.trim()) return;
+    const existing = profiles.find(p => p.id === draft.id);
+    const now = Date.now();
+    saveBrandVoice({
+      id: draft.id || now.toString(),
+      name: draft.name.trim(),
+      styleGuide: fromForm(draft.guide),
+      sampleCount: draft.sampleCount,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    });
+    setDraft(null);
+  };
+
+  const handleDelete = (profile: BrandVoiceProfile) => {
+    if (!confirm(`Delete brand voice "${profile.name}"?`)) return;
+    deleteBrandVoice(profile.id);
+    if (draft?.id === profile.id) setDraft(null);
+  };
+
+  const startEditing = (profile: BrandVoiceProfile) => setDraft({
+    ...EMPTY_DRAFT,
+    id: profile.id,
+    name: profile.name,
+    guide: toForm(profile.styleGuide),
+    sampleCount: profile.sampleCount,
+  });
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-lg text-gray-900 dark:text-white">Brand Voices</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Learn a client's style from their past articles, then pick it when creating an article.</p>
+          </div>
+          {!draft && (
+            <button onClick={() => setDraft(EMPTY_DRAFT)} className="shrink-0 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors flex items-center gap-1">
+              <IconPlus className="w-4 h-4" /> New Voice
+            </button>
+          )}
+        </div>
+
+        {profiles.length === 0 && !draft && (
+          <p className="text-sm text-gray-400 italic">No brand voices yet.</p>
+        )}
+
+        {profiles.length > 0 && (
+          <ul className="space-y-2">
+            {profiles.map(profile => (
+              <li key={profile.id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 dark:text-white truncate">{profile.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{profile.styleGuide.summary}</div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button onClick={() => startEditing(profile)} className="text-gray-400 hover:text-blue-500 p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors" title="Edit"><IconEdit className="w-4 h-4" /></button>
+                  <button onClick={() => handleDelete(profile)} className="text-gray-400 hover:text-red-500 p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors" title="Delete"><IconTrash className="w-4 h-4" /></button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {draft && (
+        <div className="p-6 border-t border-gray-100 dark:border-gray-700 space-y-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input type="text" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="e.g. Acme Outdoor Blog" className={inputClass} />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Sample Articles <span className="font-normal text-gray-400">separate with a line of ---</span></label>
+              <label className="text-xs text-blue-600 dark:text-blue-400 font-medium hover:underline cursor-pointer">
+                Import .md / .txt
+                <input type="file" accept=".md,.markdown,.txt,text/plain,text/markdown" multiple onChange={handleImportFiles} className="hidden" />
+              </label>
+            </div>
+            <textarea
+              value={draft.samples}
+              onChange={(e) => updateDraft({ samples: e.target.value })}
+              placeholder={"Paste a past article here...\n\n---\n\nPaste another one here..."}
+              className={`${inputClass} h-40 font-mono text-xs resize-y`}
+            />
+          </div>
+
+          {savedArticles.length > 0 && (
+            <div>
+              <label className={labelClass}>Or use articles from History</label>
+              <div className="max-h-32 overflow-y-auto space-y-1 pr-1 custom-scrollbar">
+                {savedArticles.map(article => (
+                  <label key={article.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={draft.articleIds.includes(article.id)} onChange={() => toggleArticle(article.id)} className="rounded text-blue-600" />
+                    <span className="truncate">{article.topic}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleExtract}
+              disabled={isExtracting || samples.length < MIN_SAMPLES}
+              className="px-4 py-2 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              {isExtracting ? <IconRefresh className="w-4 h-4 animate-spin" /> : <IconSparkles className="w-4 h-4" />}
+              {isExtracting ? 'Analyzing...' : draft.guide ? 'Re-extract Style Guide' : 'Extract Style Guide'}
+            </button>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{samples.length} sample{samples.length === 1 ? '' : 's'}{samples.length < MIN_SAMPLES ? ` • at least ${MIN_SAMPLES} needed` : ''}</span>
+          </div>
+
+          {draft.guide && (
+            <div className="space-y-4">
+              <div>
+                <label className={labelClass}>Summary</label>
+                <textarea value={draft.guide.summary} onChange={(e) => updateGuide({ summary: e.target.value })} className={`${inputClass} h-20 resize-y`} />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Point of View</label>
+                  <textarea value={draft.guide.pointOfView} onChange={(e) => updateGuide({ pointOfView: e.target.value })} className={`${inputClass} h-24 resize-y`} />
+                </div>
+                <div>
+                  <label className={labelClass}>Sentence Rhythm</label>
+                  <textarea value={draft.guide.sentenceRhythm} onChange={(e) => updateGuide({ sentenceRhythm: e.target.value })} className={`${inputClass} h-24 resize-y`} />
+                </div>
+                <div>
+                  <label className={labelClass}>Vocabulary <span className="font-normal text-gray-400">one per line</span></label>
+                  <textarea value={draft.guide.vocabulary} onChange={(e) => updateGuide({ vocabulary: e.target.value })} className={`${inputClass} h-32 resize-y`} />
+                </div>
+                <div>
+                  <label className={labelClass}>Banned Phrases <span className="font-normal text-gray-400">one per line</span></label>
+                  <textarea value={draft.guide.bannedPhrases} onChange={(e) => updateGuide({ bannedPhrases: e.target.value })} className={`${inputClass} h-32 resize-y`} />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Formatting Habits <span className="font-normal text-gray-400">one per line</span></label>
+                <textarea value={draft.guide.formattingHabits} onChange={(e) => updateGuide({ formattingHabits: e.target.value })} className={`${inputClass} h-24 resize-y`} />
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button onClick={handleSave} disabled={!draft.guide || !draft.name.trim()} className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50">Save Brand Voice</button>
+            <button onClick={() => setDraft(null)} className="px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg">Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { DuplicateCheckMode, DuplicateCheckSettings as Settings } from '../types';
+import { getDuplicateSettings, setDuplicateSettings, DEFAULT_DUPLICATE_SETTINGS } from '../services/duplicateContent';
+
+const inputClass = "w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+const MODES: { id: DuplicateCheckMode; label: string }[] = [
+  { id: 'warn', label: 'Warn' },
+  { id: 'block', label: 'Block' },
+];
+
+export const DuplicateCheckSettings: React.FC = () => {
+  const [settings, setSettings] = useState<Settings>(getDuplicateSettings);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    setDuplicateSettings(settings);
+    alert("Duplicate check settings saved!");
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <form onSubmit={handleSave} className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold text-lg text-gray-900 dark:text-white">Duplicate Content</h3>
+          <button type="button" onClick={() => setSettings(DEFAULT_DUPLICATE_SETTINGS)} className="text-xs text-gray-500 hover:text-blue-500">Reset to defaults</button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">Before saving or exporting, the open article is compared with every article in your history. Overlap is measured on runs of five words, entirely on this device.</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Threshold (% of the article)</label>
+            <input type="number" min="1" max="100" step="1" value={settings.threshold} onChange={(e) => setSettings({ ...settings, threshold: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Above The Threshold</label>
+            <div className="flex p-1 bg-gray-100 dark:bg-gray-900 rounded-xl">
+              {MODES.map(mode => (
+                <button
+                  key={mode.id}
+                  type="button"
+                  onClick={() => setSettings({ ...settings, mode: mode.id })}
+                  className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${settings.mode === mode.id ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors">Save Duplicate Settings</button>
+      </form>
+    </div>
+  );
+};
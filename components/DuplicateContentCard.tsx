@@ -0,0 +1,73 @@
+import React, { useMemo, useState } from 'react';
+import { SavedArticle } from '../types';
+import { findDuplicates, getDuplicateSettings } from '../services/duplicateContent';
+import { IconCopy, IconChevronRight, IconExternalLink } from './Icons';
+
+interface DuplicateContentCardProps {
+  content: string;
+  savedArticles: SavedArticle[];
+  excludeId: string | null; // The open article's own saved record
+  onOpen: (article: SavedArticle) => void;
+}
+
+const MAX_PASSAGE_LENGTH = 240;
+
+export const DuplicateContentCard: React.FC<DuplicateContentCardProps> = ({ content, savedArticles, excludeId, onOpen }) => {
+  const matches = useMemo(() => findDuplicates(content, savedArticles, excludeId), [content, savedArticles, excludeId]);
+  const [openMatch, setOpenMatch] = useState<string | null>(null);
+  const { threshold, mode } = getDuplicateSettings();
+  const libraryCount = savedArticles.filter(article => article.id !== excludeId).length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <h3 className="font-bold text-gray-900 dark:text-white mb-1 flex items-center gap-2"><IconCopy className="text-blue-500" /> Duplicate Content</h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        {mode === 'block' ? 'Saving and export are blocked' : 'You will be warned'} above {threshold}% overlap.
+      </p>
+
+      {matches.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No overlap with your {libraryCount} saved article{libraryCount === 1 ? '' : 's'}.</p>
+      ) : (
+        <ul className="space-y-3">
+          {matches.map(match => {
+            const article = savedArticles.find(a => a.id === match.articleId);
+            const overThreshold = match.similarity >= threshold;
+            return (
+              <li key={match.articleId} className="text-sm">
+                <button onClick={() => setOpenMatch(openMatch === match.articleId ? null : match.articleId)} className="w-full text-left">
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 truncate text-gray-900 dark:text-white font-medium">{match.topic}</span>
+                    <span className={`text-xs font-bold ${overThreshold ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>{match.similarity}%</span>
+                    <IconChevronRight className={`w-3 h-3 text-gray-400 transition-transform ${openMatch === match.articleId ? 'rotate-90' : ''}`} />
+                  </div>
+                  <div className="mt-1 h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${overThreshold ? 'bg-red-500' : 'bg-amber-400'}`} style={{ width: `${match.similarity}%` }} />
+                  </div>
+                </button>
+                {openMatch === match.articleId && (
+                  <div className="mt-2 space-y-2">
+                    {match.passages.length === 0 && <p className="text-xs text-gray-500 dark:text-gray-400">Only short phrases overlap.</p>}
+                    {match.passages.map(passage => {
+                      const text = content.substring(passage.start, passage.end).replace(/\s+/g, ' ');
+                      return (
+                        <p key={passage.start} className="text-xs italic text-gray-500 dark:text-gray-400 border-l-2 border-amber-300 dark:border-amber-600 pl-2">
+                          "{text.length > MAX_PASSAGE_LENGTH ? `${text.substring(0, MAX_PASSAGE_LENGTH)}…` : text}"
+                          <span className="not-italic text-gray-400"> ({passage.words} words)</span>
+                        </p>
+                      );
+                    })}
+                    {article && (
+                      <button onClick={() => onOpen(article)} className="text-xs text-blue-500 hover:underline flex items-center gap-1">
+                        <IconExternalLink className="w-3 h-3" /> Open saved article
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { AiErrorKind, isAiServiceError } from '../services/aiErrors';
+import { IconAlert, IconX, IconRefresh, IconExternalLink } from './Icons';
+
+interface ErrorNoticeProps {
+  error: unknown;
+  onDismiss: () => void;
+  onRetry?: () => void; // Re-runs the action that failed
+  onEditPrompt: () => void;
+}
+
+const GUIDANCE: Record<AiErrorKind, { title: string; hint: string }> = {
+  quota: {
+    title: 'API quota used up',
+    hint: 'This key has no quota left. Wait for it to reset or raise the limit on your plan.',
+  },
+  'rate-limit': {
+    title: 'Too many requests',
+    hint: 'The model is rate limiting this key. Wait a moment before trying again.',
+  },
+  safety: {
+    title: 'Blocked by safety filters',
+    hint: 'Rephrase the topic, keywords or instructions and try again.',
+  },
+  'invalid-key': {
+    title: 'API key rejected',
+    hint: 'Check GEMINI_API_KEY in .env.local and restart the app.',
+  },
+  network: {
+    title: 'Connection problem',
+    hint: 'Check your internet connection, or that the local model server is running.',
+  },
+  'model-unavailable': {
+    title: 'Model unavailable',
+    hint: 'The model is overloaded or down. It usually recovers within a minute.',
+  },
+};
+
+const linkClass = "px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50";
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onDismiss, onRetry, onEditPrompt }) => {
+  const typed = isAiServiceError(error) ? error : null;
+  const [waitSeconds, setWaitSeconds] = useState(() => Math.ceil((typed?.retryAfterMs || 0) / 1000));
+
+  // Count down Retry-After so the button only enables once a retry can succeed
+  useEffect(() => {
+    setWaitSeconds(Math.ceil((typed?.retryAfterMs || 0) / 1000));
+    if (!typed?.retryAfterMs) return;
+    const interval = setInterval(() => setWaitSeconds(s => Math.max(s - 1, 0)), 1000);
+    return () => clearInterval(interval);
+  }, [error]);
+
+  const guidance = typed ? GUIDANCE[typed.kind] : { title: 'Something went wrong', hint: 'The request failed unexpectedly.' };
+  const detail = typed ? typed.message : (error as any)?.message;
+
+  const renderAction = () => {
+    switch (typed?.kind) {
+      case 'quota':
+        return <a href="https://ai.google.dev/gemini-api/docs/rate-limits" target="_blank" rel="noopener noreferrer" className={linkClass}><IconExternalLink className="w-3 h-3" /> View Limits</a>;
+      case 'invalid-key':
+        return <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className={linkClass}><IconExternalLink className="w-3 h-3" /> Get a Key</a>;
+      case 'safety':
+        return <button onClick={() => { onDismiss(); onEditPrompt(); }} className={linkClass}>Edit Prompt</button>;
+      default:
+        if (!onRetry) return null;
+        return (
+          <button onClick={() => { onDismiss(); onRetry(); }} disabled={waitSeconds > 0} className={linkClass}>
+            <IconRefresh className="w-3 h-3" /> {waitSeconds > 0 ? `Retry in ${waitSeconds}s` : 'Retry'}
+          </button>
+        );
+    }
+  };
+
+  return (
+    <div className="fixed bottom-24 lg:bottom-6 right-4 left-4 sm:left-auto sm:w-96 z-50 p-4 bg-white dark:bg-gray-800 border border-red-200 dark:border-red-900/40 rounded-2xl shadow-xl animate-slide-up">
+      <div className="flex items-start gap-3">
+        <div className="w-8 h-8 shrink-0 bg-red-50 dark:bg-red-900/20 text-red-500 rounded-full flex items-center justify-center">
+          <IconAlert className="w-4 h-4" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h4 className="font-bold text-gray-900 dark:text-white">{guidance.title}</h4>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mt-0.5">{guidance.hint}</p>
+          {detail && detail !== guidance.hint && (
+            <p className="text-xs text-gray-400 mt-1 line-clamp-2">{detail}</p>
+          )}
+          <div className="flex items-center gap-2 mt-3">
+            {renderAction()}
+            <button onClick={onDismiss} className="px-3 py-1.5 text-xs font-medium text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">Dismiss</button>
+          </div>
+        </div>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"><IconX className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+};
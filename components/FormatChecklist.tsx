@@ -0,0 +1,38 @@
+import React from 'react';
+import { ArticleFormatId, Language } from '../types';
+import { ARTICLE_FORMATS, validateArticleFormat } from '../services/articleFormats';
+import { IconCheck, IconAlert, IconFileText } from './Icons';
+
+interface FormatChecklistProps {
+  content: string;
+  formatId: ArticleFormatId;
+  language: Language;
+  onFix: (requirement: string) => void;
+}
+
+export const FormatChecklist: React.FC<FormatChecklistProps> = ({ content, formatId, language, onFix }) => {
+  const checks = validateArticleFormat(content, formatId, language);
+  const missing = checks.filter(check => !check.passed).length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <h3 className="font-bold text-gray-900 dark:text-white mb-1 flex items-center gap-2"><IconFileText className="text-blue-500" /> {ARTICLE_FORMATS[formatId].name}</h3>
+      <p className={`text-xs mb-4 ${missing ? 'text-amber-600 dark:text-amber-400' : 'text-green-600 dark:text-green-400'}`}>
+        {missing ? `${missing} required section${missing === 1 ? '' : 's'} missing` : 'All required sections present'}
+      </p>
+      <ul className="space-y-2">
+        {checks.map(check => (
+          <li key={check.requirement} className="flex items-center gap-2 text-sm">
+            {check.passed
+              ? <IconCheck className="w-4 h-4 shrink-0 text-green-500" />
+              : <IconAlert className="w-4 h-4 shrink-0 text-amber-500" />}
+            <span className={`flex-1 ${check.passed ? 'text-gray-700 dark:text-gray-300' : 'text-gray-900 dark:text-white font-medium'}`}>{check.requirement}</span>
+            {!check.passed && check.fixable && (
+              <button onClick={() => onFix(check.requirement)} className="text-xs text-blue-600 dark:text-blue-400 font-medium hover:underline">Add</button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
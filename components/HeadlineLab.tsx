@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { HeadlineFormula, HeadlineSet, HeadlineVariant } from '../types';
+import { HEADLINE_FORMULAS, buildHeadlineExport } from '../services/headlines';
+import { IconFeather, IconRefresh, IconCheck, IconCopy, IconDownload } from './Icons';
+
+interface HeadlineLabProps {
+  headlines: HeadlineSet | null;
+  slug: string; // Identifies the article in the CMS export
+  fileName: string;
+  onGenerate: () => void;
+  onSelect: (variant: HeadlineVariant) => void;
+  isGenerating: boolean;
+  disabled: boolean;
+}
+
+const FORMULA_COLORS: Record<HeadlineFormula, string> = {
+  listicle: 'bg-purple-50 dark:bg-purple-900/20 text-purple-600 dark:text-purple-400',
+  howTo: 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400',
+  question: 'bg-amber-50 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400',
+  numberLed: 'bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400',
+  curiosityGap: 'bg-pink-50 dark:bg-pink-900/20 text-pink-600 dark:text-pink-400',
+};
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-green-600 dark:text-green-400' : score >= 60 ? 'text-amber-600 dark:text-amber-400' : 'text-red-500';
+
+const describeScore = (variant: HeadlineVariant): string => {
+  const { length, powerWords, keyword, sentiment, tone } = variant.score;
+  const parts = [`Length ${length}/25 (${variant.text.length} chars)`];
+  if (powerWords !== null) parts.push(`Power words ${powerWords}/25`);
+  if (keyword !== null) parts.push(`Keyword ${keyword}/25`);
+  if (sentiment !== null) parts.push(`Sentiment ${sentiment}/25 (${tone})`);
+  return parts.join(' · ');
+};
+
+export const HeadlineLab: React.FC<HeadlineLabProps> = ({ headlines, slug, fileName, onGenerate, onSelect, isGenerating, disabled }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleCopy = () => {
+    if (!headlines) return;
+    navigator.clipboard.writeText(buildHeadlineExport(headlines, slug));
+    alert('Headline variants copied!');
+  };
+
+  const handleDownload = () => {
+    if (!headlines) return;
+    const element = document.createElement("a");
+    const file = new Blob([buildHeadlineExport(headlines, slug)], { type: 'application/json' });
+    element.href = URL.createObjectURL(file);
+    element.download = fileName;
+    document.body.appendChild(element);
+    element.click();
+    document.body.removeChild(element);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2"><IconFeather className="text-blue-500" /> Headline Lab</h3>
+        {headlines && headlines.variants.length > 0 && (
+          <div className="flex items-center">
+            <button onClick={handleCopy} className="text-gray-400 hover:text-blue-500 p-1" title="Copy variants as JSON"><IconCopy className="w-4 h-4" /></button>
+            <button onClick={handleDownload} className="text-gray-400 hover:text-blue-500 p-1" title="Download variants for A/B testing"><IconDownload className="w-4 h-4" /></button>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        Title variants scored on length, power words, keyword and sentiment. All of them are kept for A/B testing in your CMS.
+      </p>
+
+      {headlines && headlines.variants.length > 0 && (
+        <ul className="space-y-2 mb-4 max-h-96 overflow-y-auto pr-1">
+          {headlines.variants.map(variant => {
+            const isSelected = variant.id === headlines.selectedId;
+            return (
+              <li
+                key={variant.id}
+                className={`p-2.5 rounded-xl border text-sm ${isSelected ? 'border-blue-500 bg-blue-50/50 dark:bg-blue-900/10' : 'border-gray-100 dark:border-gray-700'}`}
+              >
+                <div className="flex items-start gap-2">
+                  <button
+                    onClick={() => setExpandedId(expandedId === variant.id ? null : variant.id)}
+                    className={`font-bold font-mono text-xs w-7 shrink-0 mt-0.5 text-left ${scoreColor(variant.score.total)}`}
+                    title="Show score breakdown"
+                  >
+                    {variant.score.total}
+                  </button>
+                  <span className="flex-1 text-gray-900 dark:text-white">{variant.text}</span>
+                  {isSelected ? (
+                    <IconCheck className="w-4 h-4 shrink-0 text-blue-500 mt-0.5" />
+                  ) : (
+                    <button
+                      onClick={() => onSelect(variant)}
+                      disabled={disabled}
+                      className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline shrink-0 disabled:opacity-50"
+                    >
+                      Use
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 mt-1.5 ml-9">
+                  <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded ${FORMULA_COLORS[variant.formula]}`}>{HEADLINE_FORMULAS[variant.formula]}</span>
+                </div>
+                {expandedId === variant.id && (
+                  <p className="text-[11px] text-gray-500 dark:text-gray-400 mt-1.5 ml-9">{describeScore(variant)}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <button
+        onClick={onGenerate}
+        disabled={isGenerating || disabled}
+        className="w-full py-2 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+      >
+        {isGenerating ? <IconRefresh className="w-4 h-4 animate-spin" /> : <IconFeather className="w-4 h-4" />}
+        {isGenerating ? 'Writing headlines...' : headlines ? 'Generate New Variants' : 'Generate Headlines'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { Language, SavedArticle } from '../types';
+import { findLinkSuggestions, insertLinks } from '../services/internalLinks';
+import { getSiteUrl } from '../services/seoMetadata';
+import { IconLink, IconX } from './Icons';
+
+interface InternalLinksModalProps {
+  content: string;
+  savedArticles: SavedArticle[];
+  language: Language;
+  excludeIds: string[]; // The open article and its translations
+  onInsert: (content: string) => void;
+  onClose: () => void;
+}
+
+export const InternalLinksModal: React.FC<InternalLinksModalProps> = ({ content, savedArticles, language, excludeIds, onInsert, onClose }) => {
+  const suggestions = useMemo(
+    () => findLinkSuggestions(content, savedArticles, language, excludeIds),
+    [content, savedArticles, language, excludeIds]
+  );
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set(suggestions.map(s => s.id)));
+  const hasKeywords = savedArticles.some(article => article.keywords);
+
+  const toggle = (id: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleInsert = () => {
+    onInsert(insertLinks(content, suggestions.filter(s => accepted.has(s.id))));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-100 dark:border-gray-700">
+        <div className="p-5 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2"><IconLink className="w-5 h-5 text-blue-500" /> Internal Links</h3>
+          <button onClick={onClose}><IconX className="w-5 h-5 text-gray-500" /></button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {suggestions.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              No phrases in this article match the topics{hasKeywords ? ' or keywords' : ''} of your saved articles.
+              {!hasKeywords && ' Extracting keywords in History → Keyword Map gives far more matches.'}
+            </p>
+          ) : (
+            <ul className="space-y-2 max-h-96 overflow-y-auto custom-scrollbar">
+              {suggestions.map(suggestion => (
+                <li key={suggestion.id}>
+                  <label className="flex items-start gap-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm cursor-pointer">
+                    <input type="checkbox" checked={accepted.has(suggestion.id)} onChange={() => toggle(suggestion.id)} className="mt-1 rounded text-blue-600 focus:ring-blue-500" />
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-gray-600 dark:text-gray-400 text-xs">
+                        …{suggestion.before}<span className="font-bold text-blue-600 dark:text-blue-400 underline">{suggestion.anchor}</span>{suggestion.after}…
+                      </p>
+                      <p className="text-xs text-gray-900 dark:text-white">
+                        → {suggestion.targetTopic} <span className="text-gray-400">({suggestion.matchedOn})</span>
+                      </p>
+                      <p className="text-[10px] font-mono text-gray-400 truncate">{suggestion.url}</p>
+                    </div>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {suggestions.length > 0 && !getSiteUrl() && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">No Site URL is set, so links are relative to the site root. Set one under SEO Metadata → Edit.</p>
+          )}
+
+          <button
+            onClick={handleInsert}
+            disabled={accepted.size === 0}
+            className="w-full py-2.5 bg-blue-600 text-white rounded-lg font-bold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Insert {accepted.size || ''} link{accepted.size === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
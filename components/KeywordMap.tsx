@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArticleKeywords, KeywordConflictAction, SavedArticle } from '../types';
+import { extractArticleKeywords } from '../services/geminiService';
+import { isAbortError } from '../services/modelProvider';
+import { buildKeywordMap } from '../services/keywordMap';
+import { IconTag, IconRefresh, IconX } from './Icons';
+
+interface KeywordMapProps {
+  savedArticles: SavedArticle[];
+  onKeywordsExtracted: (articleId: string, keywords: ArticleKeywords) => void;
+  onOpen: (article: SavedArticle) => void;
+  onError: (error: unknown, retry?: () => void) => void;
+}
+
+const ACTION_STYLES: Record<KeywordConflictAction, { label: string; className: string }> = {
+  merge: { label: 'Merge', className: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400' },
+  differentiate: { label: 'Differentiate', className: 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400' },
+  link: { label: 'Link', className: 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400' },
+};
+
+export const KeywordMap: React.FC<KeywordMapProps> = ({ savedArticles, onKeywordsExtracted, onOpen, onError }) => {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const conflicts = useMemo(() => buildKeywordMap(savedArticles), [savedArticles]);
+  const mapped = savedArticles.filter(article => article.keywords);
+  const missing = savedArticles.filter(article => !article.keywords);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // One article at a time; a failure stops the run and the retry picks up the ones still missing
+  const extract = async (articles: SavedArticle[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: articles.length });
+    for (const [i, article] of articles.entries()) {
+      if (controller.signal.aborted) break;
+      try {
+        onKeywordsExtracted(article.id, await extractArticleKeywords(article.content, controller.signal));
+        setProgress({ done: i + 1, total: articles.length });
+      } catch (error) {
+        if (!isAbortError(error)) onError(error, () => extract(articles.slice(i)));
+        break;
+      }
+    }
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const byId = (id: string) => savedArticles.find(article => article.id === id);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2"><IconTag className="text-blue-500" /> Keyword Map</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {mapped.length} of {savedArticles.length} articles mapped. Articles that target the same focus keyword compete with each other in search.
+            </p>
+          </div>
+          {progress ? (
+            <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg text-sm font-medium flex items-center gap-2 shrink-0">
+              <IconX className="w-4 h-4" /> Stop ({progress.done}/{progress.total})
+            </button>
+          ) : (
+            <div className="flex items-center gap-3 shrink-0">
+              {mapped.length > 0 && (
+                <button onClick={() => extract(savedArticles)} className="text-xs text-gray-500 hover:text-blue-500">Re-scan all</button>
+              )}
+              <button onClick={() => extract(missing)} disabled={missing.length === 0} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2">
+                <IconRefresh className="w-4 h-4" /> Extract Keywords{missing.length > 0 ? ` (${missing.length})` : ''}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {mapped.length > 1 && conflicts.length === 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-10 text-center border-2 border-dashed border-gray-200 dark:border-gray-700">
+          <p className="text-gray-500">No articles compete for the same focus keyword.</p>
+        </div>
+      )}
+
+      {conflicts.map(conflict => (
+        <div key={conflict.term} className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="flex items-center gap-2 mb-2">
+            <span className={`px-2 py-1 text-xs rounded-full font-semibold ${ACTION_STYLES[conflict.action].className}`}>{ACTION_STYLES[conflict.action].label}</span>
+            <h4 className="font-bold text-gray-900 dark:text-white">"{conflict.term}"</h4>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{conflict.reason}</p>
+          <div className="flex flex-wrap gap-2">
+            {conflict.articleIds.map(id => {
+              const article = byId(id);
+              if (!article) return null;
+              return (
+                <button key={id} onClick={() => onOpen(article)} className="px-3 py-1.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs font-medium rounded-lg hover:text-blue-600 dark:hover:text-blue-400 text-left">
+                  {id === conflict.ownerId && <span className="text-green-600 dark:text-green-400 font-bold mr-1">Owner</span>}
+                  {article.topic}
+                  {article.language && <span className="text-gray-400 ml-1">({article.language})</span>}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {mapped.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm">
+          <button onClick={() => setShowAll(!showAll)} className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+            {showAll ? 'Hide' : 'Show'} keywords per article
+          </button>
+          {showAll && (
+            <ul className="mt-4 divide-y divide-gray-100 dark:divide-gray-700">
+              {mapped.map(article => (
+                <li key={article.id} className="py-3 text-sm">
+                  <div className="font-medium text-gray-900 dark:text-white">{article.topic}</div>
+                  <div className="flex flex-wrap gap-1.5 mt-1">
+                    <span className="px-2 py-0.5 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-400 text-xs rounded-full font-semibold">{article.keywords!.focus}</span>
+                    {article.keywords!.secondary.map(keyword => (
+                      <span key={keyword} className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs rounded-full">{keyword}</span>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,60 @@
 import React from 'react';
+import { FOOTNOTE_DEFINITION_PATTERN } from '../services/citations';
 
 interface MarkdownViewProps {
   content: string;
+  // Optional controls rendered beside each H2; sections are numbered from 1 (0 is the lead)
+  renderSectionActions?: (sectionIndex: number) => React.ReactNode;
+  // Plain-text passages to mark in paragraphs and list items (matched loosely on case and whitespace)
+  highlights?: string[];
 }
 
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Bold runs, [^1] footnote markers and [text](url) links; images are block-level and handled separately
+const INLINE_PATTERN = /(\*\*.*?\*\*|\[\^\d+\]|(?<!!)\[[^\]]+\]\([^)\s]+\))/g;
+const LINK_PATTERN = /^\[([^\]]+)\]\(([^)\s]+)\)$/;
+const FOOTNOTE_PATTERN = /^\[\^(\d+)\]$/;
+
 // A simplified markdown renderer that handles headers, lists, basic formatting AND Tables AND Images
-export const MarkdownView: React.FC<MarkdownViewProps> = ({ content }) => {
+export const MarkdownView: React.FC<MarkdownViewProps> = ({ content, renderSectionActions, highlights }) => {
   if (!content) return null;
 
+  const highlightPattern = highlights && highlights.length > 0
+    ? new RegExp(`(${highlights.map(phrase => phrase.split(/\s+/).map(escapeRegExp).join('\\s+')).join('|')})`, 'gi')
+    : null;
+
+  // Splitting on a capturing group puts the matches at the odd indexes
+  const renderHighlights = (text: string, keyPrefix: string | number): React.ReactNode => {
+    if (!highlightPattern) return text;
+    return text.split(highlightPattern).map((part, i) => i % 2 === 1
+      ? <mark key={`${keyPrefix}-${i}`} className="bg-amber-200/70 dark:bg-amber-500/30 text-inherit rounded px-0.5">{part}</mark>
+      : part);
+  };
+
+  const renderInline = (text: string, keyPrefix: string | number): React.ReactNode[] =>
+    text.split(INLINE_PATTERN).map((part, i) => {
+      const key = `${keyPrefix}-${i}`;
+      if (part.length > 4 && part.startsWith('**') && part.endsWith('**')) {
+        return <strong key={key} className="font-semibold text-gray-900 dark:text-gray-100">{renderInline(part.slice(2, -2), key)}</strong>;
+      }
+      const footnote = part.match(FOOTNOTE_PATTERN);
+      if (footnote) {
+        return <sup key={key}><a href={`#ref-${footnote[1]}`} className="text-blue-600 dark:text-blue-400 hover:underline">{footnote[1]}</a></sup>;
+      }
+      const link = part.match(LINK_PATTERN);
+      if (link) {
+        return <a key={key} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 underline hover:text-blue-700 dark:hover:text-blue-300">{renderHighlights(link[1], key)}</a>;
+      }
+      return <React.Fragment key={key}>{renderHighlights(part, key)}</React.Fragment>;
+    });
+
   const lines = content.split('\n');
   const elements: React.ReactNode[] = [];
+  let sectionIndex = 0;
   
   let listBuffer: React.ReactNode[] = [];
+  let referenceBuffer: React.ReactNode[] = [];
   let tableBuffer: string[] = [];
   let inList = false;
   let inTable = false;
@@ -26,6 +69,14 @@ export const MarkdownView: React.FC<MarkdownViewProps> = ({ content }) => {
       listBuffer = [];
       inList = false;
     }
+    if (referenceBuffer.length > 0) {
+      elements.push(
+        <ol key={`${keyPrefix}-ol`} className="list-decimal pl-6 mb-4 text-sm text-gray-700 dark:text-gray-400 space-y-1 break-words">
+          {referenceBuffer}
+        </ol>
+      );
+      referenceBuffer = [];
+    }
   };
 
   const renderTable = (rows: string[], keyPrefix: string) => {
@@ -58,7 +109,7 @@ export const MarkdownView: React.FC<MarkdownViewProps> = ({ content }) => {
                           return (
                               <tr key={i} className="bg-white dark:bg-gray-800 border-b dark:border-gray-700 last:border-b-0 even:bg-gray-50 dark:even:bg-gray-700/30 hover:bg-blue-50 dark:hover:bg-blue-900/10 transition-colors">
                                   {cells.map((c, j) => (
-                                      <td key={j} className="px-6 py-4 border-r last:border-r-0 border-gray-200 dark:border-gray-700 whitespace-normal leading-relaxed">{c}</td>
+                                      <td key={j} className="px-6 py-4 border-r last:border-r-0 border-gray-200 dark:border-gray-700 whitespace-normal leading-relaxed">{renderInline(c, j)}</td>
                                   ))}
                               </tr>
                           );
@@ -121,6 +172,18 @@ export const MarkdownView: React.FC<MarkdownViewProps> = ({ content }) => {
     // H2
     if (line.startsWith('## ')) {
       flushList(key);
+      sectionIndex++;
+      if (renderSectionActions) {
+        elements.push(
+          <div key={key} className="group flex flex-wrap items-center justify-between gap-x-4 gap-y-1 mb-3 mt-6">
+            <h2 className="text-xl font-bold text-gray-800 dark:text-gray-200">
+              {line.substring(3)}
+            </h2>
+            {renderSectionActions(sectionIndex)}
+          </div>
+        );
+        return;
+      }
       elements.push(
         <h2 key={key} className="text-xl font-bold text-gray-800 dark:text-gray-200 mb-3 mt-6">
           {line.substring(3)}
@@ -140,20 +203,19 @@ export const MarkdownView: React.FC<MarkdownViewProps> = ({ content }) => {
       return;
     }
 
+    // Footnote definition: [^1]: [Title](url)
+    const reference = trimLine.match(FOOTNOTE_DEFINITION_PATTERN);
+    if (reference) {
+      if (inList) flushList(key);
+      referenceBuffer.push(<li key={key} id={`ref-${reference[1]}`} value={parseInt(reference[1])}>{renderInline(reference[2], key)}</li>);
+      return;
+    }
+
     // List Item
     if (trimLine.startsWith('- ') || trimLine.startsWith('* ')) {
       inList = true;
       const cleanLine = trimLine.substring(2);
-      // Basic bold parsing inside list
-      const parts = cleanLine.split(/(\*\*.*?\*\*)/g);
-      const renderedParts = parts.map((part, i) => {
-          if (part.startsWith('**') && part.endsWith('**')) {
-              return <strong key={i} className="font-semibold text-gray-900 dark:text-gray-100">{part.slice(2, -2)}</strong>;
-          }
-          return part;
-      });
-
-      listBuffer.push(<li key={key}>{renderedParts}</li>);
+      listBuffer.push(<li key={key}>{renderInline(cleanLine, key)}</li>);
       return;
     } else {
         if (inList) flushList(key);
@@ -162,19 +224,10 @@ export const MarkdownView: React.FC<MarkdownViewProps> = ({ content }) => {
     // Paragraph
     if (trimLine !== '') {
       flushList(key);
-      
-      // Basic bold parsing for paragraphs
-      const parts = line.split(/(\*\*.*?\*\*)/g);
-      const renderedParts = parts.map((part, i) => {
-          if (part.startsWith('**') && part.endsWith('**')) {
-              return <strong key={i} className="font-semibold text-gray-900 dark:text-gray-100">{part.slice(2, -2)}</strong>;
-          }
-          return part;
-      });
 
       elements.push(
         <p key={key} className="mb-4 text-gray-800 dark:text-gray-300 leading-relaxed text-base">
-          {renderedParts}
+          {renderInline(line, key)}
         </p>
       );
     }
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { OriginalityReport, OriginalitySeverity } from '../types';
+import { VERDICT_LABELS } from '../services/originalityReport';
+import { IconShield, IconRefresh, IconExternalLink, IconClock } from './Icons';
+
+interface OriginalityReportCardProps {
+  history: OriginalityReport[]; // Oldest first
+  isChecking: boolean;
+  disabled: boolean;
+  onCheck: () => void;
+  showHighlights: boolean;
+  onToggleHighlights: () => void;
+}
+
+type ScoreKey = 'seoScore' | 'humanScore' | 'safetyScore';
+
+const GAUGES: { key: ScoreKey; label: string }[] = [
+  { key: 'seoScore', label: 'SEO' },
+  { key: 'humanScore', label: 'Human' },
+  { key: 'safetyScore', label: 'Safety' },
+];
+
+const VERDICT_STYLES: Record<OriginalityReport['verdict'], string> = {
+  safe: 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400 border-green-100 dark:border-green-800',
+  needs_optimization: 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 border-amber-100 dark:border-amber-800',
+  unsafe: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 border-red-100 dark:border-red-800',
+};
+
+const SEVERITY_DOTS: Record<OriginalitySeverity, string> = {
+  low: 'bg-gray-300 dark:bg-gray-600',
+  medium: 'bg-amber-400',
+  high: 'bg-red-500',
+};
+
+const scoreStroke = (score: number) => score >= 80 ? 'stroke-green-500' : score >= 50 ? 'stroke-amber-500' : 'stroke-red-500';
+
+const RADIUS = 22;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+const Gauge: React.FC<{ label: string; score: number; previous?: number }> = ({ label, score, previous }) => {
+  const delta = previous === undefined ? 0 : score - previous;
+  return (
+    <div className="flex flex-col items-center">
+      <div className="relative w-14 h-14">
+        <svg viewBox="0 0 56 56" className="w-14 h-14 -rotate-90">
+          <circle cx="28" cy="28" r={RADIUS} fill="none" strokeWidth="5" className="stroke-gray-100 dark:stroke-gray-700" />
+          <circle
+            cx="28" cy="28" r={RADIUS} fill="none" strokeWidth="5" strokeLinecap="round"
+            strokeDasharray={CIRCUMFERENCE}
+            strokeDashoffset={CIRCUMFERENCE * (1 - score / 100)}
+            className={`${scoreStroke(score)} transition-all`}
+          />
+        </svg>
+        <span className="absolute inset-0 flex items-center justify-center text-sm font-bold text-gray-900 dark:text-white">{score}</span>
+      </div>
+      <span className="text-[10px] font-bold uppercase text-gray-500 dark:text-gray-400 mt-1">{label}</span>
+      {delta !== 0 && (
+        <span className={`text-[10px] font-bold ${delta > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {delta > 0 ? '+' : ''}{delta}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export const OriginalityReportCard: React.FC<OriginalityReportCardProps> = ({
+  history, isChecking, disabled, onCheck, showHighlights, onToggleHighlights,
+}) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const report = history[history.length - 1];
+  const previous = history[history.length - 2];
+  const locatedCount = report ? report.findings.filter(finding => finding.span).length : 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <h3 className="font-bold text-gray-900 dark:text-white mb-4 flex items-center gap-2"><IconShield className="text-blue-500" /> Content Audit</h3>
+
+      {!report ? (
+        <button onClick={onCheck} disabled={isChecking || disabled} className="w-full py-2 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg text-sm font-medium transition-colors">
+          {isChecking ? 'Analyzing...' : 'Check SEO & Originality'}
+        </button>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex justify-around">
+            {GAUGES.map(({ key, label }) => (
+              <Gauge key={key} label={label} score={report[key]} previous={previous?.[key]} />
+            ))}
+          </div>
+
+          <div className={`px-3 py-2 rounded-lg border text-xs font-bold text-center ${VERDICT_STYLES[report.verdict]}`}>
+            {VERDICT_LABELS[report.verdict]}
+          </div>
+
+          {report.summary && <p className="text-xs text-gray-600 dark:text-gray-400 leading-relaxed">{report.summary}</p>}
+
+          {report.findings.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-bold text-gray-700 dark:text-gray-300">Findings ({report.findings.length})</span>
+                {locatedCount > 0 && (
+                  <button onClick={onToggleHighlights} className="text-xs text-blue-500 hover:underline">
+                    {showHighlights ? 'Hide highlights' : 'Highlight in text'}
+                  </button>
+                )}
+              </div>
+              <ul className="space-y-3">
+                {report.findings.map((finding, i) => (
+                  <li key={i} className="text-xs">
+                    <div className="flex items-start gap-2">
+                      <span className={`mt-1 w-2 h-2 rounded-full shrink-0 ${SEVERITY_DOTS[finding.severity]}`} title={`${finding.severity} severity`} />
+                      <div className="space-y-1 min-w-0">
+                        <p className="text-gray-900 dark:text-white">
+                          <span className="text-[10px] font-bold uppercase text-gray-400 mr-1">{finding.category}</span>
+                          {finding.issue}
+                        </p>
+                        {finding.quote && (
+                          <p className={`italic text-gray-500 dark:text-gray-400 border-l-2 pl-2 ${finding.span ? 'border-amber-300 dark:border-amber-600' : 'border-gray-200 dark:border-gray-700'}`}>
+                            "{finding.quote}"{!finding.span && <span className="not-italic text-gray-400"> (not found in text)</span>}
+                          </p>
+                        )}
+                        {finding.suggestion && <p className="text-gray-600 dark:text-gray-300">{finding.suggestion}</p>}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.sources.length > 0 && (
+            <div>
+              <span className="text-xs font-bold text-gray-700 dark:text-gray-300">Overlapping Sources</span>
+              <ul className="mt-2 space-y-1">
+                {report.sources.map(source => (
+                  <li key={source.uri}>
+                    <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1">
+                      <IconExternalLink className="w-3 h-3 shrink-0" /> <span className="truncate">{source.title}</span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {history.length > 1 && (
+            <div>
+              <button onClick={() => setShowHistory(!showHistory)} className="text-xs text-gray-500 hover:text-blue-500 flex items-center gap-1">
+                <IconClock className="w-3 h-3" /> {showHistory ? 'Hide' : 'Show'} previous runs ({history.length - 1})
+              </button>
+              {showHistory && (
+                <table className="w-full mt-2 text-[10px] text-gray-600 dark:text-gray-400">
+                  <thead>
+                    <tr className="text-gray-400 uppercase">
+                      <th className="text-left font-bold py-1">Date</th>
+                      {GAUGES.map(({ key, label }) => <th key={key} className="text-right font-bold py-1">{label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...history].reverse().map(run => (
+                      <tr key={run.id} className="border-t border-gray-100 dark:border-gray-700">
+                        <td className="py-1">{new Date(run.checkedAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</td>
+                        {GAUGES.map(({ key }) => <td key={key} className="text-right py-1 font-mono">{run[key]}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          <button onClick={onCheck} disabled={isChecking || disabled} className="text-xs text-gray-500 hover:text-blue-500 flex items-center gap-1 mx-auto disabled:opacity-50">
+            <IconRefresh className={`w-3 h-3 ${isChecking ? 'animate-spin' : ''}`} /> {isChecking ? 'Analyzing...' : 'Re-run Analysis'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { ArticleOutline, OutlineSection } from '../types';
+import { IconChevronRight, IconPlus, IconTrash } from './Icons';
+
+interface OutlineEditorProps {
+  outline: ArticleOutline;
+  onChange: (outline: ArticleOutline) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50";
+
+// Editable H1 / H2 / H3 tree shown between outline generation and article writing
+export const OutlineEditor: React.FC<OutlineEditorProps> = ({ outline, onChange, disabled }) => {
+  const totalWords = outline.sections.reduce((acc, s) => acc + (s.targetWords || 0), 0);
+
+  const updateSection = (index: number, patch: Partial<OutlineSection>) => {
+    const sections = outline.sections.map((s, i) => i === index ? { ...s, ...patch } : s);
+    onChange({ ...outline, sections });
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= outline.sections.length) return;
+    const sections = [...outline.sections];
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    onChange({ ...outline, sections });
+  };
+
+  const deleteSection = (index: number) => {
+    onChange({ ...outline, sections: outline.sections.filter((_, i) => i !== index) });
+  };
+
+  const addSection = () => {
+    const newSection: OutlineSection = { heading: 'New Section', subheadings: [], keyPoints: [], targetWords: 200 };
+    onChange({ ...outline, sections: [...outline.sections, newSection] });
+  };
+
+  // One entry per line; blank lines are kept while typing and dropped at generation time
+  const toLines = (value: string) => value.split('\n');
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-xs font-bold text-gray-500 uppercase mb-1">Title (H1)</label>
+        <input
+          type="text"
+          value={outline.title}
+          onChange={(e) => onChange({ ...outline, title: e.target.value })}
+          disabled={disabled}
+          className={`${inputClass} font-bold text-base`}
+        />
+      </div>
+
+      <div className="space-y-3">
+        {outline.sections.map((section, index) => (
+          <div key={index} className="p-4 bg-gray-50 dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-bold text-blue-600 dark:text-blue-400 w-8 shrink-0">H2</span>
+              <input
+                type="text"
+                value={section.heading}
+                onChange={(e) => updateSection(index, { heading: e.target.value })}
+                disabled={disabled}
+                className={`${inputClass} font-semibold`}
+              />
+              <button onClick={() => moveSection(index, -1)} disabled={disabled || index === 0} className="p-1.5 text-gray-400 hover:text-blue-500 disabled:opacity-30" title="Move up">
+                <IconChevronRight className="w-4 h-4 -rotate-90" />
+              </button>
+              <button onClick={() => moveSection(index, 1)} disabled={disabled || index === outline.sections.length - 1} className="p-1.5 text-gray-400 hover:text-blue-500 disabled:opacity-30" title="Move down">
+                <IconChevronRight className="w-4 h-4 rotate-90" />
+              </button>
+              <button onClick={() => deleteSection(index)} disabled={disabled} className="p-1.5 text-gray-400 hover:text-red-500 disabled:opacity-30" title="Delete section">
+                <IconTrash className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pl-10">
+              <div>
+                <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">H3 Subheadings (one per line)</label>
+                <textarea
+                  value={section.subheadings.join('\n')}
+                  onChange={(e) => updateSection(index, { subheadings: toLines(e.target.value) })}
+                  disabled={disabled}
+                  className={`${inputClass} resize-none h-20`}
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1">Key Points (one per line)</label>
+                <textarea
+                  value={section.keyPoints.join('\n')}
+                  onChange={(e) => updateSection(index, { keyPoints: toLines(e.target.value) })}
+                  disabled={disabled}
+                  className={`${inputClass} resize-none h-20`}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-[10px] font-bold text-gray-500 uppercase">Target Words</label>
+                <input
+                  type="number"
+                  min={50}
+                  step={50}
+                  value={section.targetWords}
+                  onChange={(e) => updateSection(index, { targetWords: parseInt(e.target.value) || 0 })}
+                  disabled={disabled}
+                  className={`${inputClass} w-24`}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button onClick={addSection} disabled={disabled} className="text-sm text-blue-600 dark:text-blue-400 font-medium hover:underline flex items-center gap-1 disabled:opacity-50">
+          <IconPlus className="w-4 h-4" /> Add Section
+        </button>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{outline.sections.length} sections • ~{totalWords} words</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState, useRef } from 'react';
+import { PromptTemplateId } from '../types';
+import {
+  PROMPT_TEMPLATES, getTemplateVersions, saveTemplateVersion, renderTemplate,
+  findUnknownVariables, getSampleVariables,
+} from '../services/promptTemplates';
+import { CustomSelect } from './CustomSelect';
+import { IconAlert, IconUndo } from './Icons';
+
+const TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+export const PromptTemplateEditor: React.FC = () => {
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('article');
+  const [versions, setVersions] = useState(() => getTemplateVersions('article'));
+  const [draft, setDraft] = useState(() => versions[versions.length - 1].body);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const definition = PROMPT_TEMPLATES[templateId];
+  const active = versions[versions.length - 1];
+  const isDirty = draft !== active.body;
+  const unknownVariables = findUnknownVariables(templateId, draft);
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    if (isDirty && !confirm("Discard unsaved changes to this template?")) return;
+    const next = getTemplateVersions(id);
+    setTemplateId(id);
+    setVersions(next);
+    setDraft(next[next.length - 1].body);
+  };
+
+  const saveBody = (body: string) => {
+    saveTemplateVersion(templateId, body);
+    const next = getTemplateVersions(templateId);
+    setVersions(next);
+    setDraft(body);
+  };
+
+  const handleSave = () => {
+    if (unknownVariables.length > 0 && !confirm(`Unknown variables will render as empty text: ${unknownVariables.join(', ')}. Save anyway?`)) return;
+    saveBody(draft);
+  };
+
+  // Restoring never rewrites history; it saves the old text as a new version
+  const handleRestore = (body: string) => {
+    if (body === active.body) return;
+    saveBody(body);
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current;
+    const token = `{{${name}}}`;
+    if (!textarea) {
+      setDraft(prev => prev + token);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setDraft(draft.substring(0, selectionStart) + token + draft.substring(selectionEnd));
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    }, 0);
+  };
+
+  const preview = renderTemplate(draft, getSampleVariables(templateId));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="p-6 space-y-4">
+        <div>
+          <h3 className="font-bold text-lg text-gray-900 dark:text-white">Prompt Templates</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Tune the instructions sent to the model. Every save creates a new version you can roll back to.</p>
+        </div>
+
+        <CustomSelect
+          label="Template"
+          value={definition.name}
+          options={TEMPLATE_IDS.map(id => PROMPT_TEMPLATES[id].name)}
+          onChange={(name) => selectTemplate(TEMPLATE_IDS.find(id => PROMPT_TEMPLATES[id].name === name) || 'article')}
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2">{definition.description}</p>
+
+        {definition.variables.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Variables <span className="font-normal text-gray-400">(click to insert)</span></label>
+            <div className="flex flex-wrap gap-2">
+              {definition.variables.map(variable => (
+                <button
+                  key={variable.name}
+                  onClick={() => insertVariable(variable.name)}
+                  title={variable.description}
+                  className="px-2 py-1 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 rounded-md text-xs font-mono hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors"
+                >
+                  {`{{${variable.name}}}`}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Template <span className="font-normal text-gray-400">v{active.version}{isDirty ? ' • edited' : ''}</span></label>
+            <textarea
+              ref={textareaRef}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="w-full h-64 px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none font-mono text-xs resize-y"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Preview <span className="font-normal text-gray-400">with sample values</span></label>
+            <pre className="w-full h-64 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-300 text-xs whitespace-pre-wrap overflow-y-auto">{preview}</pre>
+          </div>
+        </div>
+
+        {unknownVariables.length > 0 && (
+          <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1">
+            <IconAlert className="w-3.5 h-3.5" /> Unknown variables render as empty text: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+          </p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <button onClick={handleSave} disabled={!isDirty || !draft.trim()} className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50">Save as v{active.version + 1}</button>
+          {isDirty && (
+            <button onClick={() => setDraft(active.body)} className="px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg">Discard</button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 border-t border-gray-100 dark:border-gray-700">
+        <h4 className="font-bold text-gray-900 dark:text-white mb-3">Version History</h4>
+        <ul className="space-y-2">
+          {[...versions].reverse().map(version => (
+            <li key={version.version} className="flex items-center justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <span className="font-medium text-gray-900 dark:text-white">v{version.version}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">
+                  {version.savedAt ? new Date(version.savedAt).toLocaleString() : 'Built-in default'}
+                  {version === active && ' • active'}
+                </span>
+              </div>
+              {version !== active && (
+                <div className="flex items-center gap-3">
+                  <button onClick={() => setDraft(version.body)} className="text-xs text-gray-500 hover:text-blue-500">Load</button>
+                  <button onClick={() => handleRestore(version.body)} className="text-xs text-blue-600 dark:text-blue-400 font-medium hover:underline flex items-center gap-1">
+                    <IconUndo className="w-3 h-3" /> Restore
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
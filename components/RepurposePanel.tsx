@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { SocialPlatform, SocialPosts } from '../types';
+import { SOCIAL_PLATFORMS, SOCIAL_PLATFORM_IDS, countCharacters, getHashtagWarning, numberThread } from '../services/socialPosts';
+import { IconShare, IconRefresh, IconCopy, IconCheck, IconAlert } from './Icons';
+
+interface RepurposePanelProps {
+  posts: SocialPosts | null;
+  onChange: (posts: SocialPosts) => void;
+  onGenerate: () => void;
+  isGenerating: boolean;
+  disabled: boolean;
+}
+
+const fieldClass = "w-full px-2 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none text-xs resize-y";
+
+export const RepurposePanel: React.FC<RepurposePanelProps> = ({ posts, onChange, onGenerate, isGenerating, disabled }) => {
+  const [platform, setPlatform] = useState<SocialPlatform>('x');
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+
+  const rules = SOCIAL_PLATFORMS[platform];
+  const platformPosts = posts?.[platform] || [];
+  // Thread numbering counts towards each X post, so the counters see the text as it will be posted
+  const postedText = platform === 'x' ? numberThread(platformPosts) : platformPosts;
+  const hashtagWarning = platformPosts.length > 0 ? getHashtagWarning(platformPosts, platform) : null;
+
+  const copy = (text: string, key: string) => {
+    navigator.clipboard.writeText(text);
+    setCopiedKey(key);
+    setTimeout(() => setCopiedKey(current => current === key ? null : current), 2000);
+  };
+
+  const updatePost = (index: number, text: string) => {
+    if (!posts) return;
+    onChange({ ...posts, [platform]: platformPosts.map((post, i) => i === index ? text : post) });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2 mb-1"><IconShare className="text-blue-500" /> Repurpose</h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">Social posts written from this article, sized for each platform.</p>
+
+      {posts && (
+        <>
+          <div className="flex flex-wrap p-1 bg-gray-100 dark:bg-gray-900 rounded-xl mb-3">
+            {SOCIAL_PLATFORM_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => setPlatform(id)}
+                className={`flex-1 px-2 py-1 rounded-lg text-[11px] font-medium transition-all whitespace-nowrap ${platform === id ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+              >
+                {SOCIAL_PLATFORMS[id].label}
+              </button>
+            ))}
+          </div>
+
+          {platformPosts.length === 0 ? (
+            <p className="text-xs text-gray-400 italic mb-4">Nothing was written for {rules.label}. Generate again to retry.</p>
+          ) : (
+            <div className="space-y-3 mb-4">
+              {platformPosts.map((post, i) => {
+                const length = countCharacters(postedText[i], platform);
+                const key = `${platform}-${i}`;
+                return (
+                  <div key={key}>
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                        {platformPosts.length > 1 ? `Post ${i + 1}/${platformPosts.length}` : rules.label}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className={`text-[10px] font-mono ${length > rules.limit ? 'text-red-500 font-bold' : 'text-gray-400'}`}>{length}/{rules.limit}</span>
+                        <button onClick={() => copy(postedText[i], key)} className="text-gray-400 hover:text-blue-500 p-0.5" title="Copy">
+                          {copiedKey === key ? <IconCheck className="w-3.5 h-3.5 text-green-500" /> : <IconCopy className="w-3.5 h-3.5" />}
+                        </button>
+                      </div>
+                    </div>
+                    <textarea
+                      value={post}
+                      onChange={(e) => updatePost(i, e.target.value)}
+                      className={`${fieldClass} ${platform === 'x' ? 'h-20' : 'h-40'}`}
+                    />
+                  </div>
+                );
+              })}
+
+              {hashtagWarning && (
+                <p className="text-[11px] text-amber-600 dark:text-amber-400 flex items-center gap-1"><IconAlert className="w-3.5 h-3.5 shrink-0" /> {hashtagWarning}</p>
+              )}
+
+              {platform === 'x' && platformPosts.length > 1 && (
+                <button
+                  onClick={() => copy(postedText.join('\n\n'), 'x-thread')}
+                  className="w-full py-1.5 border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-2"
+                >
+                  {copiedKey === 'x-thread' ? <IconCheck className="w-3.5 h-3.5 text-green-500" /> : <IconCopy className="w-3.5 h-3.5" />}
+                  Copy whole thread
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      <button
+        onClick={onGenerate}
+        disabled={isGenerating || disabled}
+        className="w-full py-2 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+      >
+        {isGenerating ? <IconRefresh className="w-4 h-4 animate-spin" /> : <IconShare className="w-4 h-4" />}
+        {isGenerating ? 'Repurposing...' : posts ? 'Regenerate Posts' : 'Generate Social Posts'}
+      </button>
+    </div>
+  );
+};
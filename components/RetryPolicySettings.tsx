@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { RetryPolicy } from '../types';
+import { getRetryPolicy, setRetryPolicy, resetCircuitBreaker, DEFAULT_RETRY_POLICY } from '../services/retryPolicy';
+import { CustomSelect } from './CustomSelect';
+
+const inputClass = "w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+export const RetryPolicySettings: React.FC = () => {
+  const [policy, setPolicy] = useState<RetryPolicy>(getRetryPolicy);
+
+  const update = (patch: Partial<RetryPolicy>) => setPolicy(prev => ({ ...prev, ...patch }));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    setRetryPolicy(policy);
+    // New thresholds should apply from a clean slate
+    resetCircuitBreaker();
+    alert("Retry settings saved!");
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <form onSubmit={handleSave} className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold text-lg text-gray-900 dark:text-white">Retries & Rate Limits</h3>
+          <button type="button" onClick={() => setPolicy(DEFAULT_RETRY_POLICY)} className="text-xs text-gray-500 hover:text-blue-500">Reset to defaults</button>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">Rate limits, overloaded models and dropped connections are retried automatically. Bad keys, exhausted quota and safety blocks are not.</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <CustomSelect
+            label="Retries Per Request"
+            value={policy.maxRetries.toString()}
+            options={['0', '1', '2', '3', '4', '5']}
+            onChange={(val) => update({ maxRetries: parseInt(val) })}
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">First Retry After (seconds)</label>
+            <input type="number" min="0.1" step="0.1" value={policy.baseDelayMs / 1000} onChange={(e) => update({ baseDelayMs: Math.max(100, parseFloat(e.target.value) * 1000 || 0) })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Longest Wait (seconds)</label>
+            <input type="number" min="1" step="1" value={policy.maxDelayMs / 1000} onChange={(e) => update({ maxDelayMs: Math.max(1000, parseFloat(e.target.value) * 1000 || 0) })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Pause After Failures In A Row</label>
+            <input type="number" min="1" step="1" value={policy.breakerThreshold} onChange={(e) => update({ breakerThreshold: Math.max(1, parseInt(e.target.value) || 1) })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Pause Length (seconds)</label>
+            <input type="number" min="1" step="1" value={policy.breakerCooldownMs / 1000} onChange={(e) => update({ breakerCooldownMs: Math.max(1000, parseFloat(e.target.value) * 1000 || 0) })} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="font-medium text-gray-900 dark:text-white">Randomise Waits</div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">Spreads out retries so parallel requests don't all hit the limit again at once.</div>
+          </div>
+          <button
+            type="button"
+            onClick={() => update({ jitter: !policy.jitter })}
+            className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors ${policy.jitter ? 'bg-blue-600' : 'bg-gray-200'}`}
+          >
+            <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${policy.jitter ? 'translate-x-6' : 'translate-x-1'}`} />
+          </button>
+        </div>
+
+        <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors">Save Retry Settings</button>
+      </form>
+    </div>
+  );
+};
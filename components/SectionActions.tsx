@@ -0,0 +1,42 @@
+import React from 'react';
+import { SectionAction } from '../types';
+import { IconRefresh, IconEdit } from './Icons';
+
+interface SectionActionsProps {
+  onAction: (action: SectionAction) => void;
+  isBusy: boolean; // This section is being rewritten
+  disabled: boolean; // Another generation is running
+}
+
+const ACTIONS: { action: SectionAction; label: string }[] = [
+  { action: 'regenerate', label: 'Regenerate' },
+  { action: 'expand', label: 'Expand' },
+  { action: 'shorten', label: 'Shorten' },
+  { action: 'rewrite', label: 'Rewrite…' },
+];
+
+export const SectionActions: React.FC<SectionActionsProps> = ({ onAction, isBusy, disabled }) => {
+  if (isBusy) {
+    return (
+      <span className="flex items-center gap-1.5 text-xs font-medium text-blue-600 dark:text-blue-400">
+        <IconRefresh className="w-3 h-3 animate-spin" /> Rewriting section...
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
+      {ACTIONS.map(({ action, label }) => (
+        <button
+          key={action}
+          onClick={() => onAction(action)}
+          disabled={disabled}
+          className="px-2 py-1 text-[11px] font-medium rounded-md bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-blue-50 hover:text-blue-600 dark:hover:bg-blue-900/30 dark:hover:text-blue-400 transition-colors disabled:opacity-40 flex items-center gap-1"
+        >
+          {action === 'rewrite' && <IconEdit className="w-3 h-3" />}
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
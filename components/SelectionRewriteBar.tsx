@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Tone, Language, SelectionRewrite } from '../types';
+import { IconSparkles, IconCheck, IconX, IconRefresh, IconChevronRight } from './Icons';
+
+interface SelectionRewriteBarProps {
+  selectedText: string;
+  suggestion: string | null; // Streamed replacement, null when nothing is pending
+  isStreaming: boolean;
+  onRewrite: (rewrite: SelectionRewrite) => void;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const buttonClass = "px-3 py-1.5 bg-white dark:bg-gray-800 border border-blue-100 dark:border-blue-800 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/40 text-xs font-medium text-blue-700 dark:text-blue-300 whitespace-nowrap transition-colors disabled:opacity-50";
+
+export const SelectionRewriteBar: React.FC<SelectionRewriteBarProps> = ({ selectedText, suggestion, isStreaming, onRewrite, onAccept, onReject }) => {
+  const [openMenu, setOpenMenu] = useState<'tone' | 'translate' | null>(null);
+
+  const pick = (rewrite: SelectionRewrite) => {
+    setOpenMenu(null);
+    onRewrite(rewrite);
+  };
+
+  const renderMenu = (options: string[], onPick: (option: string) => void) => (
+    <div className="absolute left-0 top-full mt-1 w-48 max-h-60 overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-100 dark:border-gray-700 py-1 z-50 animate-slide-up">
+      {options.map(option => (
+        <button
+          key={option}
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(option)}
+          className="w-full px-3 py-2 text-left text-xs text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 rounded-xl space-y-3 animate-slide-up">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold text-blue-700 dark:text-blue-300 flex items-center gap-1 mr-1">
+          <IconSparkles className="w-3.5 h-3.5" /> AI on selection ({selectedText.split(/\s+/).filter(Boolean).length} words):
+        </span>
+        <button onMouseDown={(e) => e.preventDefault()} onClick={() => pick({ action: 'rephrase' })} disabled={isStreaming} className={buttonClass}>Rephrase</button>
+        <button onMouseDown={(e) => e.preventDefault()} onClick={() => pick({ action: 'simplify' })} disabled={isStreaming} className={buttonClass}>Simplify</button>
+        <div className="relative">
+          <button onMouseDown={(e) => e.preventDefault()} onClick={() => setOpenMenu(openMenu === 'tone' ? null : 'tone')} disabled={isStreaming} className={`${buttonClass} flex items-center gap-1`}>
+            Tone <IconChevronRight className="w-3 h-3 rotate-90" />
+          </button>
+          {openMenu === 'tone' && renderMenu(Object.values(Tone), (tone) => pick({ action: 'tone', tone: tone as Tone }))}
+        </div>
+        <button onMouseDown={(e) => e.preventDefault()} onClick={() => pick({ action: 'grammar' })} disabled={isStreaming} className={buttonClass}>Fix Grammar</button>
+        <div className="relative">
+          <button onMouseDown={(e) => e.preventDefault()} onClick={() => setOpenMenu(openMenu === 'translate' ? null : 'translate')} disabled={isStreaming} className={`${buttonClass} flex items-center gap-1`}>
+            Translate <IconChevronRight className="w-3 h-3 rotate-90" />
+          </button>
+          {openMenu === 'translate' && renderMenu(Object.values(Language), (language) => pick({ action: 'translate', language: language as Language }))}
+        </div>
+      </div>
+
+      {suggestion !== null && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+            <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+              <div className="text-[10px] font-bold text-gray-400 uppercase mb-1">Original</div>
+              <p className="text-gray-500 dark:text-gray-400 line-through decoration-red-300 whitespace-pre-wrap">{selectedText}</p>
+            </div>
+            <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-green-200 dark:border-green-900/40">
+              <div className="text-[10px] font-bold text-green-600 uppercase mb-1">Suggestion</div>
+              <p className="text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+                {suggestion || (isStreaming ? '...' : '')}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            {isStreaming && <span className="mr-auto text-xs text-blue-600 dark:text-blue-400 flex items-center gap-1"><IconRefresh className="w-3 h-3 animate-spin" /> Writing...</span>}
+            <button onClick={onReject} className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg flex items-center gap-1">
+              <IconX className="w-3.5 h-3.5" /> {isStreaming ? 'Stop' : 'Reject'}
+            </button>
+            <button onClick={onAccept} disabled={isStreaming || !suggestion.trim()} className="px-3 py-1.5 text-xs font-bold bg-green-600 hover:bg-green-700 text-white rounded-lg flex items-center gap-1 disabled:opacity-50">
+              <IconCheck className="w-3.5 h-3.5" /> Accept
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
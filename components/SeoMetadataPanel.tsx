@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { SeoMetadata, TwitterCardType } from '../types';
+import { SEO_LIMITS, buildCanonicalUrl, getSiteUrl, setSiteUrl } from '../services/seoMetadata';
+import { IconGlobe, IconRefresh, IconEdit, IconCheck } from './Icons';
+
+interface SeoMetadataPanelProps {
+  seo: SeoMetadata | null;
+  onChange: (seo: SeoMetadata) => void;
+  onGenerate: () => void;
+  isGenerating: boolean;
+  disabled: boolean;
+}
+
+type TextField = Exclude<keyof SeoMetadata, 'twitterCard'>;
+
+const FIELDS: { key: TextField; label: string; multiline?: boolean }[] = [
+  { key: 'seoTitle', label: 'SEO Title' },
+  { key: 'metaDescription', label: 'Meta Description', multiline: true },
+  { key: 'slug', label: 'URL Slug' },
+  { key: 'canonicalUrl', label: 'Canonical URL' },
+  { key: 'excerpt', label: 'Excerpt', multiline: true },
+  { key: 'ogTitle', label: 'Open Graph Title' },
+  { key: 'ogDescription', label: 'Open Graph Description', multiline: true },
+  { key: 'twitterTitle', label: 'X / Twitter Title' },
+  { key: 'twitterDescription', label: 'X / Twitter Description', multiline: true },
+];
+
+const TWITTER_CARDS: TwitterCardType[] = ['summary_large_image', 'summary'];
+
+const fieldClass = "w-full px-2 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none text-xs";
+
+export const SeoMetadataPanel: React.FC<SeoMetadataPanelProps> = ({ seo, onChange, onGenerate, isGenerating, disabled }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [siteUrl, setSiteUrlState] = useState(getSiteUrl);
+
+  const updateField = (key: TextField, value: string) => {
+    if (!seo) return;
+    if (key === 'slug') {
+      const slug = value.toLowerCase().replace(/\s+/g, '-');
+      // Keep the canonical URL in step with the slug unless it was set by hand
+      const canonicalUrl = seo.canonicalUrl === buildCanonicalUrl(seo.slug, siteUrl) ? buildCanonicalUrl(slug, siteUrl) : seo.canonicalUrl;
+      onChange({ ...seo, slug, canonicalUrl });
+      return;
+    }
+    onChange({ ...seo, [key]: value });
+  };
+
+  const handleSiteUrlBlur = () => {
+    setSiteUrl(siteUrl);
+    const normalized = getSiteUrl();
+    setSiteUrlState(normalized);
+    if (seo && !seo.canonicalUrl) onChange({ ...seo, canonicalUrl: buildCanonicalUrl(seo.slug, normalized) });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2"><IconGlobe className="text-blue-500" /> SEO Metadata</h3>
+        {seo && (
+          <button onClick={() => setIsEditing(!isEditing)} className="text-gray-400 hover:text-blue-500 p-1" title={isEditing ? 'Done' : 'Edit'}>
+            {isEditing ? <IconCheck className="w-4 h-4" /> : <IconEdit className="w-4 h-4" />}
+          </button>
+        )}
+      </div>
+
+      {!seo ? (
+        <div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">Title tag, meta description, slug, excerpt and social cards for the HTML export.</p>
+          <button
+            onClick={onGenerate}
+            disabled={isGenerating || disabled}
+            className="w-full py-2 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isGenerating ? <IconRefresh className="w-4 h-4 animate-spin" /> : <IconGlobe className="w-4 h-4" />}
+            {isGenerating ? 'Generating...' : 'Generate Metadata'}
+          </button>
+        </div>
+      ) : isEditing ? (
+        <div className="space-y-3">
+          {FIELDS.map(({ key, label, multiline }) => {
+            const limit = SEO_LIMITS[key];
+            const length = seo[key].length;
+            return (
+              <div key={key}>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="text-xs font-medium text-gray-700 dark:text-gray-300">{label}</label>
+                  {limit && <span className={`text-[10px] font-mono ${length > limit ? 'text-red-500 font-bold' : 'text-gray-400'}`}>{length}/{limit}</span>}
+                </div>
+                {multiline
+                  ? <textarea value={seo[key]} onChange={(e) => updateField(key, e.target.value)} className={`${fieldClass} h-16 resize-y`} />
+                  : <input type="text" value={seo[key]} onChange={(e) => updateField(key, e.target.value)} className={fieldClass} />}
+              </div>
+            );
+          })}
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Twitter Card</label>
+            <div className="flex p-1 bg-gray-100 dark:bg-gray-900 rounded-xl">
+              {TWITTER_CARDS.map(card => (
+                <button
+                  key={card}
+                  onClick={() => onChange({ ...seo, twitterCard: card })}
+                  className={`flex-1 px-2 py-1 rounded-lg text-[10px] font-bold transition-all ${seo.twitterCard === card ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+                >
+                  {card === 'summary' ? 'Small Image' : 'Large Image'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Site URL <span className="font-normal text-gray-400">for canonical links</span></label>
+            <input type="url" value={siteUrl} onChange={(e) => setSiteUrlState(e.target.value)} onBlur={handleSiteUrlBlur} placeholder="https://example.com/blog" className={fieldClass} />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {/* Search result preview */}
+          <div className="p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
+            <div className="text-[10px] text-gray-500 truncate">{seo.canonicalUrl || `/${seo.slug}`}</div>
+            <div className="text-sm text-blue-700 dark:text-blue-400 font-medium line-clamp-1">{seo.seoTitle}</div>
+            <div className="text-xs text-gray-600 dark:text-gray-400 line-clamp-3">{seo.metaDescription}</div>
+          </div>
+          <button onClick={onGenerate} disabled={isGenerating || disabled} className="text-xs text-gray-500 hover:text-blue-500 flex items-center gap-1 mx-auto disabled:opacity-50">
+            <IconRefresh className={`w-3 h-3 ${isGenerating ? 'animate-spin' : ''}`} /> {isGenerating ? 'Generating...' : 'Regenerate'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useMemo, useState } from 'react';
+import { Language, SeoCheckStatus, SeoMetadata } from '../types';
+import { analyzeSeo } from '../services/seoAnalyzer';
+import { IconCheck, IconAlert, IconX, IconChevronRight, IconTag } from './Icons';
+
+interface SeoReportCardProps {
+  content: string;
+  keyword: string | null;
+  language: Language;
+  seo: SeoMetadata | null;
+}
+
+const STATUS_ICON: Record<SeoCheckStatus, React.ReactNode> = {
+  pass: <IconCheck className="w-4 h-4 shrink-0 text-green-500" />,
+  warn: <IconAlert className="w-4 h-4 shrink-0 text-amber-500" />,
+  fail: <IconX className="w-4 h-4 shrink-0 text-red-500" />,
+  skip: <span className="w-4 h-4 shrink-0 flex items-center justify-center text-gray-300 dark:text-gray-600">–</span>,
+};
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-green-600 dark:text-green-400' : score >= 50 ? 'text-amber-600 dark:text-amber-400' : 'text-red-600 dark:text-red-400';
+
+export const SeoReportCard: React.FC<SeoReportCardProps> = ({ content, keyword, language, seo }) => {
+  const report = useMemo(() => analyzeSeo({ content, keyword, language, seo }), [content, keyword, language, seo]);
+  const [openCheck, setOpenCheck] = useState<string | null>(null);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2"><IconTag className="text-blue-500" /> SEO Analysis</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {report.stats.words} words{report.keyword ? <> • <span className="font-medium">"{report.keyword}"</span></> : ''}
+          </p>
+        </div>
+        <div className={`text-2xl font-bold ${scoreColor(report.score)}`}>{report.score}</div>
+      </div>
+
+      <ul className="space-y-1">
+        {report.checks.map(check => (
+          <li key={check.id}>
+            <button
+              onClick={() => setOpenCheck(openCheck === check.id ? null : check.id)}
+              className="w-full flex items-center gap-2 text-sm text-left py-1 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded"
+            >
+              {STATUS_ICON[check.status]}
+              <span className={`flex-1 ${check.status === 'skip' ? 'text-gray-400' : 'text-gray-700 dark:text-gray-300'}`}>{check.label}</span>
+              <IconChevronRight className={`w-3 h-3 text-gray-400 transition-transform ${openCheck === check.id ? 'rotate-90' : ''}`} />
+            </button>
+            {openCheck === check.id && (
+              <div className="ml-6 mb-2 space-y-1">
+                <p className="text-xs font-medium text-gray-700 dark:text-gray-300">{check.message}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{check.explanation}</p>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { StructuredDataResult, SchemaType, renderJsonLd } from '../services/structuredData';
+import { IconFileCode, IconCheck, IconAlert, IconX, IconCopy } from './Icons';
+
+interface StructuredDataCardProps {
+  result: StructuredDataResult;
+}
+
+const LABELS: Record<SchemaType, string> = {
+  BlogPosting: 'Article',
+  Recipe: 'Recipe',
+  Product: 'Product Review',
+  FAQPage: 'FAQ',
+};
+
+export const StructuredDataCard: React.FC<StructuredDataCardProps> = ({ result }) => {
+  const types = Array.from(new Set<SchemaType>([
+    ...result.blocks.map(block => block.schemaType),
+    ...result.issues.map(issue => issue.schemaType),
+  ]));
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(renderJsonLd(result));
+    alert('JSON-LD copied!');
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2"><IconFileCode className="text-blue-500" /> Structured Data</h3>
+        {result.blocks.length > 0 && (
+          <button onClick={handleCopy} className="text-gray-400 hover:text-blue-500 p-1" title="Copy JSON-LD"><IconCopy className="w-4 h-4" /></button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">Added to the HTML export. Types with errors are left out.</p>
+      <ul className="space-y-3">
+        {types.map(type => {
+          const included = result.blocks.some(block => block.schemaType === type);
+          const issues = result.issues.filter(issue => issue.schemaType === type);
+          const hasWarnings = issues.some(issue => issue.severity === 'warning');
+          return (
+            <li key={type} className="text-sm">
+              <div className="flex items-center gap-2">
+                {!included
+                  ? <IconX className="w-4 h-4 shrink-0 text-red-500" />
+                  : hasWarnings
+                    ? <IconAlert className="w-4 h-4 shrink-0 text-amber-500" />
+                    : <IconCheck className="w-4 h-4 shrink-0 text-green-500" />}
+                <span className="font-medium text-gray-900 dark:text-white">{LABELS[type]}</span>
+                <span className="text-[10px] font-mono text-gray-400 ml-auto">{type}</span>
+              </div>
+              {issues.length > 0 && (
+                <ul className="mt-1 ml-6 space-y-0.5">
+                  {issues.map(issue => (
+                    <li key={issue.message} className={`text-xs ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>{issue.message}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
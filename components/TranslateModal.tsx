@@ -0,0 +1,167 @@
+import React, { useState, useRef } from 'react';
+import { Language, SavedArticle } from '../types';
+import { translateArticle } from '../services/geminiService';
+import { isAbortError } from '../services/modelProvider';
+import { compareStructure, createTranslationRecord, getTranslationGroup } from '../services/translations';
+import { CustomSelect } from './CustomSelect';
+import { IconX, IconGlobe, IconCheck, IconAlert, IconRefresh } from './Icons';
+
+interface TranslateModalProps {
+  article: SavedArticle;
+  savedArticles: SavedArticle[];
+  defaultLanguage: Language;
+  onTranslated: (translation: SavedArticle, sourceLanguage: Language) => void;
+  onOpen: (article: SavedArticle) => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+type JobState = 'pending' | 'running' | 'done' | 'failed';
+
+interface Job {
+  language: Language;
+  state: JobState;
+  warnings: string[];
+  result?: SavedArticle;
+}
+
+export const TranslateModal: React.FC<TranslateModalProps> = ({
+  article, savedArticles, defaultLanguage, onTranslated, onOpen, onError, onClose
+}) => {
+  const [sourceLanguage, setSourceLanguage] = useState<Language>(article.language || defaultLanguage);
+  const [selected, setSelected] = useState<Language[]>([]);
+  const [localize, setLocalize] = useState(true);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const existing = new Set(getTranslationGroup(article, savedArticles).map(a => a.language).filter(Boolean));
+  const isRunning = jobs.some(job => job.state === 'running' || job.state === 'pending');
+
+  const toggleLanguage = (language: Language) => {
+    setSelected(prev => prev.includes(language) ? prev.filter(l => l !== language) : [...prev, language]);
+  };
+
+  const updateJob = (language: Language, patch: Partial<Job>) => {
+    setJobs(prev => prev.map(job => job.language === language ? { ...job, ...patch } : job));
+  };
+
+  // Languages run one at a time so a long article never fires several huge requests at once
+  const handleTranslate = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const source = { ...article, language: sourceLanguage };
+    setJobs(selected.map(language => ({ language, state: 'pending', warnings: [] })));
+
+    for (const language of selected) {
+      if (controller.signal.aborted) break;
+      updateJob(language, { state: 'running' });
+      try {
+        const content = await translateArticle(article.content, sourceLanguage, language, localize, controller.signal);
+        const translation = createTranslationRecord(source, language, content);
+        onTranslated(translation, sourceLanguage);
+        updateJob(language, { state: 'done', result: translation, warnings: compareStructure(article.content, content) });
+      } catch (error) {
+        if (isAbortError(error)) break;
+        updateJob(language, { state: 'failed' });
+        onError(error);
+      }
+    }
+    setJobs(prev => prev.map(job => job.state === 'pending' || job.state === 'running' ? { ...job, state: 'failed' } : job));
+    abortRef.current = null;
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-100 dark:border-gray-700">
+        <div className="p-5 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2"><IconGlobe className="w-5 h-5 text-blue-500" /> Translate Article</h3>
+          <button onClick={handleClose}><IconX className="w-5 h-5 text-gray-500" /></button>
+        </div>
+
+        {jobs.length === 0 ? (
+          <div className="p-5 space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-1">"{article.topic}"</p>
+            <CustomSelect
+              label="Written In"
+              value={sourceLanguage}
+              options={Object.values(Language)}
+              onChange={(val) => { setSourceLanguage(val as Language); setSelected(prev => prev.filter(l => l !== val)); }}
+            />
+
+            <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Translate To</label>
+              <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto custom-scrollbar">
+                {Object.values(Language).filter(l => l !== sourceLanguage).map(language => (
+                  <button
+                    key={language}
+                    onClick={() => toggleLanguage(language)}
+                    className={`px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
+                      selected.includes(language)
+                        ? 'bg-blue-600 text-white shadow-md'
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                    }`}
+                    title={existing.has(language) ? 'A translation already exists; this adds another' : undefined}
+                  >
+                    {language}{existing.has(language) ? ' ✓' : ''}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium text-sm text-gray-900 dark:text-white">Localize</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">Convert currencies and units, and swap examples for local ones.</div>
+              </div>
+              <button
+                type="button"
+                onClick={() => setLocalize(!localize)}
+                className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors ${localize ? 'bg-blue-600' : 'bg-gray-200'}`}
+              >
+                <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localize ? 'translate-x-6' : 'translate-x-1'}`} />
+              </button>
+            </div>
+
+            <button
+              onClick={handleTranslate}
+              disabled={selected.length === 0}
+              className="w-full py-2.5 bg-blue-600 text-white rounded-lg font-bold text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Translate into {selected.length || ''} language{selected.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        ) : (
+          <div className="p-5 space-y-3">
+            <ul className="space-y-2">
+              {jobs.map(job => (
+                <li key={job.language} className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm">
+                  <div className="flex items-center gap-2">
+                    {job.state === 'running' && <IconRefresh className="w-4 h-4 text-blue-500 animate-spin" />}
+                    {job.state === 'pending' && <span className="w-4 h-4 rounded-full border-2 border-gray-300 dark:border-gray-600" />}
+                    {job.state === 'done' && <IconCheck className="w-4 h-4 text-green-500" />}
+                    {job.state === 'failed' && <IconAlert className="w-4 h-4 text-red-500" />}
+                    <span className="flex-1 font-medium text-gray-900 dark:text-white">{job.language}</span>
+                    {job.result && (
+                      <button onClick={() => { onOpen(job.result!); onClose(); }} className="text-xs text-blue-600 dark:text-blue-400 font-medium hover:underline">Open</button>
+                    )}
+                  </div>
+                  {job.warnings.length > 0 && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-1 ml-6">Structure changed ({job.warnings.join(', ')}). Review before publishing.</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <button onClick={isRunning ? handleClose : onClose} className="w-full py-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg">
+              {isRunning ? 'Stop' : 'Done'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { ImageSize, ModelPrice, BudgetMode, UsageRecord } from '../types';
+import {
+  getUsageRecords, getUsageTotals, getPrices, setModelPrice, resetPrices,
+  getBudget, setBudget, clearUsage, subscribeToUsage,
+} from '../services/usageTracker';
+import { IconTrash, IconRefresh } from './Icons';
+
+export const formatCost = (value: number) => `$${value.toFixed(value > 0 && value < 1 ? 4 : 2)}`;
+
+const formatTokens = (value: number) => value >= 1000 ? `${(value / 1000).toFixed(1)}k` : value.toString();
+
+const OPERATION_LABELS: Record<UsageRecord['operation'], string> = {
+  text: 'Text',
+  json: 'Structured',
+  image: 'Image',
+  'image-edit': 'Image edit',
+};
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none text-sm";
+
+// Empty string means "no limit"
+const parseLimit = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || isNaN(parsed) || parsed < 0 ? null : parsed;
+};
+
+const SpendMeter: React.FC<{ label: string; spent: number; limit: number | null }> = ({ label, spent, limit }) => {
+  const ratio = limit ? Math.min(spent / limit, 1) : 0;
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-900/50 rounded-xl border border-gray-100 dark:border-gray-700">
+      <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">{label}</div>
+      <div className="text-2xl font-bold text-gray-900 dark:text-white">{formatCost(spent)}</div>
+      {limit !== null ? (
+        <>
+          <div className="h-1.5 mt-3 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div className={`h-full transition-all ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-green-500'}`} style={{ width: `${ratio * 100}%` }} />
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">of {formatCost(limit)} budget</div>
+        </>
+      ) : (
+        <div className="text-xs text-gray-400 mt-1">No budget set</div>
+      )}
+    </div>
+  );
+};
+
+export const UsagePanel: React.FC = () => {
+  const [, setRevision] = useState(0);
+  const budget = getBudget();
+  const [sessionLimit, setSessionLimit] = useState(budget.sessionLimit?.toString() || '');
+  const [monthlyLimit, setMonthlyLimit] = useState(budget.monthlyLimit?.toString() || '');
+  const [mode, setMode] = useState<BudgetMode>(budget.mode);
+
+  // The tracker is module state, so re-render whenever a call is logged or settings change
+  useEffect(() => subscribeToUsage(() => setRevision(r => r + 1)), []);
+
+  const records = getUsageRecords();
+  const totals = getUsageTotals();
+  const prices = getPrices();
+
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+  const monthRecords = records.filter(r => r.timestamp >= monthStart);
+
+  const byModel = Object.values(monthRecords.reduce<Record<string, { model: string; calls: number; inputTokens: number; outputTokens: number; images: number; cost: number }>>((acc, r) => {
+    const row = acc[r.model] || (acc[r.model] = { model: r.model, calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 });
+    row.calls++;
+    row.inputTokens += r.inputTokens;
+    row.outputTokens += r.outputTokens;
+    row.images += r.imageCount;
+    row.cost += r.cost;
+    return acc;
+  }, {})).sort((a, b) => b.cost - a.cost);
+
+  // Models seen in the log without a price (e.g. a local endpoint) can be priced too
+  const pricedModels = Array.from(new Set([...Object.keys(prices), ...records.map(r => r.model)]));
+
+  const handleSaveBudget = (e: React.FormEvent) => {
+    e.preventDefault();
+    setBudget({ sessionLimit: parseLimit(sessionLimit), monthlyLimit: parseLimit(monthlyLimit), mode });
+    alert("Budget saved!");
+  };
+
+  const updatePrice = (model: string, patch: Partial<ModelPrice>) => {
+    const current = prices[model] || { inputPerMillion: 0, outputPerMillion: 0 };
+    const next = { ...current, ...patch };
+    // Blurring an untouched field should not pin the default price as an override
+    if (JSON.stringify(next) !== JSON.stringify(current)) setModelPrice(model, next);
+  };
+
+  const updateImagePrice = (model: string, size: ImageSize, value: string) => {
+    const perImage = { ...prices[model]?.perImage };
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) delete perImage[size];
+    else perImage[size] = parsed;
+    updatePrice(model, { perImage });
+  };
+
+  const handleClearUsage = () => {
+    if (confirm("Delete the usage log? Spend totals will restart from zero.")) clearUsage();
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h3 className="font-bold text-lg text-gray-900 dark:text-white mb-4">Usage & Costs</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <SpendMeter label="This Session" spent={totals.session} limit={budget.sessionLimit} />
+          <SpendMeter label="This Month" spent={totals.month} limit={budget.monthlyLimit} />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">Costs are estimates based on the token counts each model reports and the prices below.</p>
+      </div>
+
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h3 className="font-bold text-lg text-gray-900 dark:text-white mb-4">Budget</h3>
+        <form onSubmit={handleSaveBudget} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Session Limit (USD)</label>
+              <input type="number" min="0" step="0.01" placeholder="No limit" value={sessionLimit} onChange={(e) => setSessionLimit(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Monthly Limit (USD)</label>
+              <input type="number" min="0" step="0.01" placeholder="No limit" value={monthlyLimit} onChange={(e) => setMonthlyLimit(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">When a limit is reached</label>
+            <div className="flex p-1 bg-gray-100 dark:bg-gray-900 rounded-xl w-full sm:w-fit">
+              {(['warn', 'block'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setMode(option)}
+                  className={`flex-1 sm:flex-none px-4 py-1.5 rounded-lg text-sm font-bold transition-all ${mode === option ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                >
+                  {option === 'warn' ? 'Warn me' : 'Block requests'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors">Save Budget</button>
+        </form>
+      </div>
+
+      <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+        <h3 className="font-bold text-lg text-gray-900 dark:text-white mb-4">This Month By Model</h3>
+        {byModel.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+                  <th className="pb-2 font-medium">Model</th>
+                  <th className="pb-2 font-medium text-right">Calls</th>
+                  <th className="pb-2 font-medium text-right">In</th>
+                  <th className="pb-2 font-medium text-right">Out</th>
+                  <th className="pb-2 font-medium text-right">Images</th>
+                  <th className="pb-2 font-medium text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                {byModel.map(row => (
+                  <tr key={row.model}>
+                    <td className="py-2 font-mono text-xs">{row.model}</td>
+                    <td className="py-2 text-right">{row.calls}</td>
+                    <td className="py-2 text-right">{formatTokens(row.inputTokens)}</td>
+                    <td className="py-2 text-right">{formatTokens(row.outputTokens)}</td>
+                    <td className="py-2 text-right">{row.images}</td>
+                    <td className="py-2 text-right font-medium text-gray-900 dark:text-white">{formatCost(row.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No AI calls this month yet.</p>
+        )}
+      </div>
+
+      {records.length > 0 && (
+        <div className="p-6 border-b border-gray-100 dark:border-gray-700">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-bold text-lg text-gray-900 dark:text-white">Recent Calls</h3>
+            <button onClick={handleClearUsage} className="text-xs text-gray-500 hover:text-red-500 flex items-center gap-1"><IconTrash className="w-3 h-3" /> Clear log</button>
+          </div>
+          <ul className="space-y-2">
+            {records.slice(-15).reverse().map(record => (
+              <li key={record.id} className="flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 dark:text-white truncate">
+                    {OPERATION_LABELS[record.operation]} <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{record.model}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(record.timestamp).toLocaleString()} • {formatTokens(record.inputTokens)} in / {formatTokens(record.outputTokens)} out
+                    {record.imageCount > 0 && ` • ${record.imageCount} × ${record.imageSize || 'image'}`}
+                  </div>
+                </div>
+                <span className="font-medium text-gray-900 dark:text-white whitespace-nowrap">{formatCost(record.cost)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-bold text-lg text-gray-900 dark:text-white">Price Table</h3>
+          <button onClick={resetPrices} className="text-xs text-gray-500 hover:text-blue-500 flex items-center gap-1"><IconRefresh className="w-3 h-3" /> Reset to defaults</button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">USD per million tokens, and per image for image models. New prices apply to future calls only.</p>
+        <div className="space-y-4">
+          {pricedModels.map(model => {
+            const price = prices[model];
+            return (
+              <div key={model} className="p-4 bg-gray-50 dark:bg-gray-900/50 rounded-xl border border-gray-100 dark:border-gray-700">
+                <div className="font-mono text-xs font-bold text-gray-900 dark:text-white mb-3">{model}</div>
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                  <label className="text-[11px] text-gray-500 dark:text-gray-400">
+                    Input / 1M
+                    <input type="number" min="0" step="0.01" defaultValue={price?.inputPerMillion ?? ''} key={`in-${price?.inputPerMillion}`} onBlur={(e) => updatePrice(model, { inputPerMillion: parseFloat(e.target.value) || 0 })} className={`${inputClass} mt-1`} />
+                  </label>
+                  <label className="text-[11px] text-gray-500 dark:text-gray-400">
+                    Output / 1M
+                    <input type="number" min="0" step="0.01" defaultValue={price?.outputPerMillion ?? ''} key={`out-${price?.outputPerMillion}`} onBlur={(e) => updatePrice(model, { outputPerMillion: parseFloat(e.target.value) || 0 })} className={`${inputClass} mt-1`} />
+                  </label>
+                  {Object.values(ImageSize).map(size => (
+                    <label key={size} className="text-[11px] text-gray-500 dark:text-gray-400">
+                      {size} image
+                      <input type="number" min="0" step="0.001" placeholder="—" defaultValue={price?.perImage?.[size] ?? ''} key={`${size}-${price?.perImage?.[size]}`} onBlur={(e) => updateImagePrice(model, size, e.target.value)} className={`${inputClass} mt-1`} />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import { isAbortError } from './modelProvider';
+import { isBudgetExceededError } from './usageTracker';
+
+// Typed failures for model calls, so the UI can tell the user what to do next instead of
+// showing a generic "something went wrong".
+export type AiErrorKind = 'quota' | 'rate-limit' | 'safety' | 'invalid-key' | 'network' | 'model-unavailable';
+
+export class AiServiceError extends Error {
+  kind: AiErrorKind;
+  retryable: boolean;
+  retryAfterMs?: number; // Server hint for when the request may succeed again
+  cause?: unknown;
+
+  constructor(kind: AiErrorKind, message: string, options: { retryable?: boolean; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'AiServiceError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+export class QuotaExceededError extends AiServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('quota', message, { cause });
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class RateLimitedError extends AiServiceError {
+  constructor(message: string, retryAfterMs?: number, cause?: unknown) {
+    super('rate-limit', message, { retryable: true, retryAfterMs, cause });
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class SafetyBlockedError extends AiServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('safety', message, { cause });
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class InvalidApiKeyError extends AiServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('invalid-key', message, { cause });
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class NetworkError extends AiServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('network', message, { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class ModelUnavailableError extends AiServiceError {
+  constructor(message: string, options: { retryable?: boolean; retryAfterMs?: number; cause?: unknown } = {}) {
+    super('model-unavailable', message, { retryable: options.retryable ?? true, retryAfterMs: options.retryAfterMs, cause: options.cause });
+    this.name = 'ModelUnavailableError';
+  }
+}
+
+// Raw non-2xx response from an HTTP provider, before classifyError maps it onto the types above
+export class HttpError extends Error {
+  status: number;
+  retryAfterMs?: number; // From the Retry-After header
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const isAiServiceError = (error: unknown): error is AiServiceError => error instanceof AiServiceError;
+
+// Gemini puts the hint in the error body ("retryDelay": "37s" / "Please retry in 37.2s");
+// HTTP providers pass the Retry-After header on HttpError
+const parseRetryAfter = (error: unknown, message: string): number | undefined => {
+  if (error instanceof HttpError && error.retryAfterMs !== undefined) return error.retryAfterMs;
+  const match = message.match(/retry(?:Delay)?["'\s:]+(\d+(?:\.\d+)?)s/i) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Maps raw SDK / fetch errors onto the typed errors above. Aborts, budget blocks and
+ * anything unrecognised are returned unchanged.
+ */
+export const classifyError = (error: unknown): unknown => {
+  if (isAiServiceError(error) || isAbortError(error) || isBudgetExceededError(error)) return error;
+
+  const raw: any = error;
+  const message: string = typeof raw?.message === 'string' ? raw.message : String(error);
+  const status: number | undefined = error instanceof HttpError ? error.status
+    : raw?.status ?? (typeof raw?.code === 'number' ? raw.code : undefined)
+    ?? (Number(message.match(/"code"\s*:\s*(\d{3})/)?.[1]) || undefined);
+
+  if (status === 401 || /API key not valid|API_KEY_INVALID|invalid api key|UNAUTHENTICATED/i.test(message) ||
+      (status === 403 && /api key|permission/i.test(message))) {
+    return new InvalidApiKeyError('The API key was rejected.', error);
+  }
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|too many requests|quota/i.test(message)) {
+    // Billing or daily caps won't clear by retrying in a few seconds
+    if (/billing|plan|per day|daily|limit: 0/i.test(message)) {
+      return new QuotaExceededError('The API quota for this key is used up.', error);
+    }
+    return new RateLimitedError('Too many requests were sent to the model.', parseRetryAfter(error, message), error);
+  }
+
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|content_filter|blocked/i.test(message)) {
+    return new SafetyBlockedError('The request was blocked by the model\'s safety filters.', error);
+  }
+
+  if ((status === 404 && /model/i.test(message)) || /models\/.* is not found|model .*not (found|supported)/i.test(message)) {
+    return new ModelUnavailableError('The configured model does not exist or is not available to this key.', { retryable: false, cause: error });
+  }
+
+  if ((status !== undefined && status >= 500) || /overloaded|UNAVAILABLE|DEADLINE_EXCEEDED|INTERNAL/.test(message)) {
+    return new ModelUnavailableError('The model is overloaded or temporarily down.', { retryAfterMs: parseRetryAfter(error, message), cause: error });
+  }
+
+  if (/failed to fetch|networkerror|network request failed|load failed|ECONNREFUSED|ETIMEDOUT/i.test(message) ||
+      (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new NetworkError('Could not reach the model service.', error);
+  }
+
+  return error;
+};
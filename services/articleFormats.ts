@@ -0,0 +1,256 @@
+import { ArticleType, ArticleFormatId, FormatCheck, Language } from '../types';
+import { splitSections, replaceSection } from './markdownSections';
+import { splitReferences } from './citations';
+
+const CATEGORY_FORMATS_KEY = 'ai_writer_category_formats';
+
+export const FINANCIAL_DISCLAIMER = 'This article is for informational purposes only and does not constitute financial, legal or insurance advice. Rates, terms and eligibility change frequently and vary by provider and individual circumstances. Always compare official offers and consult a licensed professional before making a decision.';
+
+interface FormatRequirement {
+  label: string;
+  test: (markdown: string, language: Language) => boolean;
+  // Appends the missing part when it can be added verbatim
+  fix?: (markdown: string) => string;
+  fixLanguages?: Language[]; // Languages the fix is written in; all when left out
+}
+
+export interface ArticleFormat {
+  id: ArticleFormatId;
+  name: string;
+  summary: string; // Shown next to the category picker
+  structure: string; // Instructions for the {{structure}} prompt variable
+  requirements: FormatRequirement[];
+}
+
+// -- Markdown probes --
+
+const lines = (markdown: string) => markdown.split('\n').map(line => line.trim());
+
+const isHeadingOrLabel = (line: string, label: RegExp) =>
+  (/^#{1,6}\s/.test(line) || /^\*\*[^*]+\*\*:?\s*$/.test(line) || /^\*\*[^*]+:\*\*/.test(line)) && label.test(line);
+
+const isTableRow = (line: string) => /^\|.*\|$/.test(line);
+const isTableDivider = (line: string) => /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|?$/.test(line);
+
+// True when a heading (or bold label) matching `label` is followed by `probe` before the next H2
+const hasAfterHeading = (markdown: string, label: RegExp, probe: (block: string[]) => boolean) => {
+  const all = lines(markdown);
+  return all.some((line, index) => {
+    if (!isHeadingOrLabel(line, label)) return false;
+    const nextH2 = all.findIndex((l, i) => i > index && /^##\s/.test(l));
+    return probe(all.slice(index + 1, nextH2 === -1 ? undefined : nextH2));
+  });
+};
+
+const hasTable = (block: string[]) => block.some((line, i) => isTableRow(line) && isTableDivider(block[i + 1] || ''));
+const hasBulletList = (block: string[]) => block.some(line => /^[-*+]\s+\S/.test(line));
+const hasNumberedList = (block: string[]) => block.some(line => /^\d+[.)]\s+\S/.test(line));
+
+// Compares prose ignoring line breaks and emphasis, so a wrapped or bolded copy still matches
+const normalizeProse = (text: string) => text.replace(/[*_>]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+// What a translated disclaimer section is usually called; the English word is accepted in every language
+const DISCLAIMER_HEADINGS: Record<Language, string[]> = {
+  [Language.ENGLISH]: ['disclaimer'],
+  [Language.SPANISH]: ['aviso legal', 'descargo de responsabilidad', 'exención de responsabilidad'],
+  [Language.FRENCH]: ['avertissement', 'non-responsabilité', 'mentions légales'],
+  [Language.GERMAN]: ['haftungsausschluss', 'rechtlicher hinweis'],
+  [Language.ITALIAN]: ['avvertenza', 'esclusione di responsabilità', 'avviso legale'],
+  [Language.DUTCH]: ['vrijwaring', 'juridische kennisgeving'],
+  [Language.PORTUGUESE]: ['aviso legal', 'isenção de responsabilidade'],
+  [Language.RUSSIAN]: ['отказ от ответственности', 'дисклеймер'],
+  [Language.CHINESE]: ['免责声明'],
+  [Language.JAPANESE]: ['免責事項'],
+  [Language.KOREAN]: ['면책 조항', '면책조항'],
+  [Language.HINDI]: ['अस्वीकरण'],
+  [Language.ARABIC]: ['إخلاء المسؤولية', 'إخلاء مسؤولية'],
+  [Language.TURKISH]: ['sorumluluk reddi', 'yasal uyarı'],
+  [Language.VIETNAMESE]: ['tuyên bố miễn trừ', 'miễn trừ trách nhiệm'],
+  [Language.THAI]: ['ข้อจำกัดความรับผิดชอบ', 'ข้อสงวนสิทธิ์'],
+  [Language.KHMER]: ['សេចក្តីបដិសេធ', 'ការបដិសេធ'],
+};
+
+// English articles must carry the exact text. A translation can't be matched word for word, so other
+// languages need a disclaimer heading (or bold label) with text under it.
+const hasDisclaimer = (markdown: string, language: Language) => {
+  if (language === Language.ENGLISH) return normalizeProse(markdown).includes(normalizeProse(FINANCIAL_DISCLAIMER));
+  const names = [...DISCLAIMER_HEADINGS[language], ...DISCLAIMER_HEADINGS[Language.ENGLISH]];
+  const label = new RegExp(names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'i');
+  return hasAfterHeading(markdown, label, block => block.some(line => line && !/^#{1,6}\s/.test(line)))
+    || lines(markdown).some(line => /^\*\*[^*]+:\*\*\s*\S/.test(line) && label.test(line));
+};
+
+// Replaces a paraphrased disclaimer section, or adds one; either way it stays above any References section
+const insertDisclaimer = (markdown: string) => {
+  const section = `## Disclaimer\n\n${FINANCIAL_DISCLAIMER}`;
+  const { body, references } = splitReferences(markdown);
+  const existing = splitSections(body).find(s => s.heading && /disclaimer/i.test(s.heading));
+  const updated = existing ? replaceSection(body, existing, section) : `${body.trimEnd()}\n\n${section}`;
+  return `${updated.trimEnd()}${references ? `\n\n${references}` : ''}\n`;
+};
+
+const tableAfter = (label: RegExp) => (markdown: string) => hasAfterHeading(markdown, label, hasTable);
+const bulletsAfter = (label: RegExp) => (markdown: string) => hasAfterHeading(markdown, label, hasBulletList);
+
+// -- Formats --
+
+export const ARTICLE_FORMATS: Record<ArticleFormatId, ArticleFormat> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard Article',
+    summary: 'Title, intro, body sections and conclusion',
+    structure: `3. **Structure**:
+ - H1: Engaging, click-worthy title.
+ - Intro: Hook the reader immediately with a question, stat, or bold claim.
+ - Body: Use H2/H3, bullet points, and **bold** text for scannability.
+ - Conclusion: Actionable summary, no fluff.`,
+    requirements: [],
+  },
+  recipe: {
+    id: 'recipe',
+    name: 'Recipe',
+    summary: 'Recipe facts table, ingredients, steps and nutrition',
+    structure: `3. **Structure (Recipe Format)**:
+ - H1: Mouth-watering, descriptive title.
+ - **Introduction**: Engaging story or description of the dish, flavor profile, and why it's special.
+ - **Recipe Facts**: Present the following data in a **Markdown Table** with columns: Prep Time, Cook Time, Total Time, Servings, Calories/Serving.
+ - **Ingredients**: Clear bulleted list with precise measurements.
+ - **Instructions**: Numbered, step-by-step cooking directions.
+ - **Nutritional Breakdown**: Estimated protein, carbs, and fat per serving.
+ - **Chef's Tips**: Specific advice for best results or variations.
+ - Conclusion: Serving suggestions.`,
+    requirements: [
+      { label: 'Recipe facts table', test: tableAfter(/recipe facts|prep time/i) },
+      { label: 'Ingredients list', test: bulletsAfter(/ingredients/i) },
+      { label: 'Numbered instructions', test: (md) => hasAfterHeading(md, /instructions|directions|method/i, hasNumberedList) },
+      { label: 'Nutritional breakdown', test: (md) => lines(md).some(line => isHeadingOrLabel(line, /nutrition/i)) },
+    ],
+  },
+  review: {
+    id: 'review',
+    name: 'Product Review',
+    summary: 'Verdict box, pros & cons, spec table and rating',
+    structure: `3. **Structure (Product Review Format)**:
+ - H1: Review title that includes the product name.
+ - **Verdict Box**: Directly under the H1, a Markdown blockquote that starts with "> **Verdict:**" and sums up who should buy it in 2-3 sentences.
+ - Intro: What the product is and how it was evaluated.
+ - **## Specifications**: A Markdown table with columns: Spec, Detail.
+ - Body: H2 sections on design, performance, real-world use and value.
+ - **## Pros and Cons**: A "**Pros:**" bulleted list followed by a "**Cons:**" bulleted list.
+ - **## Rating**: A line formatted exactly as "**Rating:** X/10", followed by one sentence of justification.
+ - Conclusion: Who should buy it and who should skip it.`,
+    requirements: [
+      { label: 'Verdict box', test: (md) => /^>\s*\*\*Verdict:?\*\*/im.test(md) },
+      { label: 'Pros list', test: bulletsAfter(/\bpros\b/i) },
+      { label: 'Cons list', test: bulletsAfter(/\bcons\b/i) },
+      { label: 'Spec table', test: tableAfter(/spec/i) },
+      { label: 'Rating (X/10)', test: (md) => /rating[^\n]*?\d+(\.\d+)?\s*\/\s*(5|10)\b/i.test(md) },
+    ],
+  },
+  travel: {
+    id: 'travel',
+    name: 'Travel Guide',
+    summary: 'Day-by-day itinerary and budget table',
+    structure: `3. **Structure (Travel Guide Format)**:
+ - H1: Destination-focused, inspiring title.
+ - Intro: Why go, best time to visit, and who the trip suits.
+ - **## Itinerary**: One H3 per day, formatted as "### Day 1: ...", "### Day 2: ...", each with morning, afternoon and evening plans.
+ - **## Budget**: A Markdown table with columns: Item, Cost Range, Notes (covering accommodation, food, transport, activities and a total).
+ - **## Practical Tips**: Getting around, safety, local etiquette.
+ - Conclusion: A short send-off with one standout recommendation.`,
+    requirements: [
+      { label: 'Day-by-day itinerary (2+ days)', test: (md) => lines(md).filter(line => /^#{2,4}\s*Day\s+\d+/i.test(line)).length >= 2 },
+      { label: 'Budget table', test: tableAfter(/budget|cost/i) },
+    ],
+  },
+  financial: {
+    id: 'financial',
+    name: 'Financial Product Comparison',
+    summary: 'Comparison tables and a mandatory disclaimer',
+    structure: `3. **Structure (Financial Comparison Format)**:
+ - H1: Clear, benefit-led title. No guarantees or promises of approval.
+ - Intro: Who this guide is for and what to compare.
+ - **## Comparison**: A Markdown table comparing at least 3 options with columns such as Provider/Option, Rate or Premium, Fees, Terms, Best For.
+ - Body: H2 sections explaining eligibility, hidden costs and how to choose. Add a second comparison table where it helps (e.g. cost over time).
+ - Conclusion: How to decide, with neutral, non-promotional language.
+ - **## Disclaimer**: End with this exact text: "${FINANCIAL_DISCLAIMER}" In articles not written in English, translate both the heading and the text faithfully.`,
+    requirements: [
+      { label: 'Comparison table', test: tableAfter(/compar|vs\.?|options/i) },
+      {
+        label: 'Disclaimer',
+        test: hasDisclaimer,
+        fix: insertDisclaimer,
+        fixLanguages: [Language.ENGLISH],
+      },
+    ],
+  },
+  tech: {
+    id: 'tech',
+    name: 'Tech Article',
+    summary: 'Includes a specifications table',
+    structure: `3. **Structure (Tech Format)**:
+ - H1: Engaging, click-worthy title.
+ - Intro: Hook the reader immediately with a question, stat, or bold claim.
+ - **## Specifications**: A Markdown table with columns: Spec, Detail (for the product, or for the main products being discussed).
+ - Body: Use H2/H3, bullet points, and **bold** text for scannability.
+ - Conclusion: Actionable summary, no fluff.`,
+    requirements: [
+      { label: 'Spec table', test: tableAfter(/spec/i) },
+    ],
+  },
+};
+
+const BUILT_IN_FORMATS: Partial<Record<string, ArticleFormatId>> = {
+  [ArticleType.FOOD]: 'recipe',
+  [ArticleType.REVIEWS]: 'review',
+  [ArticleType.TRAVEL]: 'travel',
+  [ArticleType.LOANS]: 'financial',
+  [ArticleType.INSURANCE]: 'financial',
+  [ArticleType.TECH]: 'tech',
+};
+
+// -- Custom category formats --
+
+export const getCategoryFormats = (): Record<string, ArticleFormatId> => {
+  try {
+    const saved = localStorage.getItem(CATEGORY_FORMATS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error('Failed to read category formats', e);
+    return {};
+  }
+};
+
+// Pass null to drop the mapping (e.g. when the category is deleted)
+export const setCategoryFormat = (category: string, formatId: ArticleFormatId | null) => {
+  const formats = getCategoryFormats();
+  if (formatId === null) delete formats[category];
+  else formats[category] = formatId;
+  localStorage.setItem(CATEGORY_FORMATS_KEY, JSON.stringify(formats));
+};
+
+export const renameCategoryFormat = (oldName: string, newName: string) => {
+  const formats = getCategoryFormats();
+  if (!(oldName in formats)) return;
+  formats[newName] = formats[oldName];
+  delete formats[oldName];
+  localStorage.setItem(CATEGORY_FORMATS_KEY, JSON.stringify(formats));
+};
+
+// Custom category choices win over the built-in mapping
+export const getFormatForCategory = (category: string, customFormats = getCategoryFormats()): ArticleFormat =>
+  ARTICLE_FORMATS[customFormats[category] || BUILT_IN_FORMATS[category] || 'standard'];
+
+// -- Validation --
+
+export const validateArticleFormat = (markdown: string, formatId: ArticleFormatId, language: Language): FormatCheck[] =>
+  ARTICLE_FORMATS[formatId].requirements.map(requirement => ({
+    requirement: requirement.label,
+    passed: requirement.test(markdown, language),
+    fixable: !!requirement.fix && (!requirement.fixLanguages || requirement.fixLanguages.includes(language)),
+  }));
+
+export const applyFormatFix = (markdown: string, formatId: ArticleFormatId, requirement: string): string => {
+  const fix = ARTICLE_FORMATS[formatId].requirements.find(r => r.label === requirement)?.fix;
+  return fix ? fix(markdown) : markdown;
+};
@@ -0,0 +1,35 @@
+import { ArticleVariant, Length, SavedArticle } from '../types';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// "Long (Deep Dive)" -> "Long"
+export const getLengthLabel = (length: Length): string => length.split('(')[0].trim();
+
+// Gen Z is a style applied on top of a length, not a length of its own
+export const isStyleOverlay = (length: Length) => length === Length.GEN_Z;
+
+// With several lengths selected, each one is written as its own article; outlines always make one
+export const getVariantLengths = (lengths: Length[], fromOutline: boolean): Length[] => {
+  const realLengths = lengths.filter(length => !isStyleOverlay(length));
+  return !fromOutline && realLengths.length > 1 ? realLengths : [];
+};
+
+// Outlines plan a single article, so they take one real length plus any style overlay
+export const keepOneLength = (lengths: Length[], keep?: Length): Length[] => {
+  const real = keep || lengths.find(length => !isStyleOverlay(length));
+  return [...(real ? [real] : []), ...lengths.filter(isStyleOverlay)];
+};
+
+// The length list a single variant is written with, keeping any selected style overlay
+export const getVariantConfigLengths = (length: Length, selected: Length[]): Length[] =>
+  [length, ...selected.filter(isStyleOverlay)];
+
+export const createVariants = (lengths: Length[]): ArticleVariant[] =>
+  lengths.map(length => ({
+    id: generateId(), length, content: '', status: 'idle', originalityHistory: [], savedArticleId: null,
+    seo: null, headlines: null, socialPosts: null
+  }));
+
+// Saved variants are linked the way translations are, through a shared group id
+export const getVariantGroup = (article: SavedArticle, savedArticles: SavedArticle[]): SavedArticle[] =>
+  article.variantGroupId ? savedArticles.filter(a => a.variantGroupId === article.variantGroupId) : [article];
@@ -0,0 +1,247 @@
+import { ArticleConfig, BatchItem, GeneratedArticle, Tone, Length, Language } from '../types';
+import { isAbortError } from './modelProvider';
+import { isBudgetExceededError } from './usageTracker';
+import { isAiServiceError } from './aiErrors';
+import { getVariantConfigLengths, getVariantLengths } from './articleVariants';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// -- Input parsing --
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, newlines and "" escapes
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows
+    .map(r => r.map(cell => cell.trim()))
+    .filter(r => r.some(cell => cell !== ''));
+};
+
+// Accepts enum values ("Professional"), keys ("PROFESSIONAL") or the short label before the brackets ("Short")
+const matchEnum = <T extends string>(values: Record<string, T>, raw: string): T | undefined => {
+  const needle = raw.trim().toLowerCase();
+  if (!needle) return undefined;
+  return Object.entries(values).find(([key, value]) =>
+    key.toLowerCase() === needle ||
+    value.toLowerCase() === needle ||
+    value.split('(')[0].trim().toLowerCase() === needle
+  )?.[1];
+};
+
+const BATCH_COLUMNS = ['topic', 'category', 'keywords', 'tone', 'length', 'language'] as const;
+
+export const BATCH_CSV_TEMPLATE = `${BATCH_COLUMNS.join(',')}
+"Best budget laptops for students",Technology & Gadgets,"budget laptop, student laptop",Professional,Medium,English`;
+
+// Several lengths make one queued article each, the way the form writes length variants
+const splitByLength = (config: ArticleConfig): ArticleConfig[] => {
+  const lengths = getVariantLengths(config.length, false);
+  return lengths.length > 0
+    ? lengths.map(length => ({ ...config, length: getVariantConfigLengths(length, config.length) }))
+    : [config];
+};
+
+/**
+ * Turns a CSV (with a header row naming the columns) or a plain list of topics
+ * (one per line) into queue items. Missing or unrecognised values fall back to `defaults`.
+ */
+export const parseBatchInput = (text: string, defaults: ArticleConfig): ArticleConfig[] => {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.toLowerCase());
+  const hasHeader = header.includes('topic');
+
+  if (!hasHeader) {
+    // Plain list: every line is a topic, commas included
+    return text.split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(Boolean)
+      .flatMap(topic => splitByLength({ ...defaults, topic }));
+  }
+
+  const column = (row: string[], name: typeof BATCH_COLUMNS[number]) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? row[index] || '' : '';
+  };
+
+  return rows.slice(1)
+    .filter(row => column(row, 'topic'))
+    .flatMap(row => {
+      // Several lengths can be combined with "+" or "|", mirroring the multi-select in the form;
+      // each becomes its own article
+      const lengths = column(row, 'length')
+        .split(/[+|]/)
+        .map(l => matchEnum(Length, l))
+        .filter((l): l is Length => !!l);
+
+      return splitByLength({
+        ...defaults,
+        topic: column(row, 'topic'),
+        type: column(row, 'category') || defaults.type,
+        keywords: column(row, 'keywords') || defaults.keywords,
+        tone: matchEnum(Tone, column(row, 'tone')) || defaults.tone,
+        length: lengths.length > 0 ? lengths.slice(0, 2) : defaults.length,
+        language: matchEnum(Language, column(row, 'language')) || defaults.language,
+      });
+    });
+};
+
+export const createBatchItems = (configs: ArticleConfig[]): BatchItem[] =>
+  configs.map(config => ({
+    id: generateId(),
+    config,
+    status: 'queued',
+    attempts: 0,
+    wordsWritten: 0,
+  }));
+
+// -- Queue --
+
+export interface BatchRunnerOptions {
+  concurrency: number;
+  maxRetries: number; // Extra attempts after the first failure
+  // Produces the article for one item, reporting progress as it streams
+  generate: (item: BatchItem, onProgress: (wordsWritten: number) => void, signal: AbortSignal) => Promise<GeneratedArticle>;
+  onUpdate: (id: string, patch: Partial<BatchItem>) => void;
+  onComplete: (item: BatchItem, article: GeneratedArticle) => void;
+  onIdle?: () => void;
+}
+
+export interface BatchRunner {
+  enqueue: (items: BatchItem[]) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isPaused: () => boolean;
+  setOptions: (options: Partial<Pick<BatchRunnerOptions, 'concurrency' | 'maxRetries'>>) => void;
+}
+
+const RETRY_DELAY_MS = 2000;
+
+export const createBatchRunner = (initialOptions: BatchRunnerOptions): BatchRunner => {
+  const options = { ...initialOptions };
+  let queue: BatchItem[] = [];
+  let paused = false;
+  const running = new Map<string, { item: BatchItem; controller: AbortController }>();
+
+  const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => { clearTimeout(timer); reject(signal.reason); };
+    const timer = setTimeout(() => { signal.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  const run = async (item: BatchItem) => {
+    const controller = new AbortController();
+    running.set(item.id, { item, controller });
+    let attempts = item.attempts;
+    // A pause followed by a quick resume starts a new run of the same item before this one has
+    // wound down, so only the run that still owns the item may report on it
+    const ownsItem = () => running.get(item.id)?.controller === controller;
+    const update = (patch: Partial<BatchItem>) => { if (ownsItem()) options.onUpdate(item.id, patch); };
+
+    try {
+      while (true) {
+        attempts++;
+        update({ status: 'running', attempts, wordsWritten: 0, error: undefined });
+        try {
+          const article = await options.generate(
+            item,
+            (wordsWritten) => update({ wordsWritten }),
+            controller.signal
+          );
+          if (!ownsItem()) return;
+          options.onUpdate(item.id, { status: 'done' });
+          options.onComplete({ ...item, attempts }, article);
+          return;
+        } catch (error: any) {
+          if (isAbortError(error)) throw error;
+          // Retrying cannot help with a spending limit, a bad key, exhausted quota or a safety block
+          const permanent = isBudgetExceededError(error) || (isAiServiceError(error) && !error.retryable);
+          if (permanent || attempts - item.attempts > options.maxRetries) {
+            update({ status: 'failed', error: error?.message || 'Generation failed' });
+            return;
+          }
+          console.warn(`Batch item failed, retrying (${attempts}):`, error);
+          // Honour the service's own hint (Retry-After, circuit breaker cooldown) when it is longer
+          await wait(Math.max(RETRY_DELAY_MS * attempts, error?.retryAfterMs || 0), controller.signal);
+        }
+      }
+    } catch (error) {
+      // Aborted mid-run: pause has already handed the item back to the queue, cancel has not
+      update({ status: 'failed', wordsWritten: 0, error: 'Cancelled' });
+    } finally {
+      if (ownsItem()) {
+        running.delete(item.id);
+        pump();
+      }
+    }
+  };
+
+  const pump = () => {
+    while (!paused && running.size < options.concurrency && queue.length > 0) {
+      run(queue.shift()!);
+    }
+    if (running.size === 0 && (queue.length === 0 || paused)) options.onIdle?.();
+  };
+
+  return {
+    enqueue: (items) => {
+      queue.push(...items);
+      items.forEach(item => options.onUpdate(item.id, { status: 'queued', error: undefined }));
+      pump();
+    },
+    // Pausing stops in-flight requests too, so no quota is spent while paused
+    pause: () => {
+      paused = true;
+      const interrupted = Array.from(running.values());
+      queue = [...interrupted.map(r => r.item), ...queue];
+      // The interrupted runs give up their items here, before their aborts settle
+      running.clear();
+      interrupted.forEach(r => {
+        r.controller.abort();
+        options.onUpdate(r.item.id, { status: 'queued', wordsWritten: 0 });
+      });
+      pump();
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    cancel: () => {
+      const dropped = queue;
+      queue = [];
+      running.forEach(r => r.controller.abort());
+      dropped.forEach(item => options.onUpdate(item.id, { status: 'failed', error: 'Cancelled' }));
+    },
+    isPaused: () => paused,
+    setOptions: (patch) => {
+      Object.assign(options, patch);
+      pump();
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import { BrandVoiceProfile, BrandStyleGuide, BrandVoiceMode } from '../types';
+
+const BRAND_VOICES_KEY = 'ai_writer_brand_voices';
+
+const listeners = new Set<() => void>();
+
+export const getBrandVoices = (): BrandVoiceProfile[] => {
+  try {
+    const saved = localStorage.getItem(BRAND_VOICES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error('Failed to read brand voices', e);
+    return [];
+  }
+};
+
+export const getBrandVoice = (id?: string): BrandVoiceProfile | undefined =>
+  id ? getBrandVoices().find(profile => profile.id === id) : undefined;
+
+const writeBrandVoices = (profiles: BrandVoiceProfile[]) => {
+  localStorage.setItem(BRAND_VOICES_KEY, JSON.stringify(profiles));
+  listeners.forEach(listener => listener());
+};
+
+// Inserts a new profile or replaces the one with the same id
+export const saveBrandVoice = (profile: BrandVoiceProfile) => {
+  const profiles = getBrandVoices();
+  const index = profiles.findIndex(p => p.id === profile.id);
+  if (index === -1) profiles.push(profile);
+  else profiles[index] = profile;
+  writeBrandVoices(profiles);
+};
+
+export const deleteBrandVoice = (id: string) => {
+  writeBrandVoices(getBrandVoices().filter(profile => profile.id !== id));
+};
+
+export const subscribeToBrandVoices = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Past articles are pasted into one box, separated by a line containing only "---"
+export const splitSamples = (text: string): string[] =>
+  text.split(/^\s*-{3,}\s*$/m).map(sample => sample.trim()).filter(sample => sample.length > 0);
+
+const bulletList = (items: string[]) => items.map(item => `      - ${item}`).join('\n');
+
+// Prompt block appended to the article SPECIFICATIONS
+export const formatBrandVoice = (profile: BrandVoiceProfile, mode: BrandVoiceMode): string => {
+  const guide: BrandStyleGuide = profile.styleGuide;
+  return `
+    BRAND VOICE: "${profile.name}"${mode === 'replace' ? ' (this replaces the Tone above)' : ' (blend with the Tone above)'}
+    - **Overview**: ${guide.summary}
+    - **Point of View**: ${guide.pointOfView}
+    - **Sentence Rhythm**: ${guide.sentenceRhythm}
+    - **Preferred Vocabulary**:
+${bulletList(guide.vocabulary)}
+    - **Formatting Habits**:
+${bulletList(guide.formattingHabits)}
+    - **Never Use These Phrases**:
+${bulletList(guide.bannedPhrases)}
+`;
+};
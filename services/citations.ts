@@ -0,0 +1,70 @@
+import type { Citation, GroundingSource } from './modelProvider';
+
+export const REFERENCES_HEADING = 'References';
+
+// [^1] markers in the text and "[^1]: ..." definitions in the References section
+export const FOOTNOTE_MARKER_PATTERN = /\[\^(\d+)\]/g;
+export const FOOTNOTE_DEFINITION_PATTERN = /^\[\^(\d+)\]:\s*(.*)$/;
+
+// Places a marker after each supported passage. Passages are searched for in order, so a
+// sentence that occurs twice is cited where the model wrote it; unknown passages are skipped.
+export const insertCitationMarkers = (content: string, citations: Citation[]): string => {
+  const insertions: { at: number; marker: string }[] = [];
+  let cursor = 0;
+  citations.forEach(citation => {
+    const text = citation.text.trim();
+    if (!text) return;
+    let index = content.indexOf(text, cursor);
+    if (index === -1) index = content.indexOf(text);
+    if (index === -1) return;
+    const at = index + text.length;
+    cursor = at;
+    const marker = Array.from(new Set(citation.sourceIndices)).map(i => `[^${i + 1}]`).join('');
+    insertions.push({ at, marker });
+  });
+
+  return insertions
+    .sort((a, b) => b.at - a.at)
+    .reduce((text, { at, marker }) => {
+      // Several passages can end at the same spot; keep each marker once
+      const existing = text.substring(at).match(/^(\[\^\d+\])+/)?.[0] || '';
+      const added = marker.match(FOOTNOTE_MARKER_PATTERN)!.filter(m => !existing.includes(m)).join('');
+      return `${text.substring(0, at)}${added}${text.substring(at)}`;
+    }, content);
+};
+
+// Models asked to cite retrieved sources sometimes write [2] instead of [^2]
+export const normalizeCitationMarkers = (content: string, sourceCount: number): string =>
+  content.replace(/\[(\d+)\](?!\()/g, (marker, n: string) => {
+    const number = parseInt(n);
+    return number >= 1 && number <= sourceCount ? `[^${number}]` : marker;
+  });
+
+// Continuing or extending an article has to happen above its References section
+export const splitReferences = (content: string): { body: string; references: string } => {
+  const match = content.match(new RegExp(`^## ${REFERENCES_HEADING}\\s*$`, 'm'));
+  if (!match || match.index === undefined) return { body: content, references: '' };
+  return { body: content.slice(0, match.index).trimEnd(), references: content.slice(match.index).trimEnd() };
+};
+
+// Renumbers markers by first appearance, drops uncited sources and appends the References section.
+// Markers must be 1-based indexes into sources.
+export const finalizeCitations = (content: string, sources: GroundingSource[]): { content: string; sources: GroundingSource[] } => {
+  const order: number[] = [];
+  for (const match of content.matchAll(FOOTNOTE_MARKER_PATTERN)) {
+    const index = parseInt(match[1]) - 1;
+    if (sources[index] && !order.includes(index)) order.push(index);
+  }
+  if (order.length === 0) return { content, sources: [] };
+
+  const renumbered = content
+    .replace(FOOTNOTE_MARKER_PATTERN, (marker, n: string) => {
+      const position = order.indexOf(parseInt(n) - 1);
+      return position === -1 ? '' : `[^${position + 1}]`;
+    })
+    .trimEnd();
+  const cited = order.map(index => sources[index]);
+  const references = cited.map((source, i) => `[^${i + 1}]: [${source.title.replace(/[[\]]/g, '')}](${source.uri})`).join('\n');
+
+  return { content: `${renumbered}\n\n## ${REFERENCES_HEADING}\n\n${references}\n`, sources: cited };
+};
@@ -0,0 +1,71 @@
+// Helpers for picking up an article that stopped before its end. Models asked to continue often
+// restart the cut-off sentence or paragraph, so the start of a continuation is checked against the
+// end of the existing text before any of it is shown.
+
+// Overlaps shorter than this are more likely coincidence (a shared word or two) than a repeat
+const MIN_OVERLAP_CHARS = 20;
+// How far back a repeat is looked for, and how much of the continuation is held back to check it
+const OVERLAP_WINDOW = 600;
+
+// Text that stops mid-paragraph or on a bare heading was cut off. List items, tables and images
+// often end without punctuation, so those are given the benefit of the doubt.
+export const looksCutOff = (markdown: string): boolean => {
+  const lastLine = markdown.trimEnd().split('\n').pop()?.trim() || '';
+  if (!lastLine) return true;
+  if (/^(\||!\[|[-*+]\s|\d+[.)]\s|\[\^\d+\]:)/.test(lastLine)) return false;
+  if (lastLine.startsWith('#')) return true;
+  return !/[.!?…:;)"'”’»*_`\]。！？]$/.test(lastLine);
+};
+
+// Drops the start of the continuation where it repeats the end of the existing text
+export const trimOverlap = (existing: string, continuation: string): string => {
+  const tail = existing.trimEnd().slice(-OVERLAP_WINDOW);
+  const start = continuation.trimStart();
+  for (let length = Math.min(tail.length, start.length); length >= MIN_OVERLAP_CHARS; length--) {
+    if (tail.endsWith(start.slice(0, length))) return start.slice(length);
+  }
+  return continuation;
+};
+
+// Block-level Markdown needs a blank line before it; anything else carries on the last line as it is,
+// since the text may have stopped mid-word
+const getJoiner = (existing: string, continuation: string): string => {
+  if (!existing || /\n\s*$/.test(existing) || /^\s/.test(continuation)) return '';
+  return /^(#|\||!\[|[-*+]\s|\d+[.)]\s)/.test(continuation) ? '\n\n' : '';
+};
+
+// Wraps onChunk so the first part of a continuation is held back until any repeat of the existing
+// text can be cut off. Call end() once the stream is done to release what is still held back.
+export const createContinuationStream = (existing: string, onChunk: (text: string) => void) => {
+  let held = '';
+  let released = false;
+  let emitted = '';
+
+  const release = () => {
+    released = true;
+    const trimmed = trimOverlap(existing, held);
+    const text = trimmed.trim() ? getJoiner(existing, trimmed) + trimmed : '';
+    held = '';
+    if (text) {
+      emitted += text;
+      onChunk(text);
+    }
+  };
+
+  return {
+    onChunk: (chunk: string) => {
+      if (released) {
+        emitted += chunk;
+        onChunk(chunk);
+        return;
+      }
+      held += chunk;
+      if (held.length >= OVERLAP_WINDOW) release();
+    },
+    // Resolves to everything that was passed on
+    end: (): string => {
+      if (!released) release();
+      return emitted;
+    },
+  };
+};
@@ -0,0 +1,125 @@
+import { DuplicateCheckSettings, DuplicateMatch, DuplicatePassage, SavedArticle } from '../types';
+
+const DUPLICATE_SETTINGS_KEY = 'ai_writer_duplicate_settings';
+
+export const DEFAULT_DUPLICATE_SETTINGS: DuplicateCheckSettings = {
+  threshold: 30,
+  mode: 'warn',
+};
+
+// Runs of five words are long enough that stock phrases rarely collide
+const SHINGLE_SIZE = 5;
+// Matches below this share are too small to be worth listing
+const MIN_REPORTED_SIMILARITY = 5;
+// Shorter overlapping runs still count towards the similarity but aren't shown as passages
+const MIN_PASSAGE_WORDS = 8;
+const MAX_MATCHES = 10;
+
+// Images and link targets are matched first so words inside alt text and URLs are skipped
+const TOKEN_PATTERN = /!\[[^\]]*\]\([^)]*\)|\]\([^)]*\)|[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export const getDuplicateSettings = (): DuplicateCheckSettings => {
+  try {
+    const saved = localStorage.getItem(DUPLICATE_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_DUPLICATE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_DUPLICATE_SETTINGS;
+  } catch (e) {
+    console.error('Failed to read duplicate check settings', e);
+    return DEFAULT_DUPLICATE_SETTINGS;
+  }
+};
+
+export const setDuplicateSettings = (settings: DuplicateCheckSettings) => {
+  localStorage.setItem(DUPLICATE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const tokenize = (content: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    if (match[0].startsWith('![') || match[0].startsWith('](')) continue;
+    const start = match.index || 0;
+    tokens.push({ word: match[0].toLowerCase().replace(/’/g, "'"), start, end: start + match[0].length });
+  }
+  return tokens;
+};
+
+// 32-bit FNV-1a; collisions only ever add a little false overlap
+const hashShingle = (words: string[]): number => {
+  let hash = 0x811c9dc5;
+  const text = words.join(' ');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const getShingles = (tokens: Token[]): number[] => {
+  const words = tokens.map(token => token.word);
+  const shingles: number[] = [];
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.push(hashShingle(words.slice(i, i + SHINGLE_SIZE)));
+  }
+  return shingles;
+};
+
+// Saved articles are replaced rather than mutated, so the record itself is a safe cache key
+const libraryCache = new WeakMap<SavedArticle, Set<number>>();
+
+const getLibraryShingles = (article: SavedArticle): Set<number> => {
+  let shingles = libraryCache.get(article);
+  if (!shingles) {
+    shingles = new Set(getShingles(tokenize(article.content)));
+    libraryCache.set(article, shingles);
+  }
+  return shingles;
+};
+
+// Similarity is the share of the open article's shingles that also occur in the saved article,
+// so a new post that reuses half of an old one scores 50% however long the old one is
+export const findDuplicates = (content: string, library: SavedArticle[], excludeId?: string | null): DuplicateMatch[] => {
+  const tokens = tokenize(content);
+  const shingles = getShingles(tokens);
+  if (shingles.length === 0) return [];
+
+  const matches: DuplicateMatch[] = [];
+  library.forEach(article => {
+    if (article.id === excludeId) return;
+    const other = getLibraryShingles(article);
+    if (other.size === 0) return;
+
+    // Mark every word covered by a shared shingle, then merge the marks into passages
+    const covered = new Array<boolean>(tokens.length).fill(false);
+    let shared = 0;
+    shingles.forEach((shingle, i) => {
+      if (!other.has(shingle)) return;
+      shared++;
+      for (let j = i; j < i + SHINGLE_SIZE; j++) covered[j] = true;
+    });
+
+    const similarity = Math.round((shared / shingles.length) * 100);
+    if (similarity < MIN_REPORTED_SIMILARITY) return;
+
+    const passages: DuplicatePassage[] = [];
+    let runStart = -1;
+    for (let i = 0; i <= tokens.length; i++) {
+      if (i < tokens.length && covered[i]) {
+        if (runStart === -1) runStart = i;
+        continue;
+      }
+      if (runStart !== -1 && i - runStart >= MIN_PASSAGE_WORDS) {
+        passages.push({ start: tokens[runStart].start, end: tokens[i - 1].end, words: i - runStart });
+      }
+      runStart = -1;
+    }
+
+    matches.push({ articleId: article.id, topic: article.topic, similarity, passages });
+  });
+
+  return matches.sort((a, b) => b.similarity - a.similarity).slice(0, MAX_MATCHES);
+};
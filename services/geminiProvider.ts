@@ -0,0 +1,272 @@
+import { GoogleGenAI, Type, GenerateContentResponse, Schema, FinishReason } from "@google/genai";
+import { ImageSize, UsageOperation } from '../types';
+import type { ModelProvider, JsonSchema, JsonRequest, GroundingSource, Citation } from './modelProvider';
+import { checkBudget, reserveBudget, recordUsage, estimateCost, approximateTokens } from './usageTracker';
+import { SafetyBlockedError } from './aiErrors';
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const PRO_IMAGE_MODEL = 'gemini-3-pro-image-preview';
+
+const getAiClient = () => {
+  // Use process.env.API_KEY exclusively as per guidelines.
+  // The environment handles injection of the key selected via aistudio.
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+}
+
+// Gemini expects upper-case OpenAPI type names (Type.STRING etc.)
+const toGeminiSchema = (schema: JsonSchema): Schema => {
+  const result: Schema = {
+    type: schema.type.toUpperCase() as Type,
+  };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+const extractSources = (response: GenerateContentResponse): GroundingSource[] => {
+  const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  return groundingChunks
+    .filter(chunk => chunk.web?.uri)
+    .map(chunk => ({ title: chunk.web?.title || 'Source', uri: chunk.web?.uri || '' }));
+};
+
+// Segment offsets are bytes within a single part, so the supported text itself is kept and located later.
+// Chunk indices are mapped through their URIs onto the de-duplicated source list.
+const extractCitations = (response: GenerateContentResponse, sources: GroundingSource[]): Citation[] => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const chunkUris = (metadata?.groundingChunks || []).map(chunk => chunk.web?.uri || '');
+  return (metadata?.groundingSupports || []).flatMap(support => {
+    const text = support.segment?.text;
+    const sourceIndices = (support.groundingChunkIndices || [])
+      .map(index => sources.findIndex(source => source.uri === chunkUris[index]))
+      .filter(index => index !== -1);
+    return text && sourceIndices.length > 0 ? [{ text, sourceIndices }] : [];
+  });
+};
+
+const extractImage = (response: GenerateContentResponse): string | null => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      const base64EncodeString = part.inlineData.data;
+      return `data:image/png;base64,${base64EncodeString}`;
+    }
+  }
+  return null;
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Safety blocks come back as an ordinary response with no content, so turn them into an error
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyBlockedError(`The model's safety filters blocked this request (${blockReason || finishReason}).`);
+  }
+};
+
+// Thinking tokens are billed as output, so they are counted with the candidates
+const logUsage = (
+  response: GenerateContentResponse | undefined,
+  model: string,
+  operation: UsageOperation,
+  fallback: { prompt: string; output: string },
+  image?: { count: number; size: ImageSize }
+) => {
+  const usage = response?.usageMetadata;
+  recordUsage({
+    provider: 'gemini',
+    model,
+    operation,
+    inputTokens: usage?.promptTokenCount ?? approximateTokens(fallback.prompt),
+    outputTokens: usage
+      ? (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0)
+      : approximateTokens(fallback.output),
+    imageCount: image?.count || 0,
+    imageSize: image?.size,
+  });
+};
+
+// Strip the data:image/...;base64, prefix
+const toBase64 = (dataUrl: string) => dataUrl.replace(/^data:image\/\w+;base64,/, '');
+
+export const createGeminiProvider = (): ModelProvider => ({
+  id: 'gemini',
+  supportsSearch: true,
+
+  streamText: async (request, onChunk) => {
+    checkBudget();
+    const ai = getAiClient();
+    const response = await ai.models.generateContentStream({
+      model: TEXT_MODEL,
+      contents: request.prompt,
+      config: {
+        temperature: request.temperature,
+        topP: request.topP,
+        topK: request.topK,
+        tools: request.useSearch ? [{ googleSearch: {} }] : undefined,
+        abortSignal: request.signal,
+      }
+    });
+
+    let text = '';
+    // Usage metadata arrives with the last chunk; a stopped stream is still billed for what it produced
+    let usageChunk: GenerateContentResponse | undefined;
+    // Grounding metadata can be repeated across chunks, so de-duplicate by URI
+    const sources = new Map<string, GroundingSource>();
+    const citations: Citation[] = [];
+    let finishReason: string | undefined;
+    try {
+      for await (const chunk of response) {
+        request.signal?.throwIfAborted();
+        if (chunk.text) {
+          text += chunk.text;
+          onChunk(chunk.text);
+        }
+        if (chunk.usageMetadata) usageChunk = chunk;
+        extractSources(chunk).forEach(source => sources.set(source.uri, source));
+        citations.push(...extractCitations(chunk, Array.from(sources.values())));
+        finishReason = chunk.candidates?.[0]?.finishReason || finishReason;
+        assertNotBlocked(chunk);
+      }
+    } finally {
+      logUsage(usageChunk, TEXT_MODEL, 'text', { prompt: request.prompt, output: text });
+    }
+    return { text, sources: Array.from(sources.values()), citations, truncated: finishReason === FinishReason.MAX_TOKENS };
+  },
+
+  generateText: async (request) => {
+    checkBudget();
+    const ai = getAiClient();
+    const response = await ai.models.generateContent({
+      model: TEXT_MODEL,
+      contents: request.prompt,
+      config: {
+        temperature: request.temperature,
+        topP: request.topP,
+        topK: request.topK,
+        tools: request.useSearch ? [{ googleSearch: {} }] : undefined,
+        abortSignal: request.signal,
+      }
+    });
+    logUsage(response, TEXT_MODEL, 'text', { prompt: request.prompt, output: response.text || '' });
+    assertNotBlocked(response);
+    const sources = extractSources(response);
+    return {
+      text: response.text || '',
+      sources,
+      citations: extractCitations(response, sources),
+      truncated: response.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS,
+    };
+  },
+
+  generateJson: async <T>(request: JsonRequest) => {
+    checkBudget();
+    const ai = getAiClient();
+    const response = await ai.models.generateContent({
+      model: TEXT_MODEL,
+      contents: request.prompt,
+      config: {
+        temperature: request.temperature,
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.schema),
+        abortSignal: request.signal,
+      }
+    });
+    logUsage(response, TEXT_MODEL, 'json', { prompt: request.prompt, output: response.text || '' });
+    assertNotBlocked(response);
+    return JSON.parse(response.text || 'null') as T;
+  },
+
+  generateImage: async (request) => {
+    const ai = getAiClient();
+
+    let model = IMAGE_MODEL;
+    const imageConfig: { aspectRatio: string; imageSize?: string } = {
+      aspectRatio: request.aspectRatio
+    };
+
+    if (request.size === ImageSize.S_2K || request.size === ImageSize.S_4K) {
+      model = PRO_IMAGE_MODEL;
+      imageConfig.imageSize = request.size;
+    }
+
+    const release = reserveBudget(estimateCost({
+      model, inputTokens: 0, outputTokens: 0, imageCount: 1, imageSize: request.size,
+    }));
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({
+        model: model,
+        contents: {
+          parts: [{ text: request.prompt }]
+        },
+        config: {
+          imageConfig: imageConfig,
+          abortSignal: request.signal,
+        }
+      });
+    } finally {
+      release();
+    }
+    const image = extractImage(response);
+    logUsage(response, model, 'image', { prompt: request.prompt, output: '' }, image ? { count: 1, size: request.size } : undefined);
+    assertNotBlocked(response);
+    return image;
+  },
+
+  editImage: async (request) => {
+    const ai = getAiClient();
+
+    const parts: any[] = [
+      {
+        inlineData: {
+          mimeType: 'image/png', // Assuming PNG from previous generation
+          data: toBase64(request.image),
+        },
+      }
+    ];
+
+    let promptText = request.prompt;
+    if (request.mask) {
+      parts.push({
+        inlineData: {
+          mimeType: 'image/png',
+          data: toBase64(request.mask)
+        }
+      });
+      promptText = `Edit the first image based on the mask provided in the second image. The white pixels in the mask indicate the area to be modified. Modification instruction: ${request.prompt}`;
+    }
+    parts.push({ text: promptText });
+
+    const release = reserveBudget(estimateCost({
+      model: IMAGE_MODEL, inputTokens: 0, outputTokens: 0, imageCount: 1, imageSize: ImageSize.S_1K,
+    }));
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+          parts: parts,
+        },
+        config: {
+          abortSignal: request.signal,
+        },
+      });
+    } finally {
+      release();
+    }
+    const image = extractImage(response);
+    logUsage(response, IMAGE_MODEL, 'image-edit', { prompt: promptText, output: '' }, image ? { count: 1, size: ImageSize.S_1K } : undefined);
+    assertNotBlocked(response);
+    return image;
+  },
+});
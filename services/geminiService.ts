@@ -1,73 +1,42 @@
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { ArticleConfig, ImageSize, AspectRatio, ArticleType, Length } from '../types';
-
-const getAiClient = () => {
-  // Use process.env.API_KEY exclusively as per guidelines. 
-  // The environment handles injection of the key selected via aistudio.
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
-}
-
-// Helper to handle 503 Overloaded errors with exponential backoff
-const retryWithBackoff = async <T>(
-  operation: () => Promise<T>,
-  retries: number = 3,
-  delay: number = 1000
-): Promise<T> => {
-  try {
-    return await operation();
-  } catch (error: any) {
-    // Check for common overload indicators in Gemini API errors
-    const isOverloaded = 
-      error?.status === 503 || 
-      error?.code === 503 || 
-      (error?.message && typeof error.message === 'string' && (
-          error.message.includes('503') || 
-          error.message.toLowerCase().includes('overloaded')
-      ));
-
-    if (retries > 0 && isOverloaded) {
-      console.warn(`Model overloaded. Retrying in ${delay}ms... (Attempts left: ${retries})`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return retryWithBackoff(operation, retries - 1, delay * 2);
-    }
-    throw error;
-  }
+import { ArticleConfig, ArticleKeywords, ArticleOutline, OutlineSection, BrandStyleGuide, GeneratedArticle, HeadlineSet, Language, OriginalityReport, SeoMetadata, ImageSize, AspectRatio, Length, SectionAction, SelectionRewrite, SocialPlatform, SocialPosts } from '../types';
+import { getProvider, isAbortError, GroundingSource, JsonSchema, ModelProvider, TextRequest, TextResult } from './modelProvider';
+import { compactImageData, extractImageLines, getH1, replaceSection, splitSections } from './markdownSections';
+import { withRetry } from './retryPolicy';
+import { renderPrompt } from './promptTemplates';
+import { getFormatForCategory } from './articleFormats';
+import { getBrandVoice, formatBrandVoice } from './brandVoices';
+import { protectImages, restoreImages } from './translations';
+import { normalizeSeoMetadata } from './seoMetadata';
+import { normalizeOriginalityReport, RawOriginalityReport } from './originalityReport';
+import { getSearchBackend } from './searchBackend';
+import { insertCitationMarkers, normalizeCitationMarkers, finalizeCitations, splitReferences, REFERENCES_HEADING } from './citations';
+import { countArticleWords, describeWordTarget, getAcceptedRange } from './wordCount';
+import { createContinuationStream, looksCutOff } from './continuation';
+import { createHeadlineSet } from './headlines';
+import { normalizeSocialPosts } from './socialPosts';
+
+// A stream that has already produced text can't be replayed without duplicating it,
+// so retries only happen while nothing has been emitted yet
+const streamWithRetry = (provider: ModelProvider, request: TextRequest, onChunk: (text: string) => void) => {
+  let emitted = false;
+  return withRetry(
+    () => provider.streamText(request, (text) => { emitted = true; onChunk(text); }),
+    { signal: request.signal, canRetry: () => !emitted }
+  );
 };
 
-export const streamArticleGeneration = async (
-  config: ArticleConfig,
-  onChunk: (text: string) => void
-): Promise<void> => {
-  const ai = getAiClient();
-  const model = 'gemini-2.5-flash';
-
-  let structureInstructions = '';
-
-  if (config.type === ArticleType.FOOD) {
-      structureInstructions = `
-      3. **Structure (Recipe Format)**:
-       - H1: Mouth-watering, descriptive title.
-       - **Introduction**: Engaging story or description of the dish, flavor profile, and why it's special.
-       - **Recipe Facts**: Present the following data in a **Markdown Table** with columns: Prep Time, Cook Time, Total Time, Servings, Calories/Serving.
-       - **Ingredients**: Clear bulleted list with precise measurements.
-       - **Instructions**: Numbered, step-by-step cooking directions.
-       - **Nutritional Breakdown**: Estimated protein, carbs, and fat per serving.
-       - **Chef's Tips**: Specific advice for best results or variations.
-       - Conclusion: Serving suggestions.
-      `;
-  } else {
-      structureInstructions = `
-      3. **Structure**: 
-       - H1: Engaging, click-worthy title.
-       - Intro: Hook the reader immediately with a question, stat, or bold claim.
-       - Body: Use H2/H3, bullet points, and **bold** text for scannability.
-       - Conclusion: Actionable summary, no fluff.
-      `;
-  }
+// Output limits end a stream without an error, so the finish reason and the text itself are both checked
+const toGeneratedArticle = ({ text, truncated }: TextResult): GeneratedArticle => ({
+  content: text,
+  isComplete: !truncated && !looksCutOff(text),
+});
 
-  let genZStyle = '';
-  if (config.length.includes(Length.GEN_Z)) {
-    genZStyle = `
+const getStructureInstructions = (config: ArticleConfig): string =>
+  `\n${getFormatForCategory(config.type).structure}\n`;
+
+const getGenZStyle = (config: ArticleConfig): string => {
+  if (!config.length.includes(Length.GEN_Z)) return '';
+  return `
     STYLE OVERRIDE: GEN Z MODE ACTIVE ⚡️
     - Vibe: Chaotic good, authentic, unhinged but helpful.
     - Formatting: Aesthetic > Formal. Use lowercase headings if it fits the vibe.
@@ -76,121 +45,540 @@ export const streamArticleGeneration = async (
     - Structure: Extremely short paragraphs. Attention span is low. Get to the point.
     - Tone: Relatable bestie.
     `;
-  }
+};
 
-  const prompt = `
-    You are an elite Senior Content Writer and SEO Expert.
-    Your absolute priority is to write a **100% original, human-quality article** that is safe for AdSense and ranks high on Google.
-    
-    TARGET: **95%+ Originality Score** (Must pass AI detection and Plagiarism checks).
+const getBrandVoiceBlock = (config: ArticleConfig): string => {
+  const profile = getBrandVoice(config.brandVoiceId);
+  return profile ? formatBrandVoice(profile, config.brandVoiceMode || 'alongside') : '';
+};
 
+// The Length cards set the style; a word target, when given, sets the size
+const getLengthLine = (config: ArticleConfig): string =>
+  config.targetWords
+    ? `${config.length.join(', ')}, ${describeWordTarget(config.targetWords)} (excluding image lines)`
+    : config.length.join(', ');
+
+// With a replacing brand voice the Tone pill is ignored
+const getToneLine = (config: ArticleConfig): string =>
+  config.brandVoiceMode === 'replace' && getBrandVoice(config.brandVoiceId)
+    ? 'Follow the BRAND VOICE below'
+    : `${config.tone} (Must sound authentic, not robotic)`;
+
+const getSpecifications = (config: ArticleConfig): string => `
     SPECIFICATIONS:
     - **Topic**: ${config.topic}
     - **Category**: ${config.type}
     - **Keywords**: ${config.keywords || 'Natural, high-traffic keywords'}
-    - **Tone**: ${config.tone} (Must sound authentic, not robotic)
-    - **Length**: ${config.length}
+    - **Tone**: ${getToneLine(config)}
+    - **Length**: ${getLengthLine(config)}
     - **Language**: ${config.language}
     - **Instructions**: ${config.additionalInstructions || 'None'}
+${getBrandVoiceBlock(config)}`;
+
+// Values for the {{variables}} of the article prompt template
+const getArticleVariables = (config: ArticleConfig): Record<string, string> => ({
+  topic: config.topic,
+  category: config.type,
+  keywords: config.keywords || 'Natural, high-traffic keywords',
+  tone: config.tone,
+  length: getLengthLine(config),
+  language: config.language,
+  instructions: config.additionalInstructions || 'None',
+  specifications: getSpecifications(config),
+  brandVoice: getBrandVoiceBlock(config),
+  genZStyle: getGenZStyle(config),
+  structure: getStructureInstructions(config),
+  guidelines: renderPrompt('guidelines'),
+});
+
+// Sampling settings shared by every long-form writing call
+const WRITING_SAMPLING = {
+  temperature: 0.95, // Increased slightly for Gen Z creativity
+  topP: 0.95,
+  topK: 40,
+};
 
-    ${genZStyle}
+// Grounded articles either search through the configured backend and hand the numbered results to the model,
+// or let a provider with its own search tool find sources and report which passages they support
+const streamGroundedArticle = async (
+  provider: ModelProvider,
+  config: ArticleConfig,
+  prompt: string,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<GeneratedArticle> => {
+  const backend = getSearchBackend();
+
+  if (backend) {
+    const query = `${config.topic} ${config.keywords}`.trim();
+    const results = await withRetry(() => backend.search(query, signal), { signal });
+    if (results.length === 0) throw new Error('The search returned no sources for this topic. Turn off Cite Sources or try a different topic.');
+    const groundedPrompt = `${prompt}\n\n${renderPrompt('grounding', {
+      sources: results.map((result, i) => `[${i + 1}] ${result.title} (${result.uri})\n${result.snippet}`).join('\n\n'),
+      citationRule: 'After each sentence that uses a source, add its marker, e.g. [^2]. Only cite the numbered sources above.',
+    })}`;
+    const result = await streamWithRetry(provider, { prompt: groundedPrompt, ...WRITING_SAMPLING, signal }, onChunk);
+    const marked = normalizeCitationMarkers(result.text, results.length);
+    const { isComplete } = toGeneratedArticle(result);
+    return { content: finalizeCitations(marked, results.map(({ title, uri }) => ({ title, uri }))).content, isComplete };
+  }
 
-    STRICT WRITING GUIDELINES FOR SAFETY & RANKING:
-    1. **Anti-Plagiarism**: Never copy-paste. Synthesize information into completely new sentences.
-    2. **Anti-AI Detection**: 
-       - Vary sentence length drastically (mix short punchy sentences with longer descriptive ones).
-       - Avoid "AI-isms" like "In the fast-paced world of...", "delve into", "unlock", "comprehensive guide".
-       - Use active voice, personal perspective, and idiomatic language.
-    ${structureInstructions}
-    4. **Value**: Focus on unique insights, specific examples, or "unpopular opinions" to differentiate from generic web content.
+  if (!provider.supportsSearch) {
+    throw new Error('Cite Sources needs web search. Set SEARCH_API_URL to a SearXNG instance to use it with a local model.');
+  }
 
-    FORMAT:
-    - Pure Markdown.
-    - No preamble. Start with the H1.
-  `;
+  const groundedPrompt = `${prompt}\n\n${renderPrompt('grounding', {
+    sources: 'Use Google Search to find current, authoritative sources (official bodies, regulators, peer-reviewed research, established publishers) for the facts you include.',
+    citationRule: 'Do not write citation markers or URLs; citations are placed automatically from your search results.',
+  })}`;
+  const result = await streamWithRetry(provider, { prompt: groundedPrompt, ...WRITING_SAMPLING, useSearch: true, signal }, onChunk);
+  const { isComplete } = toGeneratedArticle(result);
+  return { content: finalizeCitations(insertCitationMarkers(result.text, result.citations || []), result.sources).content, isComplete };
+};
+
+// Expansion passes before a short article is handed back as it is; each pass measures again first
+const MAX_LENGTH_PASSES = 2;
+// Thinnest sections expanded per pass
+const MAX_SECTIONS_PER_PASS = 3;
+
+// Checks a finished article against config.targetWords. A short article that was cut off is continued
+// through onChunk; a complete one gets its thinnest sections expanded, and onRevise receives the whole
+// article when expansion starts and after each section. A failed top-up leaves the article short, not broken.
+const meetWordTarget = async (
+  config: ArticleConfig,
+  article: GeneratedArticle,
+  onChunk: (text: string) => void,
+  onRevise: ((article: string) => void) | undefined,
+  signal?: AbortSignal
+): Promise<GeneratedArticle> => {
+  const target = config.targetWords;
+  if (!target) return article;
+  const { min } = getAcceptedRange(target);
+  let current = article.content;
+  let isComplete = article.isComplete;
 
   try {
-    const response = await retryWithBackoff<AsyncIterable<GenerateContentResponse>>(() => ai.models.generateContentStream({
-      model: model,
-      contents: prompt,
-      config: {
-        temperature: 0.95, // Increased slightly for Gen Z creativity
-        topP: 0.95,
-        topK: 40,
-      }
-    }));
+    if (countArticleWords(current) < min && !isComplete) {
+      ({ content: current, isComplete } = await continueArticleGeneration(config, current, onChunk, signal));
+    }
 
-    for await (const chunk of response) {
-      if (chunk.text) {
-        onChunk(chunk.text);
+    for (let pass = 0; pass < MAX_LENGTH_PASSES; pass++) {
+      const words = countArticleWords(current);
+      if (words >= min) break;
+      const thinnest = splitSections(current)
+        .filter(section => section.heading && section.heading !== REFERENCES_HEADING)
+        .map(section => ({ section, words: countArticleWords(section.markdown) }))
+        .sort((a, b) => a.words - b.words)
+        .slice(0, MAX_SECTIONS_PER_PASS);
+      if (thinnest.length === 0) break;
+      onRevise?.(current);
+
+      // Last section first, so replacing one never shifts the offsets of those still to come
+      // Only the shortfall is added, never more than would take the article past target.max
+      const topUp = Math.min(min - words, target.max - words);
+      const share = Math.ceil(topUp / thinnest.length);
+      for (const { section, words: sectionWords } of thinnest.sort((a, b) => b.section.start - a.section.start)) {
+        const images = extractImageLines(section.markdown);
+        let expanded = '';
+        await rewriteSection(config, current, section.markdown, 'expand', (chunk) => { expanded += chunk; },
+          `Bring this section to about ${sectionWords + share} words; the whole article must reach ${describeWordTarget(target)}.`, signal);
+        if (!expanded.trim()) continue;
+        current = replaceSection(current, section, images.length > 0 ? `${expanded.trim()}\n\n${images.join('\n\n')}` : expanded);
+        onRevise?.(current);
       }
     }
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error bringing article up to its word target:", error);
+  }
+  return { content: current, isComplete };
+};
+
+// Resolves to the finished article and whether it reached its end. The content can differ from the streamed
+// text: grounded mode adds citation markers and References once the whole article is in, and a word target
+// can expand sections (see onRevise).
+export const streamArticleGeneration = async (
+  config: ArticleConfig,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal,
+  onRevise?: (article: string) => void
+): Promise<GeneratedArticle> => {
+  const provider = getProvider();
+
+  const prompt = renderPrompt('article', getArticleVariables(config));
+
+  try {
+    const article = config.grounded
+      ? await streamGroundedArticle(provider, config, prompt, onChunk, signal)
+      : toGeneratedArticle(await streamWithRetry(provider, { prompt, ...WRITING_SAMPLING, signal }, onChunk));
+    return await meetWordTarget(config, article, onChunk, onRevise, signal);
   } catch (error) {
     console.error("Error generating content:", error);
     throw error;
   }
 };
 
-export const suggestKeywords = async (
-  topic: string,
-  type: string
-): Promise<string[]> => {
-  const ai = getAiClient();
-  const model = 'gemini-2.5-flash';
+const OUTLINE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'The H1 title of the article' },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          heading: { type: 'string', description: 'H2 heading' },
+          subheadings: { type: 'array', items: { type: 'string' }, description: 'H3 headings inside this section' },
+          keyPoints: { type: 'array', items: { type: 'string' } },
+          targetWords: { type: 'integer' }
+        },
+        required: ['heading', 'subheadings', 'keyPoints', 'targetWords']
+      }
+    }
+  },
+  required: ['title', 'sections']
+};
+
+// Local models don't enforce the schema, so every field is defaulted before the editor maps over it
+const normalizeOutline = (raw: any, fallbackTitle: string): ArticleOutline => {
+  const toText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  const toList = (value: unknown) => Array.isArray(value) ? value.map(toText).filter(Boolean) : [];
+  return {
+    title: toText(raw.title) || fallbackTitle,
+    sections: raw.sections
+      .filter((section: unknown) => section && typeof section === 'object')
+      .map((section: any): OutlineSection => ({
+        heading: toText(section.heading),
+        subheadings: toList(section.subheadings),
+        keyPoints: toList(section.keyPoints),
+        targetWords: Number(section.targetWords) > 0 ? Math.round(Number(section.targetWords)) : 0,
+      })),
+  };
+};
+
+export const generateOutline = async (config: ArticleConfig, signal?: AbortSignal): Promise<ArticleOutline> => {
+  const provider = getProvider();
 
   const prompt = `
-    Generate 6-8 high-ranking, high-traffic, relevant SEO keywords (mix of short-tail and long-tail) for a blog article.
-    
-    Context:
-    - Topic: ${topic}
-    - Category: ${type}
-    
-    Return ONLY the keywords as a JSON array of strings.
+    You are an elite Senior Content Writer and SEO Expert planning an article before writing it.
+    ${getSpecifications(config)}
+    ${getGenZStyle(config)}
+
+    Produce a structured outline that follows this structure:
+    ${getStructureInstructions(config)}
+
+    RULES:
+    - "title" is the H1.
+    - Each section is one H2 with optional H3 subheadings. Do not include the introduction as a section; it is written under the H1.
+    - Give 2-5 concrete key points per section (facts, examples, angles to cover), not vague summaries.
+    - "targetWords" is the word budget for that section. The budgets should add up to the requested length.
+    - Write headings and key points in ${config.language}.
   `;
 
   try {
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING }
-        }
-      }
-    }));
+    const outline = await withRetry(() => provider.generateJson<ArticleOutline>({
+      prompt,
+      schema: OUTLINE_SCHEMA,
+      signal
+    }), { signal });
+    if (!outline || !Array.isArray(outline.sections)) {
+      throw new Error("Model returned an invalid outline");
+    }
+    return normalizeOutline(outline, config.topic);
+  } catch (error) {
+    console.error("Error generating outline:", error);
+    throw error;
+  }
+};
+
+// Writes the article one outline section at a time so each section stays on-brief
+// and the user can see exactly which part of the approved structure is being written.
+export const streamArticleFromOutline = async (
+  config: ArticleConfig,
+  outline: ArticleOutline,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal,
+  onRevise?: (article: string) => void
+): Promise<GeneratedArticle> => {
+  const provider = getProvider();
+
+  // The editor keeps blank lines while the user types; drop them here
+  const sections = outline.sections.map(section => ({
+    ...section,
+    subheadings: section.subheadings.map(h => h.trim()).filter(Boolean),
+    keyPoints: section.keyPoints.map(p => p.trim()).filter(Boolean)
+  }));
+
+  const outlineSummary = sections
+    .map((section, i) => `${i + 1}. ${section.heading}${section.subheadings.length ? ` (${section.subheadings.join('; ')})` : ''}`)
+    .join('\n');
+
+  // Title and introduction come first, written under the H1
+  const steps = [
+    {
+      brief: `
+        Write the H1 and the introduction ONLY.
+        - Start with: # ${outline.title}
+        - Then 1-3 paragraphs that hook the reader immediately with a question, stat, or bold claim.
+        - Do NOT write any H2 sections.
+      `
+    },
+    ...sections.map(section => ({
+      brief: `
+        Write ONLY this section:
+        - Start with: ## ${section.heading}
+        ${section.subheadings.length ? `- Use these H3 subheadings, in order: ${section.subheadings.map(h => `"### ${h}"`).join(', ')}` : ''}
+        - Cover these key points: ${section.keyPoints.join('; ') || 'Use your judgement'}
+        - Aim for about ${section.targetWords} words.
+      `
+    }))
+  ];
+
+  let written = '';
+  // Only the last step matters; a cut-off earlier section is followed by the next one anyway
+  let truncated = false;
+
+  try {
+    for (const step of steps) {
+      const prompt = `
+        You are an elite Senior Content Writer and SEO Expert writing one part of an approved article outline.
+        ${getSpecifications(config)}
+        ${getGenZStyle(config)}
+
+        APPROVED OUTLINE:
+        # ${outline.title}
+        ${outlineSummary}
+
+        ALREADY WRITTEN (for context only, never repeat it):
+        ${written ? written.slice(-4000) : '(nothing yet)'}
+
+        STRICT WRITING GUIDELINES:
+        ${renderPrompt('guidelines')}
+
+        YOUR TASK:
+        ${step.brief}
+
+        FORMAT:
+        - Pure Markdown.
+        - No preamble, no closing remarks about the rest of the article.
+      `;
+
+      const separator = written ? '\n\n' : '';
+      if (separator) onChunk(separator);
+      const result = await streamWithRetry(provider, { prompt, ...WRITING_SAMPLING, signal }, onChunk);
+      written += separator + result.text.trim();
+      truncated = !!result.truncated;
+    }
+    return await meetWordTarget(config, toGeneratedArticle({ text: written, sources: [], truncated }), onChunk, onRevise, signal);
+  } catch (error) {
+    console.error("Error generating content from outline:", error);
+    throw error;
+  }
+};
+
+// Picks up a stopped, failed or cut-off article where it left off. Only the continuation is streamed;
+// the result is the whole article, with any References section kept at the end.
+export const continueArticleGeneration = async (
+  config: ArticleConfig,
+  existingContent: string,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<GeneratedArticle> => {
+  const provider = getProvider();
+  const { body, references } = splitReferences(existingContent);
+  // Only the end of a long article fits in the prompt, so list every section it already has
+  const writtenHeadings = splitSections(body).filter(section => section.heading).map(section => `- ${section.heading}`);
+
+  const prompt = `
+    You are an elite Senior Content Writer and SEO Expert finishing an article that was cut off.
+    ${getSpecifications(config)}
+    ${getGenZStyle(config)}
+
+    STRICT WRITING GUIDELINES:
+    ${renderPrompt('guidelines')}
+    ${getStructureInstructions(config)}
+
+    SECTIONS ALREADY WRITTEN:
+    ${writtenHeadings.join('\n    ') || '(none yet)'}
+
+    ARTICLE SO FAR:
+    """
+    ${compactImageData(body).slice(-6000)}
+    """
+
+    YOUR TASK:
+    - Continue EXACTLY where the text above stops, even mid-sentence.
+    - Never repeat headings, sentences or sections that already exist.
+    - Complete any remaining sections the structure calls for, then finish with the conclusion.
+
+    FORMAT:
+    - Pure Markdown.
+    - Output only the continuation. No preamble.
+  `;
+
+  try {
+    const stream = createContinuationStream(body, onChunk);
+    const result = await streamWithRetry(provider, { prompt, ...WRITING_SAMPLING, signal }, stream.onChunk);
+    const content = body + stream.end();
+    return {
+      content: references ? `${content.trimEnd()}\n\n${references}` : content,
+      isComplete: !result.truncated && !looksCutOff(content),
+    };
+  } catch (error) {
+    console.error("Error continuing content:", error);
+    throw error;
+  }
+};
+
+const SECTION_TASKS: Record<SectionAction, string> = {
+  regenerate: 'Write a fresh version of this section that covers the same ground with new wording, sharper examples and better flow.',
+  expand: 'Expand this section to roughly 1.5-2x its length with more depth, concrete examples, data points or practical steps. Keep everything that is already good.',
+  shorten: 'Tighten this section to roughly half its length. Keep the key information and the strongest example; cut filler and repetition.',
+  rewrite: 'Rewrite this section following the editor instructions below.',
+};
+
+// Rewrites one H2 section (or the lead) with the rest of the article as context
+export const rewriteSection = async (
+  config: ArticleConfig,
+  article: string,
+  sectionMarkdown: string,
+  action: SectionAction,
+  onChunk: (text: string) => void,
+  instructions?: string,
+  signal?: AbortSignal
+): Promise<void> => {
+  const provider = getProvider();
+
+  const isLead = !sectionMarkdown.trimStart().startsWith('## ');
+
+  const prompt = `
+    You are an elite Senior Content Writer and SEO Expert editing ONE section of an existing article.
+    ${getSpecifications(config)}
+    ${getGenZStyle(config)}
+
+    FULL ARTICLE (context only):
+    """
+    ${compactImageData(article).substring(0, 12000)}
+    """
+
+    SECTION TO REPLACE:
+    """
+    ${compactImageData(sectionMarkdown).trim()}
+    """
+
+    YOUR TASK:
+    ${SECTION_TASKS[action]}
+    ${instructions ? `EDITOR INSTRUCTIONS: ${instructions}` : ''}
+
+    STRICT WRITING GUIDELINES:
+    ${renderPrompt('guidelines')}
+
+    RULES:
+    - ${isLead ? 'Keep the H1 line first, then the introduction. Do not add any H2 sections.' : 'Start with the same H2 heading line unless the instructions ask to change it.'}
+    - Keep the section consistent with the rest of the article and never repeat what other sections already say.
+    - Keep tables unless the instructions say otherwise. Do NOT output image lines (![...](...)); existing images are re-attached automatically.
+
+    FORMAT:
+    - Pure Markdown.
+    - Output ONLY the replacement section. No preamble.
+  `;
+
+  try {
+    await streamWithRetry(provider, { prompt, ...WRITING_SAMPLING, signal }, onChunk);
+  } catch (error) {
+    console.error("Error rewriting section:", error);
+    throw error;
+  }
+};
+
+const describeSelectionRewrite = (rewrite: SelectionRewrite): string => {
+  switch (rewrite.action) {
+    case 'rephrase': return 'Rephrase the text with fresh wording while keeping its meaning and length.';
+    case 'simplify': return 'Simplify the text: shorter sentences, plain everyday words, same meaning.';
+    case 'tone': return `Rewrite the text in a ${rewrite.tone} tone while keeping its meaning.`;
+    case 'grammar': return 'Fix grammar, spelling and punctuation only. Change as little as possible.';
+    case 'translate': return `Translate the text into ${rewrite.language}. Keep names, numbers and Markdown intact.`;
+  }
+};
+
+// Streams a replacement for a selected range of the article; the caller decides whether to apply it
+export const streamSelectionRewrite = async (
+  selectedText: string,
+  rewrite: SelectionRewrite,
+  surroundingText: string,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const provider = getProvider();
+
+  const prompt = `
+    You are a meticulous editor working on a selected passage of a Markdown article.
+
+    TASK: ${describeSelectionRewrite(rewrite)}
+
+    SURROUNDING TEXT (context only, do not rewrite it):
+    """
+    ${compactImageData(surroundingText)}
+    """
+
+    SELECTED TEXT:
+    """
+    ${selectedText}
+    """
+
+    RULES:
+    - Keep the same Markdown formatting (bold, lists, headings) the selection uses.
+    - Keep it consistent with the surrounding text so it can be dropped back in place.
+    - Output ONLY the replacement text. No quotes, no preamble, no explanation.
+  `;
+
+  try {
+    await streamWithRetry(provider, { prompt, temperature: 0.7, signal }, onChunk);
+  } catch (error) {
+    console.error("Error rewriting selection:", error);
+    throw error;
+  }
+};
+
+export const suggestKeywords = async (
+  topic: string,
+  type: string,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const provider = getProvider();
 
-    const text = response.text;
-    if (!text) return [];
-    return JSON.parse(text) as string[];
+  const prompt = renderPrompt('keywords', { topic, category: type });
+
+  try {
+    const keywords = await withRetry(() => provider.generateJson<string[]>({
+      prompt,
+      schema: {
+        type: 'array',
+        items: { type: 'string' }
+      },
+      signal
+    }), { signal });
+    return keywords || [];
   } catch (error) {
     console.error("Error suggesting keywords:", error);
-    return [];
+    throw error;
   }
 };
 
 export const suggestTopic = async (
-  type: string
+  type: string,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const ai = getAiClient();
-  const model = 'gemini-2.5-flash';
+  const provider = getProvider();
 
-  const prompt = `
-    Generate ONE engaging, search-optimized blog topic or product review title based on this category: "${type}".
-    It should be catchy, specific, and something people actually search for.
-    Return ONLY the text of the topic. Do not use quotes.
-  `;
+  const prompt = renderPrompt('topic', { category: type });
 
   try {
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-      model: model,
-      contents: prompt,
-    }));
-    return response.text?.trim() || '';
+    const response = await withRetry(() => provider.generateText({ prompt, signal }), { signal });
+    return response.text.trim();
   } catch (error) {
     console.error("Error suggesting topic:", error);
-    return '';
+    throw error;
   }
 };
 
@@ -198,209 +586,394 @@ export const generateImage = async (
   promptText: string,
   size: ImageSize = ImageSize.S_1K,
   aspectRatio: AspectRatio = AspectRatio.S_16_9,
-  count: number = 1
+  count: number = 1,
+  signal?: AbortSignal
 ): Promise<string[]> => {
-  const ai = getAiClient();
-  
-  let model = 'gemini-2.5-flash-image';
-  let imageConfig: any = {
-    aspectRatio: aspectRatio 
-  };
-
-  if (size === ImageSize.S_2K || size === ImageSize.S_4K) {
-    model = 'gemini-3-pro-image-preview';
-    imageConfig.imageSize = size;
-  }
+  const provider = getProvider();
 
   // Ensure prompt is descriptive enough for a standalone image
   const enhancedPrompt = `High quality, photorealistic image. ${promptText}. No text.`;
 
   // Function to perform a single generation
-  const generateSingle = async (): Promise<string | null> => {
-    try {
-      const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-        model: model,
-        contents: {
-          parts: [{ text: enhancedPrompt }]
-        },
-        config: {
-          imageConfig: imageConfig
-        }
-      }));
-
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          const base64EncodeString = part.inlineData.data;
-          return `data:image/png;base64,${base64EncodeString}`;
-        }
-      }
-      return null;
-    } catch (error) {
-      console.error("Error generating single image:", error);
-      return null;
-    }
-  };
+  const generateSingle = () => withRetry(() => provider.generateImage({
+    prompt: enhancedPrompt,
+    size,
+    aspectRatio,
+    signal
+  }), { signal });
 
   // Execute multiple requests in parallel if count > 1
-  try {
-    const safeCount = Math.max(1, Math.min(count, 5));
-    const promises = Array.from({ length: safeCount }, () => generateSingle());
-    const results = await Promise.all(promises);
-    return results.filter((url): url is string => url !== null);
-  } catch (error) {
-    console.error("Error generating images:", error);
-    return [];
-  }
+  const safeCount = Math.max(1, Math.min(count, 5));
+  const results = await Promise.allSettled(Array.from({ length: safeCount }, () => generateSingle()));
+  const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+  // A cancelled run must reject so callers can tell it apart from a failed image
+  const aborted = failures.find(failure => isAbortError(failure.reason));
+  if (aborted) throw aborted.reason;
+  failures.forEach(failure => console.error("Error generating single image:", failure.reason));
+
+  const urls = results.flatMap(result => result.status === 'fulfilled' && result.value ? [result.value] : []);
+  // Some images are better than none; only a total failure is reported as an error
+  if (urls.length === 0 && failures.length > 0) throw failures[0].reason;
+  return urls;
 };
 
 export const generateCoverImage = async (
   topic: string, 
   size: ImageSize,
   aspectRatio: AspectRatio,
-  count: number = 1
+  count: number = 1,
+  signal?: AbortSignal
 ): Promise<string[]> => {
-  const prompt = `Create a high-quality, modern, photorealistic cover image for a blog article about: ${topic}. 
-  The image should be professional, visually striking, and suitable for a digital publication. 
-  Avoid text in the image.`;
-  
-  return generateImage(prompt, size, aspectRatio, count);
+  const prompt = renderPrompt('coverImage', { topic });
+  return generateImage(prompt, size, aspectRatio, count, signal);
 };
 
 export const editGeneratedImage = async (
   imageBase64: string,
   prompt: string,
-  maskBase64?: string
+  maskBase64?: string,
+  signal?: AbortSignal
 ): Promise<string | null> => {
-  const ai = getAiClient();
-  // Using the flash-image model for editing
-  const model = 'gemini-2.5-flash-image';
+  const provider = getProvider();
 
-  // Strip the data:image/...;base64, prefix
-  const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
+  try {
+    return await withRetry(() => provider.editImage({
+      image: imageBase64,
+      mask: maskBase64,
+      prompt,
+      signal
+    }), { signal });
+  } catch (error) {
+    console.error("Error editing image:", error);
+    throw error;
+  }
+};
 
-  const parts: any[] = [
-    {
-      inlineData: {
-        mimeType: 'image/png', // Assuming PNG from previous generation
-        data: base64Data,
-      },
+const ORIGINALITY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    seoScore: { type: 'integer' },
+    humanScore: { type: 'integer' },
+    safetyScore: { type: 'integer' },
+    verdict: { type: 'string', enum: ['safe', 'needs_optimization', 'unsafe'] },
+    summary: { type: 'string' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: ['seo', 'human', 'safety', 'plagiarism'] },
+          severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+          issue: { type: 'string' },
+          quote: { type: 'string', description: 'Exact passage from the text' },
+          suggestion: { type: 'string' }
+        },
+        required: ['category', 'severity', 'issue', 'quote', 'suggestion']
+      }
     }
-  ];
+  },
+  required: ['seoScore', 'humanScore', 'safetyScore', 'verdict', 'summary', 'findings']
+};
+
+// Search tools can't be combined with a response schema, so overlapping pages are looked up
+// in a grounded call first and handed to the structured audit as text
+export const checkOriginality = async (content: string, signal?: AbortSignal): Promise<OriginalityReport> => {
+  const provider = getProvider();
+  const sample = content.substring(0, 8000);
+
+  try {
+    let sources: GroundingSource[] = [];
+    let webMatches = 'No web search was run. Do not report plagiarism findings.';
+    if (provider.supportsSearch) {
+      const search = await withRetry(() => provider.generateText({
+        prompt: renderPrompt('originalitySearch', { content: sample }),
+        useSearch: true,
+        signal
+      }), { signal });
+      sources = search.sources;
+      webMatches = search.text.trim() || 'No close matches found.';
+    }
+
+    const raw = await withRetry(() => provider.generateJson<RawOriginalityReport>({
+      prompt: renderPrompt('originality', { content: sample, webMatches }),
+      schema: ORIGINALITY_SCHEMA,
+      temperature: 0.2,
+      signal
+    }), { signal });
+
+    return normalizeOriginalityReport(raw, content, sources);
+  } catch (error) {
+    console.error("Error checking originality:", error);
+    throw error;
+  }
+};
+
+export const extractFocusKeyword = async (content: string, signal?: AbortSignal): Promise<string> => {
+  const provider = getProvider();
+
+  const prompt = renderPrompt('focusKeyword', { content: content.substring(0, 10000) });
 
-  let promptText = prompt;
-
-  if (maskBase64) {
-      const maskData = maskBase64.replace(/^data:image\/\w+;base64,/, '');
-      parts.push({
-          inlineData: {
-              mimeType: 'image/png',
-              data: maskData
-          }
-      });
-      promptText = `Edit the first image based on the mask provided in the second image. The white pixels in the mask indicate the area to be modified. Modification instruction: ${prompt}`;
-  } else {
-      promptText = prompt;
+  try {
+    const response = await withRetry(() => provider.generateText({ prompt, signal }), { signal });
+    return response.text.trim();
+  } catch (error) {
+    console.error("Error extracting focus keyword:", error);
+    throw error;
   }
+};
+
+const ARTICLE_KEYWORDS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    focus: { type: 'string' },
+    secondary: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['focus', 'secondary']
+};
+
+export const extractArticleKeywords = async (content: string, signal?: AbortSignal): Promise<ArticleKeywords> => {
+  const provider = getProvider();
 
-  parts.push({ text: promptText });
+  const prompt = renderPrompt('articleKeywords', { content: content.substring(0, 10000) });
 
   try {
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: parts,
-      },
-    }));
+    const result = await withRetry(() => provider.generateJson<{ focus: string; secondary: string[] }>({
+      prompt,
+      schema: ARTICLE_KEYWORDS_SCHEMA,
+      signal
+    }), { signal });
+    const focus = (result?.focus || '').trim().toLowerCase();
+    const secondary = Array.from(new Set((result?.secondary || []).map(k => k.trim().toLowerCase())))
+      .filter(k => k && k !== focus);
+    return { focus, secondary, extractedAt: Date.now() };
+  } catch (error) {
+    console.error("Error extracting article keywords:", error);
+    throw error;
+  }
+};
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        const base64EncodeString = part.inlineData.data;
-        return `data:image/png;base64,${base64EncodeString}`;
-      }
+const BRAND_STYLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    vocabulary: { type: 'array', items: { type: 'string' } },
+    sentenceRhythm: { type: 'string' },
+    bannedPhrases: { type: 'array', items: { type: 'string' } },
+    formattingHabits: { type: 'array', items: { type: 'string' } },
+    pointOfView: { type: 'string' }
+  },
+  required: ['summary', 'vocabulary', 'sentenceRhythm', 'bannedPhrases', 'formattingHabits', 'pointOfView']
+};
+
+// Builds a brand style guide from past articles; each sample is trimmed to keep the prompt bounded
+export const extractBrandVoice = async (samples: string[], signal?: AbortSignal): Promise<BrandStyleGuide> => {
+  const provider = getProvider();
+
+  const prompt = renderPrompt('brandVoice', {
+    samples: samples.map((sample, i) => `SAMPLE ${i + 1}:\n${sample.substring(0, 4000)}`).join('\n\n'),
+  });
+
+  try {
+    const guide = await withRetry(() => provider.generateJson<BrandStyleGuide>({
+      prompt,
+      schema: BRAND_STYLE_SCHEMA,
+      signal
+    }), { signal });
+    if (!guide || typeof guide.summary !== 'string' || !Array.isArray(guide.vocabulary)) {
+      throw new Error("Model returned an invalid style guide");
     }
-    return null;
+    // Local models don't enforce the schema; a missing list would break every prompt built from this voice
+    const toText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+    const toList = (value: unknown) => Array.isArray(value) ? value.map(toText).filter(Boolean) : [];
+    return {
+      summary: guide.summary.trim(),
+      vocabulary: toList(guide.vocabulary),
+      sentenceRhythm: toText(guide.sentenceRhythm),
+      bannedPhrases: toList(guide.bannedPhrases),
+      formattingHabits: toList(guide.formattingHabits),
+      pointOfView: toText(guide.pointOfView),
+    };
   } catch (error) {
-    console.error("Error editing image:", error);
+    console.error("Error extracting brand voice:", error);
     throw error;
   }
 };
 
-export const checkOriginality = async (content: string): Promise<string> => {
-  const ai = getAiClient();
-  const model = 'gemini-2.5-flash';
-
-  const checkPrompt = `
-    You are a strict Content Safety & SEO Auditor.
-    Analyze the text below for SEO effectiveness, Human-like writing style, and AdSense safety.
-    
-    CRITERIA:
-    1. **SEO**: Keyword usage, heading structure, and engagement.
-    2. **Human-Like**: Assess for robotic patterns, repetition, and natural flow (simulate an AI detection check).
-    3. **Safety**: Plagiarism risks and AdSense compliance.
-    
-    OUTPUT FORMAT (Markdown):
-    **SEO Score**: [0-100] / 100
-    **Human Score**: [0-100]%
-    **Safety Score**: [0-100]%
-    **Verdict**: [Safe to Publish / Needs Optimization]
-    
-    **Analysis**:
-    - [Concise insight on SEO]
-    - [Concise insight on Human/Safety qualities]
-
-    Text (sample):
-    "${content.substring(0, 3000)}..."
-  `;
+const getLocalizationRules = (targetLanguage: Language) => `
+LOCALIZE for readers who speak ${targetLanguage}:
+- Convert prices to the currency most of these readers use, with approximate amounts and the local number format.
+- Convert units (imperial/metric, temperatures, dates) to local conventions.
+- Swap examples, brands, holidays and cultural references that would not make sense locally for local equivalents.
+- Keep product names, model numbers and quoted specifications unchanged.`;
+
+// Translates a whole article; image URLs never reach the model and are restored afterwards
+export const translateArticle = async (
+  content: string,
+  sourceLanguage: Language,
+  targetLanguage: Language,
+  localize: boolean,
+  signal?: AbortSignal
+): Promise<string> => {
+  const provider = getProvider();
+  const { text, images } = protectImages(content);
+
+  const prompt = renderPrompt('translate', {
+    sourceLanguage,
+    targetLanguage,
+    localization: localize ? getLocalizationRules(targetLanguage) : '',
+    content: text,
+  });
 
   try {
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-      model: model,
-      contents: checkPrompt,
-      config: {
-        tools: [{ googleSearch: {} }]
+    const response = await withRetry(() => provider.generateText({ prompt, temperature: 0.3, signal }), { signal });
+    return restoreImages(response.text.trim(), images);
+  } catch (error) {
+    console.error("Error translating article:", error);
+    throw error;
+  }
+};
+
+const SEO_METADATA_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    seoTitle: { type: 'string' },
+    metaDescription: { type: 'string' },
+    slug: { type: 'string' },
+    excerpt: { type: 'string' },
+    ogTitle: { type: 'string' },
+    ogDescription: { type: 'string' },
+    twitterTitle: { type: 'string' },
+    twitterDescription: { type: 'string' }
+  },
+  required: ['seoTitle', 'metaDescription', 'slug', 'excerpt', 'ogTitle', 'ogDescription', 'twitterTitle', 'twitterDescription']
+};
+
+// Length limits are re-applied locally since models routinely overshoot them
+export const generateSeoMetadata = async (
+  content: string,
+  config: ArticleConfig,
+  focusKeyword?: string | null,
+  signal?: AbortSignal
+): Promise<SeoMetadata> => {
+  const provider = getProvider();
+
+  const prompt = renderPrompt('seoMetadata', {
+    topic: config.topic,
+    keywords: focusKeyword || config.keywords || 'Infer them from the article',
+    language: config.language,
+    content: compactImageData(content).substring(0, 6000),
+  });
+
+  try {
+    const raw = await withRetry(() => provider.generateJson<Partial<SeoMetadata>>({
+      prompt,
+      schema: SEO_METADATA_SCHEMA,
+      signal
+    }), { signal });
+    if (!raw || typeof raw.seoTitle !== 'string') {
+      throw new Error("Model returned invalid SEO metadata");
+    }
+    return normalizeSeoMetadata(raw, config.topic);
+  } catch (error) {
+    console.error("Error generating SEO metadata:", error);
+    throw error;
+  }
+};
+
+const HEADLINES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    headlines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          formula: { type: 'string', enum: ['listicle', 'howTo', 'question', 'numberLed', 'curiosityGap'] }
+        },
+        required: ['text', 'formula']
       }
-    }));
-    
-    let resultText = response.text || '';
-    
-    // Append search results if available
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (groundingChunks && groundingChunks.length > 0) {
-       resultText += "\n\n**Found Sources (Potential overlaps):**\n";
-       groundingChunks.forEach((chunk: any) => {
-         if (chunk.web?.uri) {
-           resultText += `- [${chunk.web.title || 'Source'}](${chunk.web.uri})\n`;
-         }
-       });
     }
+  },
+  required: ['headlines']
+};
 
-    return resultText;
+// Scoring happens locally (see headlines.ts), so only the text and formula are asked for
+export const generateHeadlines = async (
+  content: string,
+  config: ArticleConfig,
+  keyword: string | null,
+  signal?: AbortSignal
+): Promise<HeadlineSet> => {
+  const provider = getProvider();
+
+  const prompt = renderPrompt('headlines', {
+    topic: config.topic,
+    keyword: keyword || 'the article\'s main topic',
+    language: config.language,
+    currentTitle: getH1(content) || config.topic,
+    content: compactImageData(content).substring(0, 4000),
+  });
+
+  try {
+    const result = await withRetry(() => provider.generateJson<{ headlines: { text: string; formula: string }[] }>({
+      prompt,
+      schema: HEADLINES_SCHEMA,
+      temperature: 0.9,
+      signal
+    }), { signal });
+    if (!Array.isArray(result?.headlines)) {
+      throw new Error("Model returned invalid headlines");
+    }
+    return createHeadlineSet(result.headlines, keyword, config.language);
   } catch (error) {
-    console.error("Error checking originality:", error);
+    console.error("Error generating headlines:", error);
     throw error;
   }
 };
 
-export const extractFocusKeyword = async (content: string): Promise<string> => {
-  const ai = getAiClient();
-  const model = 'gemini-2.5-flash';
-
-  const prompt = `
-    Analyze the following text and identify the single most important SEO focus keyword or keyphrase.
-    Return ONLY the keyword/keyphrase as a plain string. Do not use quotes or markdown.
+const SOCIAL_POSTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    x: { type: 'array', items: { type: 'string' } },
+    linkedin: { type: 'string' },
+    instagram: { type: 'string' },
+    pinterest: { type: 'string' },
+    facebook: { type: 'string' }
+  },
+  required: ['x', 'linkedin', 'instagram', 'pinterest', 'facebook']
+};
 
-    Text:
-    "${content.substring(0, 10000)}"
-  `;
+// Character limits are only asked for; the panel counts them locally so overshoots show up
+export const repurposeArticle = async (
+  content: string,
+  config: ArticleConfig,
+  link: string | null,
+  signal?: AbortSignal
+): Promise<SocialPosts> => {
+  const provider = getProvider();
+
+  const prompt = renderPrompt('socialPosts', {
+    topic: config.topic,
+    language: config.language,
+    tone: config.tone,
+    link: link || 'Not published yet. Write "Link in comments" where the link would go.',
+    content: compactImageData(splitReferences(content).body).substring(0, 8000),
+  });
 
   try {
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-      model: model,
-      contents: prompt,
-    }));
-    return response.text?.trim() || '';
+    const raw = await withRetry(() => provider.generateJson<Partial<Record<SocialPlatform, string | string[]>>>({
+      prompt,
+      schema: SOCIAL_POSTS_SCHEMA,
+      signal
+    }), { signal });
+    if (!raw || typeof raw !== 'object') {
+      throw new Error("Model returned invalid social posts");
+    }
+    return normalizeSocialPosts(raw);
   } catch (error) {
-    console.error("Error extracting focus keyword:", error);
-    return '';
+    console.error("Error repurposing article:", error);
+    throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,146 @@
+import { HeadlineFormula, HeadlineScore, HeadlineSet, HeadlineTone, HeadlineVariant, Language } from '../types';
+
+// Local, deterministic headline scoring: same headline, same score, no model calls.
+
+export const HEADLINE_FORMULAS: Record<HeadlineFormula, string> = {
+  listicle: 'Listicle',
+  howTo: 'How-to',
+  question: 'Question',
+  numberLed: 'Number-led',
+  curiosityGap: 'Curiosity gap',
+};
+
+const PART_MAX = 25;
+
+// Search results usually show about 60 characters of a title
+const IDEAL_LENGTH = { min: 40, max: 60 };
+const ACCEPTABLE_LENGTH = { min: 30, max: 70 };
+
+// Word lists only exist for English; other languages skip those parts instead of scoring zero
+const POWER_WORDS = new Set([
+  'amazing', 'best', 'proven', 'easy', 'essential', 'ultimate', 'simple', 'secret', 'secrets', 'surprising',
+  'instantly', 'free', 'new', 'now', 'fast', 'quick', 'complete', 'definitive', 'powerful', 'effortless',
+  'guaranteed', 'expert', 'exclusive', 'little-known', 'mistakes', 'truth', 'why', 'how', 'stop', 'avoid',
+  'never', 'always', 'everything', 'smart', 'genius', 'hacks', 'tips', 'tricks', 'step-by-step', 'beginner',
+  'crucial', 'critical', 'unexpected', 'shocking', 'remarkable', 'brilliant', 'boost', 'save', 'cheap', 'affordable',
+]);
+
+const POSITIVE_WORDS = new Set([
+  'best', 'easy', 'better', 'great', 'love', 'win', 'success', 'successful', 'happy', 'free', 'save', 'boost',
+  'improve', 'grow', 'smart', 'simple', 'perfect', 'brilliant', 'amazing', 'effortless', 'proven', 'top', 'ultimate',
+]);
+
+const NEGATIVE_WORDS = new Set([
+  'worst', 'mistake', 'mistakes', 'avoid', 'stop', 'never', 'fail', 'failure', 'bad', 'wrong', 'problem', 'problems',
+  'risk', 'risks', 'danger', 'dangerous', 'lose', 'waste', 'hate', 'myth', 'myths', 'warning', 'killing', 'ruin',
+]);
+
+const words = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}'-]+/gu) || [];
+
+const scoreLength = (text: string): number => {
+  const length = text.length;
+  if (length >= IDEAL_LENGTH.min && length <= IDEAL_LENGTH.max) return PART_MAX;
+  if (length >= ACCEPTABLE_LENGTH.min && length <= ACCEPTABLE_LENGTH.max) return 15;
+  return 5;
+};
+
+// One or two power words lift a headline; piling them on reads as clickbait
+const scorePowerWords = (headlineWords: string[]): number => {
+  const count = headlineWords.filter(word => POWER_WORDS.has(word)).length;
+  if (count === 0) return 5;
+  return count <= 2 ? PART_MAX : 15;
+};
+
+const scoreKeyword = (text: string, keyword: string): number => {
+  const lower = text.toLowerCase();
+  if (lower.includes(keyword)) {
+    // Early placement matters most since long titles get truncated
+    return lower.indexOf(keyword) <= IDEAL_LENGTH.max - keyword.length ? PART_MAX : 20;
+  }
+  const headlineWords = new Set(words(text));
+  return words(keyword).every(word => headlineWords.has(word)) ? 12 : 0;
+};
+
+// Clearly positive or negative headlines tend to outperform flat ones; mixed signals score lowest
+const scoreSentiment = (headlineWords: string[]): { score: number; tone: HeadlineTone } => {
+  const positive = headlineWords.filter(word => POSITIVE_WORDS.has(word)).length;
+  const negative = headlineWords.filter(word => NEGATIVE_WORDS.has(word)).length;
+  if (positive && negative) return { score: 10, tone: positive >= negative ? 'positive' : 'negative' };
+  if (positive) return { score: PART_MAX, tone: 'positive' };
+  if (negative) return { score: 20, tone: 'negative' };
+  return { score: 12, tone: 'neutral' };
+};
+
+export const scoreHeadline = (text: string, keyword: string | null, language: Language): HeadlineScore => {
+  const headlineWords = words(text);
+  const normalizedKeyword = keyword?.trim().toLowerCase() || '';
+  const hasWordLists = language === Language.ENGLISH;
+  const sentiment = hasWordLists ? scoreSentiment(headlineWords) : null;
+
+  const parts = {
+    length: scoreLength(text),
+    powerWords: hasWordLists ? scorePowerWords(headlineWords) : null,
+    keyword: normalizedKeyword ? scoreKeyword(text, normalizedKeyword) : null,
+    sentiment: sentiment ? sentiment.score : null,
+  };
+  // Parts that can't be judged are left out, so the total stays on a 0-100 scale
+  const judged = Object.values(parts).filter((score): score is number => score !== null);
+  const total = Math.round((judged.reduce((sum, score) => sum + score, 0) / (judged.length * PART_MAX)) * 100);
+
+  return { total, ...parts, tone: sentiment ? sentiment.tone : null };
+};
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const isFormula = (formula: string): formula is HeadlineFormula => formula in HEADLINE_FORMULAS;
+
+// Local models don't always respect the schema's enum, so a missing formula is read off the headline
+const guessFormula = (text: string): HeadlineFormula => {
+  if (text.trim().endsWith('?')) return 'question';
+  if (/^how to\b/i.test(text)) return 'howTo';
+  if (/^\d+\s+(best|ways|tips|reasons|things|ideas|mistakes)\b/i.test(text)) return 'listicle';
+  if (/^[\d$€£]/.test(text)) return 'numberLed';
+  return 'curiosityGap';
+};
+
+// Cleans model output (quotes, Markdown, unknown formulas, repeats) and ranks the rest by score
+export const createHeadlineSet = (
+  raw: { text: string; formula: string }[],
+  keyword: string | null,
+  language: Language
+): HeadlineSet => {
+  const seen = new Set<string>();
+  const variants: HeadlineVariant[] = [];
+  raw.forEach(({ text, formula }) => {
+    const cleaned = (text || '').replace(/^#+\s*/, '').replace(/^["'“”]+|["'“”]+$/g, '').replace(/\*\*/g, '').trim();
+    const key = cleaned.toLowerCase();
+    if (!cleaned || seen.has(key)) return;
+    seen.add(key);
+    variants.push({
+      id: generateId(),
+      text: cleaned,
+      formula: isFormula(formula) ? formula : guessFormula(cleaned),
+      score: scoreHeadline(cleaned, keyword, language),
+    });
+  });
+  variants.sort((a, b) => b.score.total - a.score.total);
+  return { variants, selectedId: null, keyword: keyword?.trim() || null, generatedAt: Date.now() };
+};
+
+// The variants in the shape a CMS A/B test can import; the selected one is the control
+export const buildHeadlineExport = (set: HeadlineSet, slug: string): string =>
+  JSON.stringify(
+    {
+      slug,
+      generatedAt: new Date(set.generatedAt).toISOString(),
+      control: set.selectedId,
+      variants: set.variants.map(variant => ({
+        id: variant.id,
+        headline: variant.text,
+        formula: variant.formula,
+        score: variant.score.total,
+      })),
+    },
+    null,
+    2
+  );
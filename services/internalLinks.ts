@@ -0,0 +1,120 @@
+import { Language, SavedArticle } from '../types';
+import { buildCanonicalUrl, slugify } from './seoMetadata';
+
+const MAX_SUGGESTIONS = 10;
+const CONTEXT_CHARS = 60;
+// Longer topics are headlines rather than phrases that could appear in running text
+const MAX_TOPIC_WORDS = 6;
+
+// Existing links and images; their text can't take another link
+const LINK_PATTERN = /!?\[[^\]]*\]\([^)]*\)/g;
+
+export interface LinkSuggestion {
+  id: string;
+  targetId: string;
+  targetTopic: string;
+  url: string;
+  anchor: string; // Text in the article that becomes the link
+  start: number;
+  end: number;
+  matchedOn: 'focus keyword' | 'topic' | 'secondary keyword';
+  before: string; // Surrounding text, for previews
+  after: string;
+}
+
+// The canonical URL from the SEO metadata wins; otherwise the slug under the site URL, or a root-relative path
+export const getArticleUrl = (article: SavedArticle): string => {
+  if (article.seo?.canonicalUrl) return article.seo.canonicalUrl;
+  const slug = article.seo?.slug || slugify(article.topic);
+  return buildCanonicalUrl(slug) || `/${slug}`;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Headings, tables and existing links or images are never linked
+const getBlockedRanges = (content: string): [number, number][] => {
+  const ranges: [number, number][] = [];
+  let offset = 0;
+  content.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('#') || trimmed.startsWith('|') || trimmed.startsWith('[^')) ranges.push([offset, offset + line.length]);
+    offset += line.length + 1;
+  });
+  for (const match of content.matchAll(LINK_PATTERN)) {
+    ranges.push([match.index || 0, (match.index || 0) + match[0].length]);
+  }
+  return ranges;
+};
+
+const overlaps = (start: number, end: number, ranges: [number, number][]) =>
+  ranges.some(([rangeStart, rangeEnd]) => start < rangeEnd && end > rangeStart);
+
+// Candidate phrases in order of preference
+const getPhrases = (article: SavedArticle): { phrase: string; matchedOn: LinkSuggestion['matchedOn'] }[] => {
+  const phrases: { phrase: string; matchedOn: LinkSuggestion['matchedOn'] }[] = [];
+  if (article.keywords?.focus) phrases.push({ phrase: article.keywords.focus, matchedOn: 'focus keyword' });
+  if (article.topic.split(/\s+/).length <= MAX_TOPIC_WORDS) phrases.push({ phrase: article.topic, matchedOn: 'topic' });
+  [...(article.keywords?.secondary || [])]
+    .sort((a, b) => b.length - a.length)
+    .forEach(phrase => phrases.push({ phrase, matchedOn: 'secondary keyword' }));
+  return phrases.filter(({ phrase }) => phrase.trim().length >= 3);
+};
+
+// One suggestion per saved article: the first unlinked occurrence of its best phrase.
+// Articles in another language, the excluded ones and ones already linked are skipped.
+export const findLinkSuggestions = (
+  content: string,
+  library: SavedArticle[],
+  language: Language,
+  excludeIds: string[]
+): LinkSuggestion[] => {
+  const blocked = getBlockedRanges(content);
+  const suggestions: LinkSuggestion[] = [];
+
+  for (const article of library) {
+    if (suggestions.length >= MAX_SUGGESTIONS) break;
+    if (excludeIds.includes(article.id)) continue;
+    if (article.language && article.language !== language) continue;
+    const url = getArticleUrl(article);
+    if (content.includes(`](${url})`)) continue;
+
+    const taken = [...blocked, ...suggestions.map(s => [s.start, s.end] as [number, number])];
+    for (const { phrase, matchedOn } of getPhrases(article)) {
+      // Word boundaries that work beyond ASCII, and a simple plural so "laptop" also finds "laptops"
+      const words = phrase.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${words}(?:e?s)?(?![\\p{L}\\p{N}])`, 'giu');
+      const match = Array.from(content.matchAll(pattern)).find(m => !overlaps(m.index || 0, (m.index || 0) + m[0].length, taken));
+      if (!match) continue;
+
+      const start = match.index || 0;
+      const end = start + match[0].length;
+      const lineStart = content.lastIndexOf('\n', start) + 1;
+      const lineEnd = content.indexOf('\n', end) === -1 ? content.length : content.indexOf('\n', end);
+      suggestions.push({
+        id: `${article.id}-${start}`,
+        targetId: article.id,
+        targetTopic: article.topic,
+        url,
+        anchor: match[0],
+        start,
+        end,
+        matchedOn,
+        before: content.substring(Math.max(lineStart, start - CONTEXT_CHARS), start),
+        after: content.substring(end, Math.min(lineEnd, end + CONTEXT_CHARS)),
+      });
+      break;
+    }
+  }
+
+  return suggestions.sort((a, b) => a.start - b.start);
+};
+
+// Applied from the end so earlier offsets stay valid; a suggestion whose text has since changed is skipped
+export const insertLinks = (content: string, suggestions: LinkSuggestion[]): string =>
+  [...suggestions]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, suggestion) =>
+      text.substring(suggestion.start, suggestion.end) === suggestion.anchor
+        ? `${text.substring(0, suggestion.start)}[${suggestion.anchor}](${suggestion.url})${text.substring(suggestion.end)}`
+        : text,
+      content);
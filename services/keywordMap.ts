@@ -0,0 +1,100 @@
+import { KeywordConflict, SavedArticle } from '../types';
+import { findDuplicates } from './duplicateContent';
+
+// Articles sharing a focus keyword that overlap this much are one article written twice
+const MERGE_SIMILARITY = 40;
+
+// Folds case, punctuation and simple plurals so "Budget Laptops" and "budget laptop" are the same term
+export const normalizeKeyword = (keyword: string): string =>
+  keyword
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)
+    .join(' ');
+
+// Articles whose focus keyword is the given keyword
+export const findKeywordOwners = (keyword: string, articles: SavedArticle[]): SavedArticle[] => {
+  const term = normalizeKeyword(keyword);
+  if (!term) return [];
+  return articles.filter(article => article.keywords?.focus && normalizeKeyword(article.keywords.focus) === term);
+};
+
+// Translations target the same term in another language, so only one article per translation group counts
+const onePerTranslationGroup = (articles: SavedArticle[]): SavedArticle[] => {
+  const seen = new Set<string>();
+  return articles.filter(article => {
+    const group = article.translationGroupId || article.id;
+    if (seen.has(group)) return false;
+    seen.add(group);
+    return true;
+  });
+};
+
+const quoteTopics = (articles: SavedArticle[]) => articles.map(article => `"${article.topic}"`).join(', ');
+
+// Groups articles by the terms they target and recommends how to resolve each overlap.
+// Terms only shared as secondary keywords are normal topical overlap and aren't reported.
+export const buildKeywordMap = (articles: SavedArticle[]): KeywordConflict[] => {
+  const focusByTerm = new Map<string, SavedArticle[]>();
+  const secondaryByTerm = new Map<string, SavedArticle[]>();
+  const add = (map: Map<string, SavedArticle[]>, keyword: string, article: SavedArticle) => {
+    const term = normalizeKeyword(keyword);
+    if (!term) return;
+    const list = map.get(term) || [];
+    if (!list.includes(article)) list.push(article);
+    map.set(term, list);
+  };
+
+  articles.forEach(article => {
+    if (!article.keywords) return;
+    add(focusByTerm, article.keywords.focus, article);
+    article.keywords.secondary.forEach(keyword => add(secondaryByTerm, keyword, article));
+  });
+
+  const conflicts: KeywordConflict[] = [];
+  focusByTerm.forEach((focusArticles, term) => {
+    // The oldest article has had the longest to collect rankings and links, so it keeps the term
+    const owners = onePerTranslationGroup([...focusArticles].sort((a, b) => a.date - b.date));
+    const owner = owners[0];
+    const secondary = onePerTranslationGroup(secondaryByTerm.get(term) || [])
+      .filter(article => !owners.some(o => (o.translationGroupId || o.id) === (article.translationGroupId || article.id)));
+    const label = owner.keywords?.focus || term;
+
+    if (owners.length > 1) {
+      const rivals = owners.slice(1);
+      const overlap = Math.max(...rivals.map(rival => findDuplicates(rival.content, [owner])[0]?.similarity || 0));
+      conflicts.push(overlap >= MERGE_SIMILARITY
+        ? {
+          term: label,
+          articleIds: [...owners, ...secondary].map(article => article.id),
+          ownerId: owner.id,
+          action: 'merge',
+          reason: `${quoteTopics(rivals)} overlap${rivals.length === 1 ? 's' : ''} ${overlap}% with "${owner.topic}". Merge into "${owner.topic}" and redirect the old URL${rivals.length === 1 ? '' : 's'}.`,
+        }
+        : {
+          term: label,
+          articleIds: [...owners, ...secondary].map(article => article.id),
+          ownerId: owner.id,
+          action: 'differentiate',
+          reason: `Keep "${label}" for "${owner.topic}" and give ${quoteTopics(rivals)} a more specific focus keyword, e.g. one of ${rivals.length === 1 ? 'its' : 'their'} secondary keywords.`,
+        });
+      return;
+    }
+
+    if (secondary.length > 0) {
+      conflicts.push({
+        term: label,
+        articleIds: [owner, ...secondary].map(article => article.id),
+        ownerId: owner.id,
+        action: 'link',
+        reason: `Link from ${quoteTopics(secondary)} to "${owner.topic}" with "${label}" as the anchor text, so search engines know which page ranks for it.`,
+      });
+    }
+  });
+
+  // Most severe first, then the most crowded terms
+  const order = { merge: 0, differentiate: 1, link: 2 };
+  return conflicts.sort((a, b) => order[a.action] - order[b.action] || b.articleIds.length - a.articleIds.length);
+};
@@ -0,0 +1,251 @@
+import { ImageSize, AspectRatio, UsageOperation } from '../types';
+import type { ModelProvider, TextRequest, JsonRequest, ImageRequest } from './modelProvider';
+import { checkBudget, recordUsage, approximateTokens } from './usageTracker';
+import { HttpError, SafetyBlockedError } from './aiErrors';
+
+// Talks to any OpenAI-compatible HTTP endpoint (Ollama, LM Studio, LocalAI, vLLM...)
+// so the app can be developed and demoed without a Gemini key or network access.
+export interface LocalProviderConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  textModel: string;
+  imageModel: string; // Leave empty when the endpoint cannot generate images
+  apiKey: string;
+}
+
+const LONG_SIDE: Record<ImageSize, number> = {
+  [ImageSize.S_1K]: 1024,
+  [ImageSize.S_2K]: 2048,
+  [ImageSize.S_4K]: 4096,
+};
+
+// OpenAI-style endpoints take a "WIDTHxHEIGHT" size instead of an aspect ratio
+const toPixelSize = (size: ImageSize, aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longSide = LONG_SIDE[size];
+  const shortSide = Math.round((longSide * Math.min(w, h)) / Math.max(w, h) / 64) * 64;
+  return w >= h ? `${longSide}x${shortSide}` : `${shortSide}x${longSide}`;
+};
+
+// OpenAI-style "usage" block; many local servers omit it, so fall back to a character estimate
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
+
+const assertNotFiltered = (finishReason: string | undefined) => {
+  if (finishReason === 'content_filter') {
+    throw new SafetyBlockedError("The model's content filter blocked this request.");
+  }
+};
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+export const createLocalProvider = (config: LocalProviderConfig): ModelProvider => {
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+
+  const headers = (json: boolean = true) => {
+    const result: Record<string, string> = {};
+    if (json) result['Content-Type'] = 'application/json';
+    if (config.apiKey) result['Authorization'] = `Bearer ${config.apiKey}`;
+    return result;
+  };
+
+  // Surface HTTP failures with a status and Retry-After so classifyError can type them
+  const request = async (path: string, init: RequestInit) => {
+    const response = await fetch(`${baseUrl}${path}`, init);
+    if (!response.ok) {
+      throw new HttpError(
+        `Local model request failed (${response.status}): ${await response.text()}`,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    return response;
+  };
+
+  const chatBody = (textRequest: TextRequest, extra: Record<string, unknown> = {}) => JSON.stringify({
+    model: config.textModel,
+    messages: [{ role: 'user', content: textRequest.prompt }],
+    temperature: textRequest.temperature,
+    top_p: textRequest.topP,
+    ...extra,
+  });
+
+  const readImage = async (response: Response): Promise<string | null> => {
+    const data = await response.json();
+    const base64 = data?.data?.[0]?.b64_json;
+    return base64 ? `data:image/png;base64,${base64}` : null;
+  };
+
+  const logUsage = (
+    model: string,
+    operation: UsageOperation,
+    usage: ChatUsage | undefined,
+    fallback: { prompt: string; output: string },
+    image?: { count: number; size?: ImageSize }
+  ) => {
+    recordUsage({
+      provider: 'local',
+      model,
+      operation,
+      inputTokens: usage?.prompt_tokens ?? approximateTokens(fallback.prompt),
+      outputTokens: usage?.completion_tokens ?? approximateTokens(fallback.output),
+      imageCount: image?.count || 0,
+      imageSize: image?.size,
+    });
+  };
+
+  const requireImageModel = () => {
+    if (!config.imageModel) {
+      throw new Error('No local image model configured. Set LOCAL_IMAGE_MODEL to enable image generation.');
+    }
+  };
+
+  return {
+    id: 'local',
+    supportsSearch: false,
+
+    // Search grounding is not available locally; useSearch is ignored and no sources are returned
+    streamText: async (textRequest, onChunk) => {
+      checkBudget();
+      const response = await request('/chat/completions', {
+        method: 'POST',
+        headers: headers(),
+        body: chatBody(textRequest, { stream: true, stream_options: { include_usage: true } }),
+        signal: textRequest.signal,
+      });
+
+      const reader = response.body?.getReader();
+      if (!reader) return { text: '', sources: [] };
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      let usage: ChatUsage | undefined;
+      let finishReason: string | undefined;
+
+      // Server-sent events: one "data: {...}" payload per line
+      const handleLine = (line: string) => {
+        const payload = line.trim().replace(/^data:\s*/, '');
+        if (!payload || payload === '[DONE]') return;
+        try {
+          const parsed = JSON.parse(payload);
+          const delta = parsed?.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onChunk(delta);
+          }
+          if (parsed?.usage) usage = parsed.usage;
+          finishReason = parsed?.choices?.[0]?.finish_reason || finishReason;
+        } catch (e) {
+          console.warn('Skipping malformed stream line', payload);
+        }
+      };
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          lines.forEach(handleLine);
+        }
+        // The last line may end without a newline, and the decoder may still hold part of a character
+        buffer += decoder.decode();
+        buffer.split('\n').forEach(handleLine);
+      } finally {
+        logUsage(config.textModel, 'text', usage, { prompt: textRequest.prompt, output: text });
+      }
+      assertNotFiltered(finishReason);
+      return { text, sources: [], truncated: finishReason === 'length' };
+    },
+
+    generateText: async (textRequest) => {
+      checkBudget();
+      const response = await request('/chat/completions', {
+        method: 'POST',
+        headers: headers(),
+        body: chatBody(textRequest),
+        signal: textRequest.signal,
+      });
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content || '';
+      logUsage(config.textModel, 'text', data?.usage, { prompt: textRequest.prompt, output: text });
+      assertNotFiltered(data?.choices?.[0]?.finish_reason);
+      return { text, sources: [], truncated: data?.choices?.[0]?.finish_reason === 'length' };
+    },
+
+    generateJson: async <T>(jsonRequest: JsonRequest) => {
+      checkBudget();
+      const response = await request('/chat/completions', {
+        method: 'POST',
+        headers: headers(),
+        body: chatBody(jsonRequest, {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: jsonRequest.schema },
+          },
+        }),
+        signal: jsonRequest.signal,
+      });
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content || 'null';
+      logUsage(config.textModel, 'json', data?.usage, { prompt: jsonRequest.prompt, output: text });
+      assertNotFiltered(data?.choices?.[0]?.finish_reason);
+      return JSON.parse(text) as T;
+    },
+
+    generateImage: async (imageRequest: ImageRequest) => {
+      requireImageModel();
+      checkBudget();
+      const response = await request('/images/generations', {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({
+          model: config.imageModel,
+          prompt: imageRequest.prompt,
+          size: toPixelSize(imageRequest.size, imageRequest.aspectRatio),
+          response_format: 'b64_json',
+          n: 1,
+        }),
+        signal: imageRequest.signal,
+      });
+      const image = await readImage(response);
+      logUsage(config.imageModel, 'image', undefined, { prompt: imageRequest.prompt, output: '' }, image ? { count: 1, size: imageRequest.size } : undefined);
+      return image;
+    },
+
+    editImage: async (editRequest) => {
+      requireImageModel();
+      checkBudget();
+      const form = new FormData();
+      form.append('model', config.imageModel);
+      form.append('prompt', editRequest.prompt);
+      form.append('response_format', 'b64_json');
+      form.append('image', await dataUrlToBlob(editRequest.image), 'image.png');
+      if (editRequest.mask) {
+        form.append('mask', await dataUrlToBlob(editRequest.mask), 'mask.png');
+      }
+
+      const response = await request('/images/edits', {
+        method: 'POST',
+        headers: headers(false),
+        body: form,
+        signal: editRequest.signal,
+      });
+      const image = await readImage(response);
+      logUsage(config.imageModel, 'image-edit', undefined, { prompt: editRequest.prompt, output: '' }, image ? { count: 1 } : undefined);
+      return image;
+    },
+  };
+};
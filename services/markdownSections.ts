@@ -0,0 +1,55 @@
+// Splits an article into its lead (H1 + intro) and one chunk per H2 so single
+// sections can be rewritten without touching the rest of the Markdown.
+export interface MarkdownSection {
+  index: number; // 0 is the lead before the first H2
+  heading: string | null; // H2 text, null for the lead
+  start: number; // Character offsets into the article
+  end: number;
+  markdown: string;
+}
+
+export const splitSections = (content: string): MarkdownSection[] => {
+  const sections: MarkdownSection[] = [];
+  const headingPattern = /^## (.*)$/gm;
+  let current = { heading: null as string | null, start: 0 };
+  let match: RegExpExecArray | null;
+
+  while ((match = headingPattern.exec(content)) !== null) {
+    sections.push({
+      index: sections.length,
+      heading: current.heading,
+      start: current.start,
+      end: match.index,
+      markdown: content.slice(current.start, match.index),
+    });
+    current = { heading: match[1].trim(), start: match.index };
+  }
+
+  sections.push({
+    index: sections.length,
+    heading: current.heading,
+    start: current.start,
+    end: content.length,
+    markdown: content.slice(current.start),
+  });
+  return sections;
+};
+
+// Swaps one section's Markdown while keeping the blank-line spacing around it intact
+export const replaceSection = (content: string, section: MarkdownSection, markdown: string): string => {
+  const trailingWhitespace = section.markdown.match(/\s*$/)?.[0] || '';
+  return content.slice(0, section.start) + markdown.trim() + trailingWhitespace + content.slice(section.end);
+};
+
+// Inline images are stored as base64 data URLs, which would blow up any prompt they end up in
+export const compactImageData = (markdown: string): string =>
+  markdown.replace(/\((data:image\/[^)]+)\)/g, '(embedded-image)');
+
+export const extractImageLines = (markdown: string): string[] =>
+  markdown.split('\n').filter(line => line.trim().startsWith('!['));
+
+export const getH1 = (content: string): string | null => content.match(/^# (.*)$/m)?.[1].trim() || null;
+
+// Swaps the article title, adding one at the top when the article has none
+export const replaceH1 = (content: string, title: string): string =>
+  /^# .*$/m.test(content) ? content.replace(/^# .*$/m, `# ${title}`) : `# ${title}\n\n${content.trimStart()}`;
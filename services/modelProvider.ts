@@ -0,0 +1,96 @@
+import { ImageSize, AspectRatio } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalProvider } from './localProvider';
+
+// Vendor-neutral subset of JSON Schema used for structured output.
+// Providers translate this into whatever their SDK or HTTP API expects.
+export interface JsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+// Every request can be cancelled; providers must stop network work and reject with an AbortError
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface TextRequest extends RequestOptions {
+  prompt: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  // Ask the provider to ground the answer with a web search, if it supports one
+  useSearch?: boolean;
+}
+
+export interface JsonRequest extends RequestOptions {
+  prompt: string;
+  schema: JsonSchema;
+  temperature?: number;
+}
+
+export interface ImageRequest extends RequestOptions {
+  prompt: string;
+  size: ImageSize;
+  aspectRatio: AspectRatio;
+}
+
+export interface ImageEditRequest extends RequestOptions {
+  // Data URLs (data:image/png;base64,...)
+  image: string;
+  mask?: string;
+  prompt: string;
+}
+
+export interface GroundingSource {
+  title: string;
+  uri: string;
+}
+
+// A passage of the answer backed by one or more of the returned sources
+export interface Citation {
+  text: string;
+  sourceIndices: number[]; // Into TextResult.sources
+}
+
+export interface TextResult {
+  text: string;
+  sources: GroundingSource[];
+  citations?: Citation[]; // Only from providers with search grounding
+  truncated?: boolean; // The model stopped at its output token limit rather than finishing
+}
+
+export interface ModelProvider {
+  id: ProviderId;
+  // Whether useSearch actually grounds answers and returns sources
+  supportsSearch: boolean;
+  streamText: (request: TextRequest, onChunk: (text: string) => void) => Promise<TextResult>;
+  generateText: (request: TextRequest) => Promise<TextResult>;
+  generateJson: <T>(request: JsonRequest) => Promise<T>;
+  // Resolves to a data URL, or null when the model returned no image
+  generateImage: (request: ImageRequest) => Promise<string | null>;
+  editImage: (request: ImageEditRequest) => Promise<string | null>;
+}
+
+export type ProviderId = 'gemini' | 'local';
+
+// Only a real cancellation counts; "connection aborted" from the network is a failure to report or retry.
+// SDK errors raised by a cancelled signal are turned into the signal's AbortError by withRetry.
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+// The provider is chosen at build time (see vite.config.ts) so the UI never needs to know which vendor is in use.
+export const getProvider = (): ModelProvider => {
+  if (process.env.MODEL_PROVIDER === 'local') {
+    return createLocalProvider({
+      baseUrl: process.env.LOCAL_MODEL_URL || 'http://localhost:11434/v1',
+      textModel: process.env.LOCAL_TEXT_MODEL || 'llama3.1',
+      imageModel: process.env.LOCAL_IMAGE_MODEL || '',
+      apiKey: process.env.LOCAL_MODEL_API_KEY || '',
+    });
+  }
+  return createGeminiProvider();
+};
@@ -0,0 +1,114 @@
+import {
+  OriginalityCategory, OriginalityFinding, OriginalityReport, OriginalitySeverity, OriginalitySource, OriginalityVerdict,
+} from '../types';
+
+// Older runs are dropped once an article has this many
+export const MAX_ORIGINALITY_RUNS = 20;
+
+const VERDICTS: OriginalityVerdict[] = ['safe', 'needs_optimization', 'unsafe'];
+const CATEGORIES: OriginalityCategory[] = ['seo', 'human', 'safety', 'plagiarism'];
+const SEVERITIES: OriginalitySeverity[] = ['low', 'medium', 'high'];
+
+export const VERDICT_LABELS: Record<OriginalityVerdict, string> = {
+  safe: 'Safe to Publish',
+  needs_optimization: 'Needs Optimization',
+  unsafe: 'Do Not Publish',
+};
+
+// Shape requested from the model; spans, ids and sources are filled in locally
+export interface RawOriginalityReport {
+  seoScore: number;
+  humanScore: number;
+  safetyScore: number;
+  verdict: string;
+  summary: string;
+  findings: { category: string; severity: string; issue: string; quote: string; suggestion: string }[];
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const clampScore = (value: unknown): number => {
+  const score = Math.round(Number(value));
+  return Number.isFinite(score) ? Math.min(100, Math.max(0, score)) : 0;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Models like to wrap quotes in quote marks and ellipses
+const cleanQuote = (quote: string) =>
+  quote.trim().replace(/^["'“”‘’]+|["'“”‘’]+$/g, '').replace(/^(\.\.\.|…)|(\.\.\.|…)$/g, '').trim();
+
+// Models often tidy whitespace or casing, so fall back to a loose match
+export const locateSpan = (content: string, quote: string): { start: number; end: number } | null => {
+  const cleaned = cleanQuote(quote);
+  if (cleaned.length < 4) return null;
+
+  const exact = content.indexOf(cleaned);
+  if (exact !== -1) return { start: exact, end: exact + cleaned.length };
+
+  const pattern = new RegExp(cleaned.split(/\s+/).map(escapeRegExp).join('\\s+'), 'i');
+  const match = pattern.exec(content);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+// When the model skips the verdict, derive it from the weakest score
+const deriveVerdict = (scores: number[]): OriginalityVerdict => {
+  const lowest = Math.min(...scores);
+  if (lowest >= 80) return 'safe';
+  return lowest >= 50 ? 'needs_optimization' : 'unsafe';
+};
+
+export const normalizeOriginalityReport = (
+  raw: Partial<RawOriginalityReport> | null,
+  content: string,
+  sources: OriginalitySource[]
+): OriginalityReport => {
+  const seoScore = clampScore(raw?.seoScore);
+  const humanScore = clampScore(raw?.humanScore);
+  const safetyScore = clampScore(raw?.safetyScore);
+  const verdict = VERDICTS.includes(raw?.verdict as OriginalityVerdict)
+    ? raw!.verdict as OriginalityVerdict
+    : deriveVerdict([seoScore, humanScore, safetyScore]);
+
+  const findings: OriginalityFinding[] = (raw?.findings || [])
+    .filter(finding => finding && finding.issue)
+    .map(finding => ({
+      category: CATEGORIES.includes(finding.category as OriginalityCategory) ? finding.category as OriginalityCategory : 'seo',
+      severity: SEVERITIES.includes(finding.severity as OriginalitySeverity) ? finding.severity as OriginalitySeverity : 'medium',
+      issue: finding.issue.trim(),
+      quote: cleanQuote(finding.quote || ''),
+      suggestion: (finding.suggestion || '').trim(),
+      span: finding.quote ? locateSpan(content, finding.quote) : null,
+    }));
+
+  // The same page can be returned for several queries
+  const uniqueSources = Array.from(new Map(sources.map(source => [source.uri, source])).values());
+
+  return {
+    id: generateId(),
+    checkedAt: Date.now(),
+    seoScore,
+    humanScore,
+    safetyScore,
+    verdict,
+    summary: (raw?.summary || '').trim(),
+    findings,
+    sources: uniqueSources,
+  };
+};
+
+export const appendOriginalityRun = (history: OriginalityReport[], report: OriginalityReport): OriginalityReport[] =>
+  [...history, report].slice(-MAX_ORIGINALITY_RUNS);
+
+// Plain-text fragments of the quotes that were found, one per line, for highlighting in the rendered article.
+// Markdown markers are stripped since the article view renders them away.
+export const getHighlightPhrases = (report: OriginalityReport): string[] => {
+  const phrases = report.findings.flatMap(finding => {
+    if (!finding.span) return [];
+    return finding.quote
+      .split('\n')
+      .map(line => line.replace(/\*\*/g, '').replace(/^\s*(#+|[-*])\s+/, '').trim())
+      .filter(line => line.length >= 4);
+  });
+  return Array.from(new Set(phrases));
+};
@@ -0,0 +1,389 @@
+import { PromptTemplateId, PromptTemplateVersion } from '../types';
+
+const TEMPLATES_KEY = 'ai_writer_prompt_templates';
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  sample: string; // Used for the live preview in Settings
+}
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  variables: TemplateVariable[];
+  defaultBody: string;
+}
+
+const ARTICLE_VARIABLES: TemplateVariable[] = [
+  { name: 'topic', description: 'Article topic or product name', sample: 'Best budget laptops for students' },
+  { name: 'category', description: 'Selected category', sample: 'Technology & Gadgets' },
+  { name: 'keywords', description: 'Target keywords, or a fallback hint when empty', sample: 'budget laptop, student laptop' },
+  { name: 'tone', description: 'Writing tone', sample: 'Professional' },
+  { name: 'length', description: 'Selected lengths and word target', sample: 'Medium (Blog Post), about 1500 words' },
+  { name: 'language', description: 'Output language', sample: 'English' },
+  { name: 'instructions', description: 'Additional instructions from the form', sample: 'None' },
+  { name: 'specifications', description: 'The fields above as a ready-made SPECIFICATIONS block', sample: 'SPECIFICATIONS:\n- **Topic**: Best budget laptops for students\n- ...' },
+  { name: 'brandVoice', description: 'Selected brand voice style guide, empty when none is selected (already part of {{specifications}})', sample: 'BRAND VOICE: "Acme Tech" (blend with the Tone above)\n- **Overview**: ...' },
+  { name: 'genZStyle', description: 'Gen Z style override, empty unless that length is selected', sample: '' },
+  { name: 'structure', description: 'Category-specific structure rules (e.g. recipe format for Food)', sample: '3. **Structure**:\n - H1: Engaging, click-worthy title.\n - ...' },
+  { name: 'guidelines', description: 'The "Writing Guidelines" template', sample: '1. **Anti-Plagiarism**: ...' },
+];
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  article: {
+    id: 'article',
+    name: 'Article',
+    description: 'Writes a full article in one pass.',
+    variables: ARTICLE_VARIABLES,
+    defaultBody: `You are an elite Senior Content Writer and SEO Expert.
+Your absolute priority is to write a **100% original, human-quality article** that is safe for AdSense and ranks high on Google.
+
+TARGET: **95%+ Originality Score** (Must pass AI detection and Plagiarism checks).
+{{specifications}}
+{{genZStyle}}
+
+STRICT WRITING GUIDELINES FOR SAFETY & RANKING:
+{{guidelines}}
+{{structure}}
+4. **Value**: Focus on unique insights, specific examples, or "unpopular opinions" to differentiate from generic web content.
+
+FORMAT:
+- Pure Markdown.
+- No preamble. Start with the H1.`,
+  },
+  guidelines: {
+    id: 'guidelines',
+    name: 'Writing Guidelines',
+    description: 'Originality rules shared by every writing prompt (articles, outlines, sections, continuations).',
+    variables: [],
+    defaultBody: `1. **Anti-Plagiarism**: Never copy-paste. Synthesize information into completely new sentences.
+2. **Anti-AI Detection**:
+   - Vary sentence length drastically (mix short punchy sentences with longer descriptive ones).
+   - Avoid "AI-isms" like "In the fast-paced world of...", "delve into", "unlock", "comprehensive guide".
+   - Use active voice, personal perspective, and idiomatic language.`,
+  },
+  keywords: {
+    id: 'keywords',
+    name: 'Keyword Suggestions',
+    description: 'Suggests SEO keywords for a topic. The model must answer with a JSON array of strings.',
+    variables: [
+      { name: 'topic', description: 'Article topic', sample: 'Best budget laptops for students' },
+      { name: 'category', description: 'Selected category', sample: 'Technology & Gadgets' },
+    ],
+    defaultBody: `Generate 6-8 high-ranking, high-traffic, relevant SEO keywords (mix of short-tail and long-tail) for a blog article.
+
+Context:
+- Topic: {{topic}}
+- Category: {{category}}
+
+Return ONLY the keywords as a JSON array of strings.`,
+  },
+  topic: {
+    id: 'topic',
+    name: 'Topic Suggestion',
+    description: 'Suggests one topic for the selected category.',
+    variables: [
+      { name: 'category', description: 'Selected category', sample: 'Technology & Gadgets' },
+    ],
+    defaultBody: `Generate ONE engaging, search-optimized blog topic or product review title based on this category: "{{category}}".
+It should be catchy, specific, and something people actually search for.
+Return ONLY the text of the topic. Do not use quotes.`,
+  },
+  coverImage: {
+    id: 'coverImage',
+    name: 'Cover Image',
+    description: 'Describes the cover image generated alongside an article.',
+    variables: [
+      { name: 'topic', description: 'Article topic', sample: 'Best budget laptops for students' },
+    ],
+    defaultBody: `Create a high-quality, modern, photorealistic cover image for a blog article about: {{topic}}.
+The image should be professional, visually striking, and suitable for a digital publication.
+Avoid text in the image.`,
+  },
+  grounding: {
+    id: 'grounding',
+    name: 'Source Grounding',
+    description: 'Appended to the article prompt in grounded mode. Citation markers and the References section are added by the app.',
+    variables: [
+      { name: 'sources', description: 'Numbered search results, or a request to search the web when the model has its own search tool', sample: '[1] Mortgage rates this week (example.com)\nThe average 30-year fixed rate fell to 6.1%...' },
+      { name: 'citationRule', description: 'How the model should mark cited facts', sample: 'After each sentence that uses a source, add its marker, e.g. [^2].' },
+    ],
+    defaultBody: `FACT GROUNDING:
+- Every statistic, price, rate, date, dosage, legal or medical claim must come from the sources. Leave out facts you cannot support.
+- {{citationRule}}
+- Do not write a sources, references or bibliography section; it is added automatically.
+
+SOURCES:
+{{sources}}`,
+  },
+  originality: {
+    id: 'originality',
+    name: 'Originality Check',
+    description: 'Audits an article for SEO, human-like style and AdSense safety. The model must answer with JSON.',
+    variables: [
+      { name: 'content', description: 'The first 8,000 characters of the article', sample: '# Best Budget Laptops for Students\n\nFinding a laptop that survives four years of lectures...' },
+      { name: 'webMatches', description: 'Overlapping pages found by the web search step, or a note that none were searched', sample: '- "Top 10 Student Laptops" (example.com): similar ranking of the same five models' },
+    ],
+    defaultBody: `You are a strict Content Safety & SEO Auditor.
+Analyze the text below for SEO effectiveness, Human-like writing style, and AdSense safety.
+
+CRITERIA:
+1. **SEO** ("seoScore", 0-100): Keyword usage, heading structure, and engagement.
+2. **Human-Like** ("humanScore", 0-100): Assess for robotic patterns, repetition, and natural flow (simulate an AI detection check).
+3. **Safety** ("safetyScore", 0-100): Plagiarism risks and AdSense compliance.
+
+RULES:
+- "verdict": "safe" when the article can be published as is, "needs_optimization" when it needs edits, "unsafe" when it must not be published (policy violations or copied passages).
+- "summary": 2-3 sentences.
+- "findings": Up to 10 concrete problems. "quote" must be copied word for word from the text (one sentence or phrase, no ellipses) so it can be highlighted. Use category "plagiarism" only for passages that match the web results below.
+- Do not report problems you cannot point to in the text.
+
+WEB RESULTS (pages that overlap with the text):
+{{webMatches}}
+
+Text (sample):
+"{{content}}..."`,
+  },
+  originalitySearch: {
+    id: 'originalitySearch',
+    name: 'Originality Web Search',
+    description: 'Searches the web for pages that overlap with an article before the originality audit. Only runs with providers that support search.',
+    variables: [
+      { name: 'content', description: 'The first 8,000 characters of the article', sample: '# Best Budget Laptops for Students\n\nFinding a laptop that survives four years of lectures...' },
+    ],
+    defaultBody: `Search the web for published pages that closely match the text below: the same distinctive sentences, the same structure, or the same list of points in the same order.
+
+For each match, write one line: "- [page title] (site): what overlaps". If nothing overlaps closely, answer "No close matches found."
+
+Text:
+"{{content}}..."`,
+  },
+  focusKeyword: {
+    id: 'focusKeyword',
+    name: 'Focus Keyword',
+    description: 'Picks the single most important keyphrase of an article.',
+    variables: [
+      { name: 'content', description: 'The first 10,000 characters of the article', sample: '# Best Budget Laptops for Students\n\nFinding a laptop that survives four years of lectures...' },
+    ],
+    defaultBody: `Analyze the following text and identify the single most important SEO focus keyword or keyphrase.
+Return ONLY the keyword/keyphrase as a plain string. Do not use quotes or markdown.
+
+Text:
+"{{content}}"`,
+  },
+  articleKeywords: {
+    id: 'articleKeywords',
+    name: 'Article Keywords',
+    description: 'Extracts the focus keyword and secondary keywords of a saved article for the keyword map. The model must answer with JSON.',
+    variables: [
+      { name: 'content', description: 'The first 10,000 characters of the article', sample: '# Best Budget Laptops for Students\n\nFinding a laptop that survives four years of lectures...' },
+    ],
+    defaultBody: `Analyze the following article the way an SEO would when mapping which search terms it targets.
+
+RULES:
+- "focus": The single search query this article is built to rank for, in lowercase, in the article's language.
+- "secondary": 3-6 other queries the article also clearly targets (in headings or repeated in the text), in lowercase. Do not repeat the focus keyword.
+- Use the phrasing people type into a search engine, not the article title.
+
+Text:
+"{{content}}"`,
+  },
+  brandVoice: {
+    id: 'brandVoice',
+    name: 'Brand Voice Extraction',
+    description: 'Turns sample articles into a brand style guide. The model must answer with JSON matching the style guide fields.',
+    variables: [
+      { name: 'samples', description: 'The sample articles, numbered and trimmed to 4,000 characters each', sample: 'SAMPLE 1:\n# Why We Still Love Wired Headphones\n\nLook, we get it...' },
+    ],
+    defaultBody: `You are a brand editor. Study the sample articles below, all written for the same brand, and write a style guide that lets another writer match their voice.
+
+Describe:
+- "summary": 2-3 sentences on the overall voice and personality.
+- "vocabulary": 8-15 words or short phrases the brand uses often or prefers.
+- "sentenceRhythm": How sentence and paragraph length vary, and how sections open and close.
+- "bannedPhrases": Phrases, clichés or constructions the brand never uses (infer from what is conspicuously absent, plus generic filler that clashes with the voice).
+- "formattingHabits": Recurring formatting choices (headings, lists, bold, tables, calls to action, emojis).
+- "pointOfView": Grammatical person and how the writer relates to the reader.
+
+Describe the style only. Do not summarise what the articles are about.
+
+{{samples}}`,
+  },
+  translate: {
+    id: 'translate',
+    name: 'Translation',
+    description: 'Translates a saved article into another language while keeping its Markdown intact.',
+    variables: [
+      { name: 'sourceLanguage', description: 'Language the article is written in', sample: 'English' },
+      { name: 'targetLanguage', description: 'Language to translate into', sample: 'German' },
+      { name: 'localization', description: 'Localization rules, empty when localization is turned off', sample: 'LOCALIZE: Convert currencies, units...' },
+      { name: 'content', description: 'The article, with image URLs replaced by image-ref-N tokens', sample: '# Best Budget Laptops for Students\n\n![Cover](image-ref-1)\n\nFinding a laptop that survives four years of lectures...' },
+    ],
+    defaultBody: `You are a professional translator and native {{targetLanguage}} copywriter.
+Translate the {{sourceLanguage}} article below into natural, fluent {{targetLanguage}}. It must read as if it was written in {{targetLanguage}}, not translated.
+
+RULES:
+- Keep the Markdown structure exactly: the same headings at the same levels, the same lists, and the same tables with the same number of rows and columns.
+- Translate table contents, image alt text and link text, but leave every URL and every "image-ref-N" token exactly as it is.
+- Do not add or remove sections, and do not add notes about the translation.
+{{localization}}
+
+FORMAT:
+- Pure Markdown.
+- No preamble. Start with the H1.
+
+ARTICLE:
+{{content}}`,
+  },
+  seoMetadata: {
+    id: 'seoMetadata',
+    name: 'SEO Metadata',
+    description: 'Writes the title tag, meta description, slug, excerpt and social card text. The model must answer with JSON.',
+    variables: [
+      { name: 'topic', description: 'Article topic', sample: 'Best budget laptops for students' },
+      { name: 'keywords', description: 'Target keywords, or the focus keyword when one was extracted', sample: 'budget laptop, student laptop' },
+      { name: 'language', description: 'Article language', sample: 'English' },
+      { name: 'content', description: 'The first 6,000 characters of the article', sample: '# Best Budget Laptops for Students\n\nFinding a laptop that survives four years of lectures...' },
+    ],
+    defaultBody: `You are an SEO specialist. Write the search and social metadata for the article below, in {{language}}.
+
+Target keywords: {{keywords}}
+
+RULES:
+- "seoTitle": 50-60 characters, primary keyword near the start. Must not exceed 60 characters.
+- "metaDescription": 140-160 characters, includes the primary keyword and a reason to click. Must not exceed 160 characters.
+- "slug": 3-6 lowercase words joined by hyphens, no stop words, no dates.
+- "excerpt": 1-2 sentences (under 300 characters) that work as a teaser on a blog index page.
+- "ogTitle" / "ogDescription": Written for Facebook and LinkedIn shares. More curiosity-driven than the SEO title; ogDescription under 200 characters.
+- "twitterTitle" / "twitterDescription": Punchy versions for X. twitterTitle under 70 characters, twitterDescription under 200.
+- Never use clickbait that the article does not deliver on.
+
+Topic: {{topic}}
+
+ARTICLE:
+{{content}}`,
+  },
+  headlines: {
+    id: 'headlines',
+    name: 'Headline Variants',
+    description: 'Writes headline variants for the headline lab using several formulas. The model must answer with JSON; scoring happens locally.',
+    variables: [
+      { name: 'topic', description: 'Article topic', sample: 'Best budget laptops for students' },
+      { name: 'keyword', description: 'Focus keyword, or the first target keyword', sample: 'budget laptop' },
+      { name: 'language', description: 'Article language', sample: 'English' },
+      { name: 'currentTitle', description: 'The H1 the article has now', sample: 'Best Budget Laptops for Students' },
+      { name: 'content', description: 'The first 4,000 characters of the article', sample: '# Best Budget Laptops for Students\n\nFinding a laptop that survives four years of lectures...' },
+    ],
+    defaultBody: `You are a headline editor. Write 12 headline variants for the article below, in {{language}}, to be A/B tested.
+
+Use each formula at least twice:
+- "listicle": a list headline ("7 Ways to...", "The 10 Best...")
+- "howTo": a how-to or guide headline
+- "question": a question the reader wants answered
+- "numberLed": opens with a specific number, statistic, price or year
+- "curiosityGap": hints at a surprising payoff without giving it away
+
+RULES:
+- 40-60 characters where possible; never over 70.
+- Include the keyword "{{keyword}}" (or a natural variant of it) in most headlines, near the start.
+- Every headline must be something the article actually delivers. No clickbait, no ALL CAPS, no emoji.
+- Do not repeat the current title: "{{currentTitle}}".
+
+Topic: {{topic}}
+
+ARTICLE:
+{{content}}`,
+  },
+  socialPosts: {
+    id: 'socialPosts',
+    name: 'Social Repurposing',
+    description: 'Rewrites the article as posts for each social platform. The model must answer with JSON; thread numbering is added locally.',
+    variables: [
+      { name: 'topic', description: 'Article topic', sample: 'Best budget laptops for students' },
+      { name: 'language', description: 'Article language', sample: 'English' },
+      { name: 'tone', description: 'Article tone', sample: 'Casual' },
+      { name: 'link', description: 'Canonical URL of the article, or a note that there is none', sample: 'https://example.com/budget-laptops' },
+      { name: 'content', description: 'The first 8,000 characters of the article', sample: '# Best Budget Laptops for Students\n\nFinding a laptop that survives four years of lectures...' },
+    ],
+    defaultBody: `You are a social media editor. Repurpose the article below into native posts for each platform, in {{language}}, with a {{tone}} tone.
+
+Article link: {{link}}
+
+FORMATS:
+- "x": a thread of 4-8 posts, each under 270 characters (a link counts as 23). The first post is the hook; the last links to the article. 0-2 hashtags in the whole thread. Do not number the posts.
+- "linkedin": one post under 3,000 characters. Short paragraphs, a strong first line, a question or takeaway at the end, 3-5 hashtags on the last line.
+- "instagram": one caption under 2,200 characters. Hook in the first line, line breaks between ideas, "link in bio" instead of a URL, 5-15 hashtags at the end.
+- "pinterest": one pin description under 500 characters. Keyword-rich and descriptive, 2-5 hashtags at the end.
+- "facebook": one post under 500 characters. Conversational, ends with the link, 0-2 hashtags.
+
+RULES:
+- Use only facts from the article.
+- Hashtags are single words or CamelCase, with no spaces or punctuation.
+- No Markdown: no asterisks, no headings.
+
+Topic: {{topic}}
+
+ARTICLE:
+{{content}}`,
+  },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Unknown variables render as empty text so a typo never leaks "{{...}}" into a prompt
+export const renderTemplate = (body: string, variables: Record<string, string>): string =>
+  body.replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '');
+
+export const findUnknownVariables = (id: PromptTemplateId, body: string): string[] => {
+  const known = new Set(PROMPT_TEMPLATES[id].variables.map(v => v.name));
+  const used = Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]);
+  return Array.from(new Set(used.filter(name => !known.has(name))));
+};
+
+// -- Versions --
+// Only user-saved versions are stored; version 1 is always the built-in default.
+// Versions are never edited in place: restoring an old one saves it again as the newest.
+
+const readSavedVersions = (): Partial<Record<PromptTemplateId, PromptTemplateVersion[]>> => {
+  try {
+    const saved = localStorage.getItem(TEMPLATES_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error('Failed to read prompt templates', e);
+    return {};
+  }
+};
+
+export const getTemplateVersions = (id: PromptTemplateId): PromptTemplateVersion[] => [
+  { version: 1, body: PROMPT_TEMPLATES[id].defaultBody, savedAt: 0 },
+  ...(readSavedVersions()[id] || []),
+];
+
+export const getActiveTemplate = (id: PromptTemplateId): PromptTemplateVersion => {
+  const versions = getTemplateVersions(id);
+  return versions[versions.length - 1];
+};
+
+export const saveTemplateVersion = (id: PromptTemplateId, body: string): PromptTemplateVersion => {
+  const saved = readSavedVersions();
+  const version: PromptTemplateVersion = {
+    version: getActiveTemplate(id).version + 1,
+    body,
+    savedAt: Date.now(),
+  };
+  saved[id] = [...(saved[id] || []), version];
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(saved));
+  return version;
+};
+
+export const renderPrompt = (id: PromptTemplateId, variables: Record<string, string> = {}): string =>
+  renderTemplate(getActiveTemplate(id).body, variables);
+
+export const getSampleVariables = (id: PromptTemplateId): Record<string, string> => {
+  const samples = Object.fromEntries(PROMPT_TEMPLATES[id].variables.map(v => [v.name, v.sample]));
+  // Preview the article prompt with the guidelines the user actually has
+  if ('guidelines' in samples) samples.guidelines = renderPrompt('guidelines');
+  return samples;
+};
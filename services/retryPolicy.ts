@@ -0,0 +1,122 @@
+import { RetryPolicy } from '../types';
+import { classifyError, isAiServiceError, ModelUnavailableError } from './aiErrors';
+
+const RETRY_POLICY_KEY = 'ai_writer_retry_policy';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: true,
+  breakerThreshold: 5,
+  breakerCooldownMs: 60000,
+};
+
+export const getRetryPolicy = (): RetryPolicy => {
+  try {
+    const saved = localStorage.getItem(RETRY_POLICY_KEY);
+    return saved ? { ...DEFAULT_RETRY_POLICY, ...JSON.parse(saved) } : DEFAULT_RETRY_POLICY;
+  } catch (e) {
+    console.error('Failed to read retry policy', e);
+    return DEFAULT_RETRY_POLICY;
+  }
+};
+
+export const setRetryPolicy = (policy: RetryPolicy) => {
+  localStorage.setItem(RETRY_POLICY_KEY, JSON.stringify(policy));
+};
+
+// -- Circuit breaker --
+// After too many transient failures in a row every call fails fast for a cooldown period,
+// instead of each one burning through its own retries against a service that is down.
+// Once the cooldown ends a single trial call is let through; its result closes or re-opens the circuit.
+let consecutiveFailures = 0;
+let openUntil = 0;
+let trialInFlight = false;
+
+const assertCircuitClosed = () => {
+  const now = Date.now();
+  if (openUntil === 0) return;
+  if (now < openUntil || trialInFlight) {
+    const waitMs = Math.max(openUntil - now, 1000);
+    throw new ModelUnavailableError(
+      `Paused after ${consecutiveFailures} failed requests in a row. Try again in ${Math.ceil(waitMs / 1000)}s.`,
+      { retryAfterMs: waitMs }
+    );
+  }
+  trialInFlight = true;
+};
+
+const recordSuccess = () => {
+  consecutiveFailures = 0;
+  openUntil = 0;
+  trialInFlight = false;
+};
+
+const recordFailure = (policy: RetryPolicy) => {
+  consecutiveFailures++;
+  if (trialInFlight || consecutiveFailures >= policy.breakerThreshold) {
+    openUntil = Date.now() + policy.breakerCooldownMs;
+  }
+  trialInFlight = false;
+};
+
+export const resetCircuitBreaker = recordSuccess;
+
+const getDelay = (policy: RetryPolicy, attempt: number, retryAfterMs?: number) => {
+  const exponential = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+  // "Equal jitter": somewhere between half and all of the exponential delay
+  const backoff = policy.jitter ? exponential / 2 + Math.random() * (exponential / 2) : exponential;
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, backoff) : backoff;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => { clearTimeout(timer); reject(signal!.reason); };
+  // Long-lived signals see many retries, so each finished sleep drops its listener
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  // Return false to stop retrying, e.g. once a stream has already emitted text
+  canRetry?: () => boolean;
+}
+
+/**
+ * Runs a model call under the current retry policy. Errors are classified into the typed
+ * errors from aiErrors.ts; only transient ones (rate limits, overload, network) are retried.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const policy = getRetryPolicy();
+
+  for (let attempt = 0; ; attempt++) {
+    assertCircuitClosed();
+    try {
+      const result = await operation();
+      recordSuccess();
+      return result;
+    } catch (rawError) {
+      // SDKs word a cancelled request in their own way; the signal says whether the user cancelled
+      if (options.signal?.aborted) {
+        trialInFlight = false;
+        throw options.signal.reason;
+      }
+      const error = classifyError(rawError);
+      if (!isAiServiceError(error) || !error.retryable) {
+        // Not the service's fault, so it says nothing about whether the circuit should open
+        trialInFlight = false;
+        throw error;
+      }
+
+      recordFailure(policy);
+      const delay = getDelay(policy, attempt, error.retryAfterMs);
+      // A Retry-After longer than we are willing to wait is handed to the UI instead
+      if (attempt >= policy.maxRetries || delay > policy.maxDelayMs || options.canRetry?.() === false) throw error;
+
+      console.warn(`${error.name}: retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${policy.maxRetries})`);
+      await sleep(delay, options.signal);
+    }
+  }
+};
@@ -0,0 +1,58 @@
+// Web search used for grounded articles when it shouldn't (or can't) come from the model provider.
+// A configured backend takes priority over the provider's own search tool, so a fake one makes
+// grounded generation fully deterministic.
+
+export interface SearchResult {
+  title: string;
+  uri: string;
+  snippet: string;
+}
+
+export interface SearchBackend {
+  id: string;
+  search: (query: string, signal?: AbortSignal) => Promise<SearchResult[]>;
+}
+
+const MAX_RESULTS = 8;
+
+// SearXNG (https://docs.searxng.org) with the JSON output format enabled
+export const createSearxngBackend = (baseUrl: string): SearchBackend => ({
+  id: 'searxng',
+  search: async (query, signal) => {
+    const url = `${baseUrl.replace(/\/+$/, '')}/search?format=json&q=${encodeURIComponent(query)}`;
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw new Error(`Search request failed (${response.status})`);
+    const data = await response.json();
+    return (data?.results || [])
+      .filter((result: any) => result?.url)
+      .slice(0, MAX_RESULTS)
+      .map((result: any) => ({ title: result.title || result.url, uri: result.url, snippet: result.content || '' }));
+  },
+});
+
+// Returns canned results ranked by how many query words they contain; never touches the network
+export const createFakeSearchBackend = (results: SearchResult[]): SearchBackend => ({
+  id: 'fake',
+  search: async (query, signal) => {
+    signal?.throwIfAborted();
+    const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 2);
+    const score = (result: SearchResult) => {
+      const text = `${result.title} ${result.snippet}`.toLowerCase();
+      return words.filter(word => text.includes(word)).length;
+    };
+    return [...results].sort((a, b) => score(b) - score(a)).slice(0, MAX_RESULTS);
+  },
+});
+
+let overrideBackend: SearchBackend | null = null;
+
+// Pass null to go back to the configured backend
+export const setSearchBackend = (backend: SearchBackend | null) => {
+  overrideBackend = backend;
+};
+
+// Chosen at build time like the model provider (see vite.config.ts)
+export const getSearchBackend = (): SearchBackend | null => {
+  if (overrideBackend) return overrideBackend;
+  return process.env.SEARCH_API_URL ? createSearxngBackend(process.env.SEARCH_API_URL) : null;
+};
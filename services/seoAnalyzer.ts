@@ -0,0 +1,244 @@
+import { Language, SeoCheck, SeoCheckStatus, SeoMetadata, SeoReport } from '../types';
+
+// Local, deterministic SEO checks over the whole article. Same input, same report, no model calls.
+
+export interface SeoAnalyzerInput {
+  content: string;
+  keyword?: string | null;
+  language: Language;
+  seo?: SeoMetadata | null;
+}
+
+// Scripts written without spaces between words, where word-based metrics are meaningless
+const UNSPACED_LANGUAGES = new Set<Language>([Language.CHINESE, Language.JAPANESE, Language.THAI, Language.KHMER]);
+
+const LONG_SENTENCE_WORDS = 25;
+const LONG_PARAGRAPH_WORDS = 150;
+
+// -- Text extraction --
+
+interface ParsedArticle {
+  headings: { level: number; text: string }[];
+  paragraphs: string[]; // Prose blocks, without headings, lists, tables or images
+  listItems: string[];
+  images: { alt: string; url: string }[];
+}
+
+const stripInline = (text: string) =>
+  text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[\^\d+\]/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2')
+    .trim();
+
+const parseArticle = (markdown: string): ParsedArticle => {
+  const parsed: ParsedArticle = { headings: [], paragraphs: [], listItems: [], images: [] };
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length) parsed.paragraphs.push(stripInline(paragraph.join(' ')));
+    paragraph = [];
+  };
+
+  markdown.split('\n').forEach(raw => {
+    const line = raw.trim();
+    for (const match of line.matchAll(/!\[([^\]]*)\]\(([^)]*)\)/g)) {
+      parsed.images.push({ alt: match[1].trim(), url: match[2] });
+    }
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flush();
+      parsed.headings.push({ level: heading[1].length, text: stripInline(heading[2]) });
+    } else if (/^([-*+]|\d+[.)])\s+/.test(line)) {
+      flush();
+      parsed.listItems.push(stripInline(line.replace(/^([-*+]|\d+[.)])\s+/, '')));
+    } else if (!line || line.startsWith('|') || line.startsWith('[^') || /^!\[[^\]]*\]\([^)]*\)$/.test(line) || /^(-{3,}|\*{3,})$/.test(line)) {
+      flush();
+    } else {
+      paragraph.push(line.replace(/^>\s*/, ''));
+    }
+  });
+  flush();
+  return parsed;
+};
+
+const countWords = (text: string) => text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+const splitSentences = (text: string) =>
+  text.split(/(?<=[.!?。！？])\s+|(?<=[。！？])/).map(s => s.trim()).filter(s => countWords(s) > 0);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-phrase matches; a plural "s"/"es" on the last word still counts
+const countKeyword = (text: string, keyword: string, spaced: boolean) => {
+  const phrase = escapeRegExp(keyword.trim()).replace(/\s+/g, '\\s+');
+  const pattern = spaced ? `(?<![\\p{L}\\p{N}])${phrase}(?:e?s)?(?![\\p{L}\\p{N}])` : phrase;
+  return (text.match(new RegExp(pattern, 'giu')) || []).length;
+};
+
+// -- Readability --
+
+// Vowel-group heuristic; good enough for averages over a whole article
+const countSyllables = (word: string) => {
+  const cleaned = word.toLowerCase().replace(/[^a-zà-öø-ÿ]/g, '');
+  if (!cleaned) return 0;
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').match(/[aeiouyà-öø-ÿ]+/g);
+  return Math.max(1, groups?.length || 0);
+};
+
+// Flesch Reading Ease and its published adaptations, from average sentence length (asl) and syllables per word (asw)
+const READING_EASE: Partial<Record<Language, (asl: number, asw: number) => number>> = {
+  [Language.ENGLISH]: (asl, asw) => 206.835 - 1.015 * asl - 84.6 * asw,
+  [Language.GERMAN]: (asl, asw) => 180 - asl - 58.5 * asw, // Amstad
+  [Language.SPANISH]: (asl, asw) => 206.84 - 1.02 * asl - 60 * asw, // Fernández Huerta
+  [Language.FRENCH]: (asl, asw) => 207 - 1.015 * asl - 73.6 * asw, // Kandel & Moles
+  [Language.DUTCH]: (asl, asw) => 206.835 - 0.93 * asl - 77 * asw, // Douma
+  [Language.ITALIAN]: (asl, asw) => 217 - 1.3 * asl - 60 * asw, // Franchina & Vacca
+};
+
+// -- Checks --
+
+const check = (
+  id: string, label: string, status: SeoCheckStatus, weight: number, message: string, explanation: string
+): SeoCheck => ({ id, label, status, weight, message, explanation });
+
+const STATUS_VALUE: Record<SeoCheckStatus, number> = { pass: 1, warn: 0.5, fail: 0, skip: 0 };
+
+const percent = (value: number) => `${Math.round(value * 10) / 10}%`;
+
+export const analyzeSeo = ({ content, keyword, language, seo }: SeoAnalyzerInput): SeoReport => {
+  const article = parseArticle(content);
+  const spaced = !UNSPACED_LANGUAGES.has(language);
+  const prose = [...article.paragraphs, ...article.listItems];
+  const fullText = [...article.headings.map(h => h.text), ...prose].join('\n');
+  const words = countWords(prose.join(' '));
+  const sentences = prose.flatMap(splitSentences);
+  const focus = keyword?.trim() || null;
+  const keywordCount = focus ? countKeyword(fullText, focus, spaced) : 0;
+  const density = words ? (keywordCount / words) * 100 * (focus ? countWords(focus) : 1) : 0;
+  const checks: SeoCheck[] = [];
+
+  // Keyword placement
+  const noKeyword = 'Extract a focus keyword or enter target keywords to run this check.';
+  const h1s = article.headings.filter(h => h.level === 1);
+  const subheadings = article.headings.filter(h => h.level > 1);
+  if (!focus) {
+    checks.push(check('keyword-h1', 'Keyword in title', 'skip', 3, 'No focus keyword set.', noKeyword));
+    checks.push(check('keyword-intro', 'Keyword in introduction', 'skip', 2, 'No focus keyword set.', noKeyword));
+    checks.push(check('keyword-headings', 'Keyword in subheadings', 'skip', 1, 'No focus keyword set.', noKeyword));
+    checks.push(check('keyword-density', 'Keyword density', 'skip', 2, 'No focus keyword set.', noKeyword));
+  } else {
+    const inH1 = h1s.some(h => countKeyword(h.text, focus, spaced) > 0);
+    checks.push(check('keyword-h1', 'Keyword in title', inH1 ? 'pass' : 'fail', 3,
+      inH1 ? `"${focus}" appears in the H1.` : `"${focus}" is missing from the H1.`,
+      'Search engines weigh the title heavily. Put the keyword in the H1, ideally near the start.'));
+
+    const intro = article.paragraphs[0] || '';
+    const inIntro = countKeyword(intro, focus, spaced) > 0;
+    checks.push(check('keyword-intro', 'Keyword in introduction', inIntro ? 'pass' : 'warn', 2,
+      inIntro ? 'The first paragraph mentions the keyword.' : 'The first paragraph never mentions the keyword.',
+      'Mentioning the keyword early confirms to readers and crawlers that the page answers their query.'));
+
+    const headingHits = subheadings.filter(h => countKeyword(h.text, focus, spaced) > 0).length;
+    checks.push(check('keyword-headings', 'Keyword in subheadings', headingHits > 0 ? 'pass' : subheadings.length ? 'warn' : 'skip', 1,
+      subheadings.length ? `${headingHits} of ${subheadings.length} subheadings contain the keyword.` : 'The article has no subheadings.',
+      'Using the keyword (or a close variant) in one or two H2/H3 headings reinforces the topic without stuffing.'));
+
+    if (!spaced) {
+      checks.push(check('keyword-density', 'Keyword density', 'skip', 2, `Found ${keywordCount} times.`,
+        `Density is measured in words, which ${language} doesn't separate with spaces.`));
+    } else {
+      const status: SeoCheckStatus = density > 3 ? 'fail' : density >= 0.5 && density <= 2.5 ? 'pass' : 'warn';
+      checks.push(check('keyword-density', 'Keyword density', status, 2,
+        `${keywordCount} uses in ${words} words (${percent(density)}).`,
+        density > 3
+          ? 'This reads as keyword stuffing, which search engines penalise. Replace some uses with synonyms.'
+          : 'Aim for roughly 0.5–2.5%: enough to signal the topic, low enough to read naturally.'));
+    }
+  }
+
+  // Heading hierarchy
+  const hierarchyProblems: string[] = [];
+  if (h1s.length !== 1) hierarchyProblems.push(`${h1s.length} H1 headings (expected 1)`);
+  article.headings.forEach((h, i) => {
+    const previous = i > 0 ? article.headings[i - 1].level : 1;
+    if (h.level > previous + 1) hierarchyProblems.push(`"${h.text}" jumps from H${previous} to H${h.level}`);
+  });
+  if (words > 300 && subheadings.filter(h => h.level === 2).length < 2) hierarchyProblems.push('fewer than 2 H2 sections');
+  checks.push(check('heading-hierarchy', 'Heading structure', hierarchyProblems.length === 0 ? 'pass' : h1s.length !== 1 ? 'fail' : 'warn', 2,
+    hierarchyProblems.length ? `Found ${hierarchyProblems.slice(0, 3).join('; ')}.` : 'One H1 and headings nest without skipping levels.',
+    'A single H1 followed by nested H2/H3 headings helps crawlers understand the outline and makes the page skimmable.'));
+
+  // Paragraph and sentence length
+  if (!spaced) {
+    checks.push(check('paragraph-length', 'Paragraph length', 'skip', 1, 'Not measured.', `Word counts aren't meaningful for ${language}.`));
+    checks.push(check('sentence-length', 'Sentence length', 'skip', 1, 'Not measured.', `Word counts aren't meaningful for ${language}.`));
+  } else {
+    const longParagraphs = article.paragraphs.filter(p => countWords(p) > LONG_PARAGRAPH_WORDS).length;
+    checks.push(check('paragraph-length', 'Paragraph length', longParagraphs === 0 ? 'pass' : longParagraphs > 2 ? 'fail' : 'warn', 1,
+      longParagraphs ? `${longParagraphs} paragraph${longParagraphs === 1 ? ' is' : 's are'} over ${LONG_PARAGRAPH_WORDS} words.` : `All paragraphs are under ${LONG_PARAGRAPH_WORDS} words.`,
+      'Walls of text get skipped, especially on mobile. Split long paragraphs or turn them into lists.'));
+
+    const longSentences = sentences.filter(s => countWords(s) > LONG_SENTENCE_WORDS).length;
+    const longShare = sentences.length ? (longSentences / sentences.length) * 100 : 0;
+    checks.push(check('sentence-length', 'Sentence length', longShare <= 20 ? 'pass' : longShare <= 30 ? 'warn' : 'fail', 1,
+      `${percent(longShare)} of ${sentences.length} sentences are over ${LONG_SENTENCE_WORDS} words.`,
+      'Keep long sentences under about 20% of the total. Mix in short ones to keep the pace up.'));
+  }
+
+  // Readability
+  const formula = READING_EASE[language];
+  let readingEase: number | null = null;
+  if (formula && sentences.length && words) {
+    const syllables = prose.join(' ').split(/\s+/).reduce((sum, word) => sum + countSyllables(word), 0);
+    readingEase = Math.round(Math.max(0, Math.min(100, formula(words / sentences.length, syllables / words))));
+    checks.push(check('readability', 'Readability', readingEase >= 60 ? 'pass' : readingEase >= 40 ? 'warn' : 'fail', 2,
+      `Reading ease ${readingEase}/100 (${readingEase >= 70 ? 'easy' : readingEase >= 60 ? 'plain' : readingEase >= 40 ? 'fairly difficult' : 'difficult'}).`,
+      'Web readers skim. Aim for 60+ with shorter sentences and everyday words.'));
+  } else {
+    checks.push(check('readability', 'Readability', 'skip', 2, 'Not measured.',
+      formula ? 'The article has no prose to measure yet.' : `There is no Flesch-style formula for ${language}.`));
+  }
+
+  // Image alt text
+  const missingAlt = article.images.filter(image => !image.alt).length;
+  checks.push(check('image-alt', 'Image alt text',
+    article.images.length === 0 ? 'warn' : missingAlt === 0 ? 'pass' : 'fail', 1,
+    article.images.length === 0
+      ? 'The article has no inline images.'
+      : missingAlt ? `${missingAlt} of ${article.images.length} images have no alt text.` : `All ${article.images.length} images have alt text.`,
+    'Alt text makes images accessible and lets them rank in image search. Describe the image, using the keyword only where it fits.'));
+
+  // Meta lengths
+  if (!seo) {
+    checks.push(check('meta-length', 'Meta title & description', 'warn', 2, 'No SEO metadata yet.',
+      'Generate SEO metadata so search results show a title and description you chose.'));
+  } else {
+    const titleLength = seo.seoTitle.length;
+    const descriptionLength = seo.metaDescription.length;
+    const titleOk = titleLength >= 30 && titleLength <= 60;
+    const descriptionOk = descriptionLength >= 120 && descriptionLength <= 160;
+    const tooLong = titleLength > 60 || descriptionLength > 160;
+    checks.push(check('meta-length', 'Meta title & description', titleOk && descriptionOk ? 'pass' : tooLong ? 'fail' : 'warn', 2,
+      `Title ${titleLength} characters, description ${descriptionLength} characters.`,
+      'Titles of 30–60 and descriptions of 120–160 characters display in full in search results.'));
+  }
+
+  const scored = checks.filter(c => c.status !== 'skip');
+  const totalWeight = scored.reduce((sum, c) => sum + c.weight, 0);
+  const score = totalWeight ? Math.round((scored.reduce((sum, c) => sum + STATUS_VALUE[c.status] * c.weight, 0) / totalWeight) * 100) : 0;
+
+  return {
+    score,
+    keyword: focus,
+    checks,
+    stats: {
+      words,
+      sentences: sentences.length,
+      paragraphs: article.paragraphs.length,
+      keywordCount,
+      keywordDensity: Math.round(density * 100) / 100,
+      readingEase,
+    },
+  };
+};
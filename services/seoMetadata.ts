@@ -0,0 +1,103 @@
+import { SeoMetadata } from '../types';
+
+const SITE_URL_KEY = 'ai_writer_site_url';
+
+// Character limits past which search engines and social cards usually truncate
+export const SEO_LIMITS: Partial<Record<keyof SeoMetadata, number>> = {
+  seoTitle: 60,
+  metaDescription: 160,
+  excerpt: 300,
+  ogTitle: 90,
+  ogDescription: 200,
+  twitterTitle: 70,
+  twitterDescription: 200,
+  slug: 75,
+};
+
+export const getSiteUrl = (): string => localStorage.getItem(SITE_URL_KEY) || '';
+
+export const setSiteUrl = (url: string) => {
+  localStorage.setItem(SITE_URL_KEY, url.trim().replace(/\/+$/, ''));
+};
+
+export const slugify = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, SEO_LIMITS.slug)
+    .replace(/-+$/, '');
+
+export const buildCanonicalUrl = (slug: string, siteUrl = getSiteUrl()): string =>
+  siteUrl && slug ? `${siteUrl}/${slug}` : '';
+
+// Cuts at a word boundary and adds an ellipsis, so a model that ignores the limit can't produce a clipped word
+const clamp = (text: string, limit?: number): string => {
+  const trimmed = (text || '').trim().replace(/\s+/g, ' ');
+  if (!limit || trimmed.length <= limit) return trimmed;
+  const cut = trimmed.substring(0, limit - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  // Only back up to a word boundary when that doesn't throw away half the text
+  const end = lastSpace > limit / 2 ? lastSpace : cut.length;
+  return `${cut.substring(0, end).replace(/[\s,;:.-]+$/, '')}…`;
+};
+
+// Cleans model output: enforces limits, slugifies the slug and fills social fields from the SEO fields
+export const normalizeSeoMetadata = (raw: Partial<SeoMetadata>, fallbackTitle: string): SeoMetadata => {
+  const seoTitle = clamp(raw.seoTitle || fallbackTitle, SEO_LIMITS.seoTitle);
+  const metaDescription = clamp(raw.metaDescription || '', SEO_LIMITS.metaDescription);
+  const slug = slugify(raw.slug || seoTitle);
+  return {
+    seoTitle,
+    metaDescription,
+    slug,
+    excerpt: clamp(raw.excerpt || metaDescription, SEO_LIMITS.excerpt),
+    ogTitle: clamp(raw.ogTitle || seoTitle, SEO_LIMITS.ogTitle),
+    ogDescription: clamp(raw.ogDescription || metaDescription, SEO_LIMITS.ogDescription),
+    twitterCard: raw.twitterCard === 'summary' ? 'summary' : 'summary_large_image',
+    twitterTitle: clamp(raw.twitterTitle || raw.ogTitle || seoTitle, SEO_LIMITS.twitterTitle),
+    twitterDescription: clamp(raw.twitterDescription || raw.ogDescription || metaDescription, SEO_LIMITS.twitterDescription),
+    canonicalUrl: raw.canonicalUrl || buildCanonicalUrl(slug),
+  };
+};
+
+// Swaps the SEO title while keeping the other fields; the social titles follow it only where they still matched
+export const applySeoTitle = (seo: SeoMetadata | null, title: string): SeoMetadata => {
+  if (!seo) return normalizeSeoMetadata({ seoTitle: title }, title);
+  const seoTitle = clamp(title, SEO_LIMITS.seoTitle);
+  return {
+    ...seo,
+    seoTitle,
+    ogTitle: seo.ogTitle === seo.seoTitle ? clamp(title, SEO_LIMITS.ogTitle) : seo.ogTitle,
+    twitterTitle: seo.twitterTitle === seo.seoTitle ? clamp(title, SEO_LIMITS.twitterTitle) : seo.twitterTitle,
+  };
+};
+
+export const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Data URLs are skipped for og:image since crawlers can only fetch real URLs
+export const buildMetaTags = (seo: SeoMetadata, imageUrl?: string | null): string => {
+  const tags: string[] = [];
+  const meta = (attribute: 'name' | 'property', key: string, value: string) => {
+    if (value) tags.push(`<meta ${attribute}="${key}" content="${escapeAttribute(value)}">`);
+  };
+
+  meta('name', 'description', seo.metaDescription);
+  if (seo.canonicalUrl) tags.push(`<link rel="canonical" href="${escapeAttribute(seo.canonicalUrl)}">`);
+
+  meta('property', 'og:type', 'article');
+  meta('property', 'og:title', seo.ogTitle);
+  meta('property', 'og:description', seo.ogDescription);
+  meta('property', 'og:url', seo.canonicalUrl);
+  if (imageUrl && !imageUrl.startsWith('data:')) meta('property', 'og:image', imageUrl);
+
+  meta('name', 'twitter:card', seo.twitterCard);
+  meta('name', 'twitter:title', seo.twitterTitle);
+  meta('name', 'twitter:description', seo.twitterDescription);
+  if (imageUrl && !imageUrl.startsWith('data:')) meta('name', 'twitter:image', imageUrl);
+
+  return tags.join('\n        ');
+};
@@ -0,0 +1,67 @@
+import { SocialPlatform, SocialPosts } from '../types';
+
+export interface PlatformRules {
+  label: string;
+  limit: number; // Characters per post
+  hashtags: { min: number; max: number }; // What reads as native on the platform, not a hard limit
+}
+
+// Facebook allows far longer posts, but anything past the "See more" fold is rarely read
+export const SOCIAL_PLATFORMS: Record<SocialPlatform, PlatformRules> = {
+  x: { label: 'X Thread', limit: 280, hashtags: { min: 0, max: 2 } },
+  linkedin: { label: 'LinkedIn', limit: 3000, hashtags: { min: 3, max: 5 } },
+  instagram: { label: 'Instagram', limit: 2200, hashtags: { min: 5, max: 30 } },
+  pinterest: { label: 'Pinterest', limit: 500, hashtags: { min: 2, max: 5 } },
+  facebook: { label: 'Facebook', limit: 500, hashtags: { min: 0, max: 2 } },
+};
+
+export const SOCIAL_PLATFORM_IDS = Object.keys(SOCIAL_PLATFORMS) as SocialPlatform[];
+
+// Longest thread the prompt asks for; longer ones are cut here
+const MAX_THREAD_POSTS = 10;
+
+// X shortens every link to a 23-character t.co URL, whatever its real length
+const X_LINK_LENGTH = 23;
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+const HASHTAG_PATTERN = /(^|\s)#[\p{L}\p{N}_]+/gu;
+
+// Counts code points rather than UTF-16 units, so an emoji counts once
+export const countCharacters = (text: string, platform: SocialPlatform): number => {
+  const counted = platform === 'x' ? text.replace(URL_PATTERN, 'x'.repeat(X_LINK_LENGTH)) : text;
+  return Array.from(counted).length;
+};
+
+export const countHashtags = (text: string): number => (text.match(HASHTAG_PATTERN) || []).length;
+
+// Hashtags are counted across the whole thread, since they're usually only on the first or last post
+export const getHashtagWarning = (posts: string[], platform: SocialPlatform): string | null => {
+  const count = posts.reduce((sum, post) => sum + countHashtags(post), 0);
+  const { min, max } = SOCIAL_PLATFORMS[platform].hashtags;
+  if (count > max) return `${count} hashtags; ${SOCIAL_PLATFORMS[platform].label} posts usually use ${max} or fewer`;
+  if (count < min) return `${count} hashtags; ${SOCIAL_PLATFORMS[platform].label} posts usually use at least ${min}`;
+  return null;
+};
+
+// "1/5" is added here rather than trusted to the model, so edited or trimmed threads stay numbered right
+export const numberThread = (posts: string[]): string[] =>
+  posts.length < 2 ? posts : posts.map((post, i) => `${post} ${i + 1}/${posts.length}`);
+
+// Removes numbering the model added itself, matched by position so "rated 4/5" survives
+const stripThreadNumber = (post: string, index: number): string => {
+  const number = `${index + 1}\\s*/\\s*\\d*`;
+  return post.replace(new RegExp(`^\\(?${number}\\)?[.:]?\\s+`), '').replace(new RegExp(`\\s+\\(?${number}\\)?$`), '');
+};
+
+// Cleans model output: trims posts, drops empty ones and caps the thread length
+export const normalizeSocialPosts = (raw: Partial<Record<SocialPlatform, string | string[]>>): SocialPosts =>
+  SOCIAL_PLATFORM_IDS.reduce((posts, platform) => {
+    const value = raw[platform];
+    const cleaned = (Array.isArray(value) ? value : [value || ''])
+      .map(post => (typeof post === 'string' ? post.trim() : ''))
+      .filter(Boolean);
+    posts[platform] = platform === 'x'
+      ? cleaned.slice(0, MAX_THREAD_POSTS).map((post, i) => stripThreadNumber(post, i).trim())
+      : cleaned.slice(0, 1);
+    return posts;
+  }, {} as SocialPosts);
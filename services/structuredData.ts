@@ -0,0 +1,280 @@
+import { ArticleFormatId, Language, SeoMetadata } from '../types';
+import { LANGUAGE_CODES } from './translations';
+
+// schema.org JSON-LD built from the article Markdown alone; nothing here calls a model
+
+export type SchemaType = 'BlogPosting' | 'Recipe' | 'Product' | 'FAQPage';
+
+export interface SchemaIssue {
+  schemaType: SchemaType;
+  severity: 'error' | 'warning'; // Errors keep the block out of the export
+  message: string;
+}
+
+export interface StructuredDataResult {
+  blocks: { schemaType: SchemaType; data: Record<string, unknown> }[];
+  issues: SchemaIssue[];
+}
+
+export interface StructuredDataInput {
+  content: string;
+  topic: string; // Product name for reviews
+  formatId: ArticleFormatId;
+  language: Language;
+  seo?: SeoMetadata | null;
+  imageUrl?: string | null;
+  authorName?: string;
+  datePublished: number;
+}
+
+// -- Markdown helpers --
+
+const stripInline = (text: string) =>
+  text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[\^\d+\]/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2')
+    .replace(/^>\s*/, '')
+    .trim();
+
+const headingLevel = (line: string) => line.match(/^(#{1,6})\s/)?.[1].length || 0;
+const isBoldLabel = (line: string) => /^\*\*[^*]+\*\*:?\s*$/.test(line);
+
+// Lines under the first heading or bold label line matching `label`. A heading runs to the next heading
+// of the same or higher level; a bold label ("**Pros:**") runs to the next heading or bold label.
+const getSection = (markdown: string, label: RegExp): string[] | null => {
+  const lines = markdown.split('\n').map(line => line.trim());
+  const start = lines.findIndex(line => (headingLevel(line) > 0 || isBoldLabel(line)) && label.test(line));
+  if (start === -1) return null;
+  const level = headingLevel(lines[start]);
+  const end = lines.findIndex((line, i) => i > start && (
+    level ? headingLevel(line) > 0 && headingLevel(line) <= level : headingLevel(line) > 0 || isBoldLabel(line)
+  ));
+  return lines.slice(start + 1, end === -1 ? undefined : end);
+};
+
+const bulletItems = (lines: string[]) =>
+  lines.map(l => l.trim()).filter(l => /^[-*+]\s+\S/.test(l)).map(l => stripInline(l.replace(/^[-*+]\s+/, '')));
+
+const numberedItems = (lines: string[]) =>
+  lines.map(l => l.trim()).filter(l => /^\d+[.)]\s+\S/.test(l)).map(l => stripInline(l.replace(/^\d+[.)]\s+/, '')));
+
+const tableRows = (lines: string[]): string[][] =>
+  lines
+    .map(l => l.trim())
+    .filter(l => /^\|.*\|$/.test(l) && !/^\|?\s*:?-{3,}/.test(l))
+    .map(l => l.slice(1, -1).split('|').map(cell => stripInline(cell)));
+
+// Reads "key: value" facts from either a one-row table with a header, or a two-column key/value table
+const tableFacts = (lines: string[]): Record<string, string> => {
+  const rows = tableRows(lines);
+  const facts: Record<string, string> = {};
+  if (rows.length === 0) return facts;
+  const isKeyValue = rows.every(row => row.length === 2) && rows.length > 2;
+  if (isKeyValue) {
+    rows.forEach(([key, value]) => { facts[key.toLowerCase()] = value; });
+  } else if (rows.length >= 2) {
+    rows[0].forEach((key, i) => { facts[key.toLowerCase()] = rows[1][i] || ''; });
+  }
+  return facts;
+};
+
+const findFact = (facts: Record<string, string>, pattern: RegExp) =>
+  Object.entries(facts).find(([key]) => pattern.test(key))?.[1];
+
+// "1 hr 30 mins" -> PT1H30M; only the first number of a range ("20-25 min") is used
+export const toIsoDuration = (text?: string): string | undefined => {
+  if (!text) return undefined;
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/i);
+  const minutes = text.match(/(\d+)\s*(?:-\s*\d+\s*)?(?:m|min|mins|minute|minutes)\b/i);
+  if (!hours && !minutes) return undefined;
+  const totalMinutes = Math.round(parseFloat(hours?.[1] || '0') * 60) + parseInt(minutes?.[1] || '0');
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `PT${h ? `${h}H` : ''}${m || !h ? `${m}M` : ''}`;
+};
+
+const firstNumber = (text?: string) => text?.match(/\d+(?:\.\d+)?/)?.[0];
+
+// Crawlers can't fetch data URLs, so only real image URLs count
+const publicImage = (url?: string | null) => url && !url.startsWith('data:') ? url : undefined;
+
+const firstParagraph = (markdown: string) =>
+  markdown.split('\n').map(l => l.trim()).find(l => l && !isBoldLabel(l) && !/^(#|!\[|\||[-*+]\s|\d+[.)]\s|>)/.test(l));
+
+// Drops undefined values so they don't show up as missing keys in the JSON
+const compact = <T extends Record<string, unknown>>(data: T): T =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined && value !== '')) as T;
+
+// -- Builders --
+
+const buildArticle = (input: StructuredDataInput, headline: string, image?: string) => compact({
+  '@context': 'https://schema.org',
+  '@type': 'BlogPosting',
+  headline: headline.substring(0, 110), // Google truncates headlines past 110 characters
+  description: input.seo?.metaDescription || stripInline(firstParagraph(input.content) || '').substring(0, 300),
+  image,
+  datePublished: new Date(input.datePublished).toISOString(),
+  inLanguage: LANGUAGE_CODES[input.language],
+  author: input.authorName ? { '@type': 'Person', name: input.authorName } : undefined,
+  mainEntityOfPage: input.seo?.canonicalUrl || undefined,
+});
+
+const buildRecipe = (input: StructuredDataInput, name: string, image?: string) => {
+  const facts = tableFacts(getSection(input.content, /recipe facts|prep time/i) || input.content.split('\n'));
+  const calories = firstNumber(findFact(facts, /calorie/));
+  const nutritionLines = getSection(input.content, /nutrition/i) || [];
+  const nutrient = (pattern: RegExp) => {
+    const line = nutritionLines.find(l => pattern.test(l));
+    const grams = line?.match(/(\d+(?:\.\d+)?)\s*g\b/i)?.[1];
+    return grams ? `${grams} g` : undefined;
+  };
+
+  return compact({
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name,
+    image,
+    description: input.seo?.metaDescription || stripInline(firstParagraph(input.content) || '').substring(0, 300),
+    author: input.authorName ? { '@type': 'Person', name: input.authorName } : undefined,
+    datePublished: new Date(input.datePublished).toISOString(),
+    prepTime: toIsoDuration(findFact(facts, /prep/)),
+    cookTime: toIsoDuration(findFact(facts, /cook/)),
+    totalTime: toIsoDuration(findFact(facts, /total/)),
+    recipeYield: firstNumber(findFact(facts, /serv|yield/)),
+    recipeIngredient: bulletItems(getSection(input.content, /ingredients/i) || []),
+    recipeInstructions: numberedItems(getSection(input.content, /instructions|directions|method/i) || [])
+      .map(text => ({ '@type': 'HowToStep', text })),
+    nutrition: calories || nutritionLines.length ? compact({
+      '@type': 'NutritionInformation',
+      calories: calories ? `${calories} calories` : undefined,
+      proteinContent: nutrient(/protein/i),
+      carbohydrateContent: nutrient(/carb/i),
+      fatContent: nutrient(/\bfat\b/i),
+    }) : undefined,
+  });
+};
+
+const buildProductReview = (input: StructuredDataInput, image?: string) => {
+  const rating = input.content.match(/rating[^\n]*?(\d+(?:\.\d+)?)\s*\/\s*(5|10)\b/i);
+  const verdict = input.content.match(/^>\s*\*\*Verdict:?\*\*:?\s*(.+)$/im)?.[1];
+  // Skip a combined "Pros and Cons" heading in favour of the separate lists under it
+  const pros = bulletItems(getSection(input.content, /^(?!.*\bcons\b).*\bpros\b/i) || []);
+  const cons = bulletItems(getSection(input.content, /^(?!.*\bpros\b).*\bcons\b/i) || []);
+  const itemList = (items: string[]) => items.length ? {
+    '@type': 'ItemList',
+    itemListElement: items.map((name, i) => ({ '@type': 'ListItem', position: i + 1, name })),
+  } : undefined;
+
+  return compact({
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: input.topic,
+    image,
+    review: compact({
+      '@type': 'Review',
+      name: input.seo?.seoTitle || undefined,
+      reviewBody: verdict ? stripInline(verdict) : undefined,
+      datePublished: new Date(input.datePublished).toISOString(),
+      author: input.authorName ? { '@type': 'Person', name: input.authorName } : undefined,
+      reviewRating: rating ? { '@type': 'Rating', ratingValue: rating[1], bestRating: rating[2], worstRating: '1' } : undefined,
+      positiveNotes: itemList(pros),
+      negativeNotes: itemList(cons),
+    }),
+  });
+};
+
+// Questions are H3 headings (or bold lines) ending in "?" inside an FAQ section; the answer is the text below each
+const buildFaq = (content: string) => {
+  const lines = getSection(content, /\bFAQs?\b|frequently asked/i);
+  if (!lines) return null;
+  const questions: { name: string; answer: string[] }[] = [];
+  lines.forEach(line => {
+    const trimmed = line.trim();
+    const question = trimmed.match(/^(?:#{3,6}\s+|\*\*)(?:Q[:.]\s*)?(.+\?)(?:\*\*)?$/);
+    if (question) questions.push({ name: stripInline(question[1]), answer: [] });
+    else if (trimmed && questions.length) questions[questions.length - 1].answer.push(stripInline(trimmed.replace(/^(?:[-*+]\s+|A[:.]\s*)/, '')));
+  });
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: questions.map(q => ({
+      '@type': 'Question',
+      name: q.name,
+      acceptedAnswer: { '@type': 'Answer', text: q.answer.join(' ') },
+    })),
+  };
+};
+
+// -- Validation --
+// Required properties follow Google's rich result requirements; recommended ones only warn.
+
+// Pairs each schema type with its builder's output, so validation checks the properties the builder sets
+type SchemaCandidate =
+  | { schemaType: 'BlogPosting'; data: ReturnType<typeof buildArticle> }
+  | { schemaType: 'Recipe'; data: ReturnType<typeof buildRecipe> }
+  | { schemaType: 'Product'; data: ReturnType<typeof buildProductReview> }
+  | { schemaType: 'FAQPage'; data: NonNullable<ReturnType<typeof buildFaq>> };
+
+const validate = ({ schemaType, data }: SchemaCandidate): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  const error = (message: string) => issues.push({ schemaType, severity: 'error', message });
+  const warning = (message: string) => issues.push({ schemaType, severity: 'warning', message });
+
+  switch (schemaType) {
+    case 'BlogPosting':
+      if (!data.headline) error('Missing headline (H1)');
+      if (!data.image) warning('No public image URL (data-URL covers are not crawlable)');
+      if (!data.author) warning('No author name');
+      break;
+    case 'Recipe':
+      if (!data.name) error('Missing recipe name (H1)');
+      if (!data.image) error('Recipe rich results need a public image URL');
+      if (!data.recipeIngredient?.length) error('No ingredient list found under an "Ingredients" heading');
+      if (!data.recipeInstructions?.length) error('No numbered steps found under an "Instructions" heading');
+      if (!data.totalTime && !data.prepTime && !data.cookTime) warning('No prep, cook or total time in the recipe facts table');
+      if (!data.recipeYield) warning('No servings in the recipe facts table');
+      if (!data.nutrition?.calories) warning('No calories in the recipe facts table');
+      break;
+    case 'Product':
+      if (!data.name) error('Missing product name (topic)');
+      if (!data.review?.reviewRating) error('No "Rating: X/10" line found');
+      if (!data.review?.author) error('Reviews need an author name');
+      if (!data.review?.positiveNotes && !data.review?.negativeNotes) warning('No pros or cons lists found');
+      break;
+    case 'FAQPage':
+      if (!data.mainEntity.length) error('FAQ section has no questions ending in "?"');
+      data.mainEntity.forEach(q => { if (!q.acceptedAnswer.text) error(`No answer for "${q.name}"`); });
+      break;
+  }
+  return issues;
+};
+
+export const buildStructuredData = (input: StructuredDataInput): StructuredDataResult => {
+  const h1 = input.content.match(/^#\s+(.+)$/m)?.[1];
+  const headline = stripInline(h1 || input.seo?.seoTitle || input.topic);
+  const image = publicImage(input.imageUrl);
+
+  const candidates: SchemaCandidate[] = [
+    { schemaType: 'BlogPosting', data: buildArticle(input, headline, image) },
+  ];
+  if (input.formatId === 'recipe') candidates.push({ schemaType: 'Recipe', data: buildRecipe(input, headline, image) });
+  if (input.formatId === 'review') candidates.push({ schemaType: 'Product', data: buildProductReview(input, image) });
+  const faq = buildFaq(input.content);
+  if (faq) candidates.push({ schemaType: 'FAQPage', data: faq });
+
+  const issues: SchemaIssue[] = [];
+  const blocks = candidates.filter(candidate => {
+    const found = validate(candidate);
+    issues.push(...found);
+    return !found.some(issue => issue.severity === 'error');
+  });
+  return { blocks, issues };
+};
+
+// "</script>" inside a string would end the tag early, so "<" is escaped as a JSON unicode escape
+export const renderJsonLd = (result: StructuredDataResult): string =>
+  result.blocks
+    .map(block => `<script type="application/ld+json">${JSON.stringify(block.data).replace(/</g, '\\u003c')}</script>`)
+    .join('\n        ');
@@ -0,0 +1,88 @@
+import { Language, SavedArticle } from '../types';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// BCP 47 codes used for <html lang> and hreflang
+export const LANGUAGE_CODES: Record<Language, string> = {
+  [Language.ENGLISH]: 'en',
+  [Language.SPANISH]: 'es',
+  [Language.FRENCH]: 'fr',
+  [Language.GERMAN]: 'de',
+  [Language.ITALIAN]: 'it',
+  [Language.DUTCH]: 'nl',
+  [Language.PORTUGUESE]: 'pt',
+  [Language.RUSSIAN]: 'ru',
+  [Language.CHINESE]: 'zh',
+  [Language.JAPANESE]: 'ja',
+  [Language.KOREAN]: 'ko',
+  [Language.HINDI]: 'hi',
+  [Language.ARABIC]: 'ar',
+  [Language.TURKISH]: 'tr',
+  [Language.VIETNAMESE]: 'vi',
+  [Language.THAI]: 'th',
+  [Language.KHMER]: 'km',
+};
+
+// -- Image protection --
+// Image URLs (often multi-megabyte data URLs) are swapped for short tokens before translation
+// and put back afterwards, so the model can't mangle them and the prompt stays small.
+
+const IMAGE_PATTERN = /(!\[[^\]]*\]\()([^)]+)(\))/g;
+const IMAGE_TOKEN_PATTERN = /image-ref-(\d+)/g;
+
+export const protectImages = (markdown: string): { text: string; images: string[] } => {
+  const images: string[] = [];
+  const text = markdown.replace(IMAGE_PATTERN, (_, open: string, url: string, close: string) => {
+    images.push(url);
+    return `${open}image-ref-${images.length}${close}`;
+  });
+  return { text, images };
+};
+
+export const restoreImages = (markdown: string, images: string[]): string =>
+  markdown.replace(IMAGE_TOKEN_PATTERN, (token, index: string) => images[parseInt(index) - 1] ?? token);
+
+// -- Structure check --
+
+const countMatches = (markdown: string, pattern: RegExp) => (markdown.match(pattern) || []).length;
+
+const STRUCTURE_PROBES: { label: string; pattern: RegExp }[] = [
+  { label: 'headings', pattern: /^#{1,6}\s/gm },
+  { label: 'table rows', pattern: /^\s*\|.*\|\s*$/gm },
+  { label: 'images', pattern: /!\[[^\]]*\]\([^)]+\)/g },
+];
+
+// Lists what the translation lost or added compared to the source, e.g. "headings: 8 → 7"
+export const compareStructure = (source: string, translation: string): string[] =>
+  STRUCTURE_PROBES.flatMap(({ label, pattern }) => {
+    const before = countMatches(source, pattern);
+    const after = countMatches(translation, pattern);
+    return before === after ? [] : [`${label}: ${before} → ${after}`];
+  });
+
+// -- Linked records --
+
+// Every article in a translation set shares the id of the original as its group id
+export const getTranslationGroup = (article: SavedArticle, savedArticles: SavedArticle[]): SavedArticle[] => {
+  const groupId = article.translationGroupId || article.id;
+  return savedArticles.filter(a => a.id === groupId || a.translationGroupId === groupId);
+};
+
+export const createTranslationRecord = (
+  source: SavedArticle,
+  language: Language,
+  content: string
+): SavedArticle => ({
+  id: generateId(),
+  topic: content.match(/^#\s+(.+)$/m)?.[1].trim() || source.topic,
+  content,
+  date: Date.now(),
+  type: source.type,
+  imageUrl: source.imageUrl,
+  language,
+  translationGroupId: source.translationGroupId || source.id,
+  translatedFromId: source.id,
+});
+
+export const getExportFileName = (topic: string, extension: string) =>
+  `${topic.replace(/\s+/g, '_') || 'article'}.${extension}`;
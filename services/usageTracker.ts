@@ -0,0 +1,203 @@
+import { ImageSize, UsageRecord, ModelPrice, UsageBudget } from '../types';
+
+const USAGE_KEY = 'ai_writer_usage';
+const PRICES_KEY = 'ai_writer_prices';
+const BUDGET_KEY = 'ai_writer_budget';
+
+// Keeps localStorage bounded; a few months of heavy use fits comfortably
+const MAX_RECORDS = 2000;
+
+// Published list prices in USD. Users can override these in Settings when pricing changes.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  'gemini-2.5-flash-image': {
+    inputPerMillion: 0.30,
+    outputPerMillion: 30.00,
+    perImage: { [ImageSize.S_1K]: 0.039 },
+  },
+  'gemini-3-pro-image-preview': {
+    inputPerMillion: 2.00,
+    outputPerMillion: 120.00,
+    perImage: { [ImageSize.S_1K]: 0.134, [ImageSize.S_2K]: 0.134, [ImageSize.S_4K]: 0.24 },
+  },
+};
+
+export const DEFAULT_BUDGET: UsageBudget = { sessionLimit: null, monthlyLimit: null, mode: 'warn' };
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export const isBudgetExceededError = (error: any): boolean => error?.name === 'BudgetExceededError';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (e) {
+    console.error(`Failed to read ${key}`, e);
+    return fallback;
+  }
+};
+
+// "Session" means since this page was loaded
+const sessionStart = Date.now();
+let records: UsageRecord[] = readJson<UsageRecord[]>(USAGE_KEY, []);
+// Estimated cost of image calls still in flight, so parallel requests cannot all slip under the limit
+let reservedCost = 0;
+
+const usageListeners = new Set<() => void>();
+const budgetListeners = new Set<(message: string, blocked: boolean) => void>();
+// Each limit warns once per value, so raising it re-arms the warning
+const warnedLimits = new Set<string>();
+
+const startOfMonth = () => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+};
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+export const getPrices = (): Record<string, ModelPrice> => ({
+  ...DEFAULT_PRICES,
+  ...readJson<Record<string, ModelPrice>>(PRICES_KEY, {}),
+});
+
+export const setModelPrice = (model: string, price: ModelPrice) => {
+  const overrides = readJson<Record<string, ModelPrice>>(PRICES_KEY, {});
+  localStorage.setItem(PRICES_KEY, JSON.stringify({ ...overrides, [model]: price }));
+  usageListeners.forEach(listener => listener());
+};
+
+export const resetPrices = () => {
+  localStorage.removeItem(PRICES_KEY);
+  usageListeners.forEach(listener => listener());
+};
+
+export const getBudget = (): UsageBudget => ({ ...DEFAULT_BUDGET, ...readJson<Partial<UsageBudget>>(BUDGET_KEY, {}) });
+
+export const setBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  usageListeners.forEach(listener => listener());
+};
+
+type UsageEntry = Omit<UsageRecord, 'id' | 'timestamp' | 'cost'>;
+
+// Unknown models (e.g. a local endpoint) cost nothing unless the user adds a price for them
+export const estimateCost = (entry: Pick<UsageEntry, 'model' | 'inputTokens' | 'outputTokens' | 'imageCount' | 'imageSize'>): number => {
+  const price = getPrices()[entry.model];
+  if (!price) return 0;
+
+  const inputCost = (entry.inputTokens / 1_000_000) * price.inputPerMillion;
+  const imagePrice = price.perImage?.[entry.imageSize || ImageSize.S_1K];
+  const outputCost = entry.imageCount > 0 && imagePrice !== undefined
+    ? entry.imageCount * imagePrice
+    : (entry.outputTokens / 1_000_000) * price.outputPerMillion;
+  return inputCost + outputCost;
+};
+
+// Rough fallback for endpoints that do not report usage, or streams cut off before the final chunk
+export const approximateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const getUsageRecords = (): UsageRecord[] => records;
+
+export const getUsageTotals = () => {
+  const monthStart = startOfMonth();
+  let session = 0;
+  let month = 0;
+  records.forEach(record => {
+    if (record.timestamp >= sessionStart) session += record.cost;
+    if (record.timestamp >= monthStart) month += record.cost;
+  });
+  return { session, month };
+};
+
+const findExceededLimits = (estimatedCost: number): { key: string; message: string }[] => {
+  const budget = getBudget();
+  const totals = getUsageTotals();
+  const exceeded: { key: string; message: string }[] = [];
+
+  if (budget.sessionLimit !== null && totals.session + reservedCost + estimatedCost >= budget.sessionLimit) {
+    exceeded.push({
+      key: `session:${budget.sessionLimit}`,
+      message: `Session budget of ${formatUsd(budget.sessionLimit)} reached (${formatUsd(totals.session)} spent).`,
+    });
+  }
+  if (budget.monthlyLimit !== null && totals.month + reservedCost + estimatedCost >= budget.monthlyLimit) {
+    exceeded.push({
+      key: `month:${startOfMonth()}:${budget.monthlyLimit}`,
+      message: `Monthly budget of ${formatUsd(budget.monthlyLimit)} reached (${formatUsd(totals.month)} spent).`,
+    });
+  }
+  return exceeded;
+};
+
+const warnOnce = (exceeded: { key: string; message: string }[], suffix: string = '') => {
+  exceeded
+    .filter(limit => !warnedLimits.has(limit.key))
+    .forEach(limit => {
+      warnedLimits.add(limit.key);
+      budgetListeners.forEach(listener => listener(limit.message + suffix, false));
+    });
+};
+
+/**
+ * Called by providers before every request. In 'block' mode a request that would go over
+ * a limit is rejected with a BudgetExceededError; in 'warn' mode it goes ahead after a warning.
+ */
+export const checkBudget = (estimatedCost: number = 0) => {
+  const exceeded = findExceededLimits(estimatedCost);
+  if (exceeded.length === 0) return;
+
+  if (getBudget().mode === 'block') {
+    const message = `${exceeded[0].message} Raise the limit in Settings to keep generating.`;
+    budgetListeners.forEach(listener => listener(message, true));
+    throw new BudgetExceededError(message);
+  }
+  warnOnce(exceeded);
+};
+
+// Like checkBudget, but holds the estimate against the limits until the returned release() is called
+export const reserveBudget = (estimatedCost: number): (() => void) => {
+  checkBudget(estimatedCost);
+  reservedCost += estimatedCost;
+  return () => { reservedCost -= estimatedCost; };
+};
+
+export const recordUsage = (entry: UsageEntry) => {
+  const record: UsageRecord = {
+    ...entry,
+    id: generateId(),
+    timestamp: Date.now(),
+    cost: estimateCost(entry),
+  };
+  records = [...records, record].slice(-MAX_RECORDS);
+  localStorage.setItem(USAGE_KEY, JSON.stringify(records));
+  usageListeners.forEach(listener => listener());
+
+  // Tell the user as soon as a limit is crossed rather than on their next request
+  const blocking = getBudget().mode === 'block';
+  warnOnce(findExceededLimits(0), blocking ? ' Further requests will be blocked.' : '');
+};
+
+export const clearUsage = () => {
+  records = [];
+  warnedLimits.clear();
+  localStorage.removeItem(USAGE_KEY);
+  usageListeners.forEach(listener => listener());
+};
+
+export const subscribeToUsage = (listener: () => void) => {
+  usageListeners.add(listener);
+  return () => { usageListeners.delete(listener); };
+};
+
+export const onBudgetNotice = (listener: (message: string, blocked: boolean) => void) => {
+  budgetListeners.add(listener);
+  return () => { budgetListeners.delete(listener); };
+};
@@ -0,0 +1,54 @@
+import { WordCountTarget } from '../types';
+import { FOOTNOTE_MARKER_PATTERN, splitReferences } from './citations';
+
+export type WordCountStatus = 'short' | 'onTarget' | 'long';
+
+export const MIN_TARGET_WORDS = 100;
+export const MAX_TARGET_WORDS = 10000;
+
+// A single-number target counts as met within this share either side of it
+const SINGLE_TARGET_TOLERANCE = 0.1;
+
+// Chinese and Japanese are written without spaces, so each character counts as a word
+const CJK_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+
+// Words a reader sees: image lines, link targets, footnote markers and the References list don't count
+export const countArticleWords = (markdown: string): number => {
+  const prose = splitReferences(markdown).body
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\]\([^)]*\)/g, '] ')
+    .replace(FOOTNOTE_MARKER_PATTERN, ' ');
+  const characters = prose.match(CJK_CHARACTER)?.length || 0;
+  const words = prose.replace(CJK_CHARACTER, ' ').split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+  return words + characters;
+};
+
+// Accepts "1500", "1,500" or a range like "1200-1500"; anything else (or nothing) is null
+export const parseWordTarget = (input: string): WordCountTarget | null => {
+  const match = input.replace(/[,\s]/g, '').match(/^(\d+)(?:[-–](\d+))?$/);
+  if (!match) return null;
+  const first = parseInt(match[1]);
+  const second = match[2] ? parseInt(match[2]) : first;
+  const min = Math.min(first, second);
+  const max = Math.max(first, second);
+  if (min < MIN_TARGET_WORDS || max > MAX_TARGET_WORDS) return null;
+  return { min, max };
+};
+
+export const formatWordTarget = (target: WordCountTarget): string =>
+  target.min === target.max ? `${target.min}` : `${target.min}-${target.max}`;
+
+// Phrasing used in prompts
+export const describeWordTarget = (target: WordCountTarget): string =>
+  target.min === target.max ? `about ${target.min} words` : `between ${target.min} and ${target.max} words`;
+
+export const getAcceptedRange = (target: WordCountTarget): WordCountTarget =>
+  target.min === target.max
+    ? { min: Math.round(target.min * (1 - SINGLE_TARGET_TOLERANCE)), max: Math.round(target.max * (1 + SINGLE_TARGET_TOLERANCE)) }
+    : target;
+
+export const getWordCountStatus = (count: number, target: WordCountTarget): WordCountStatus => {
+  const { min, max } = getAcceptedRange(target);
+  if (count < min) return 'short';
+  return count > max ? 'long' : 'onTarget';
+};
@@ -88,11 +88,177 @@ export interface ArticleConfig {
   imageSize?: ImageSize;
   aspectRatio?: AspectRatio;
   numberOfImages?: number;
+  useOutline?: boolean; // Review an editable outline before any article text is generated
+  brandVoiceId?: string; // Brand voice profile to write in
+  brandVoiceMode?: BrandVoiceMode;
+  grounded?: boolean; // Back facts with web sources, cited as footnotes with a References section
+  targetWords?: WordCountTarget; // Verified after writing; short articles are continued or expanded
+}
+
+// min === max is a single target, met within a tolerance; otherwise the range itself must be met
+export interface WordCountTarget {
+  min: number;
+  max: number;
+}
+
+// 'alongside' blends the profile with the selected Tone; 'replace' ignores the Tone
+export type BrandVoiceMode = 'alongside' | 'replace';
+
+export interface BrandStyleGuide {
+  summary: string;
+  vocabulary: string[]; // Words and phrases the brand favours
+  sentenceRhythm: string;
+  bannedPhrases: string[];
+  formattingHabits: string[];
+  pointOfView: string;
+}
+
+export interface BrandVoiceProfile {
+  id: string;
+  name: string;
+  styleGuide: BrandStyleGuide;
+  sampleCount: number; // Articles the guide was extracted from
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Category-specific article layouts; 'standard' is the generic H1/intro/body/conclusion
+export type ArticleFormatId = 'standard' | 'recipe' | 'review' | 'travel' | 'financial' | 'tech';
+
+export interface FormatCheck {
+  requirement: string;
+  passed: boolean;
+  fixable: boolean; // The requirement can be added without calling the model
+}
+
+export interface OutlineSection {
+  heading: string; // H2
+  subheadings: string[]; // H3s
+  keyPoints: string[];
+  targetWords: number;
+}
+
+export interface ArticleOutline {
+  title: string; // H1
+  sections: OutlineSection[];
+}
+
+export type SectionAction = 'regenerate' | 'expand' | 'shorten' | 'rewrite';
+
+// AI operations available on a text selection in the Markdown editor
+export type SelectionRewrite =
+  | { action: 'rephrase' }
+  | { action: 'simplify' }
+  | { action: 'tone'; tone: Tone }
+  | { action: 'grammar' }
+  | { action: 'translate'; language: Language };
+
+// What happened to the article text of the most recent generation run.
+// 'stopped' and 'failed' runs keep their partial text and can be resumed.
+// 'truncated': the run ended normally but the model stopped before the article's end (usually its output limit)
+export type GenerationStatus = 'idle' | 'generating' | 'complete' | 'stopped' | 'failed' | 'truncated';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  config: ArticleConfig;
+  status: BatchItemStatus;
+  attempts: number;
+  wordsWritten: number; // Live progress while running
+  error?: string;
+  savedArticleId?: string;
+}
+
+export type UsageOperation = 'text' | 'json' | 'image' | 'image-edit';
+
+// One billed model call, as logged by the providers
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  provider: string;
+  model: string;
+  operation: UsageOperation;
+  inputTokens: number;
+  outputTokens: number;
+  imageCount: number;
+  imageSize?: ImageSize;
+  cost: number; // Estimated USD at the prices in effect when the call was made
+}
+
+// USD prices for one model. Image models bill per image instead of per output token.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage?: Partial<Record<ImageSize, number>>;
+}
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface UsageBudget {
+  sessionLimit: number | null; // USD since the app was opened, null for no limit
+  monthlyLimit: number | null; // USD this calendar month
+  mode: BudgetMode;
+}
+
+// How model calls are retried on transient failures (rate limits, overload, network drops)
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number; // Doubled on every attempt
+  maxDelayMs: number; // Upper bound for a single wait, including Retry-After hints
+  jitter: boolean; // Randomise waits so parallel requests don't retry in lockstep
+  breakerThreshold: number; // Consecutive transient failures before calls are paused
+  breakerCooldownMs: number;
+}
+
+// Prompts the user can edit in Settings. 'guidelines' is shared by every writing prompt.
+export type PromptTemplateId = 'article' | 'guidelines' | 'keywords' | 'topic' | 'coverImage' | 'originality' | 'focusKeyword' | 'brandVoice' | 'translate' | 'seoMetadata' | 'originalitySearch' | 'articleKeywords' | 'grounding' | 'headlines' | 'socialPosts';
+
+// 'warn' asks before saving or exporting a near-duplicate, 'block' refuses
+export type DuplicateCheckMode = 'warn' | 'block';
+
+export interface DuplicateCheckSettings {
+  threshold: number; // Percent of the open article found in a single saved article
+  mode: DuplicateCheckMode;
+}
+
+export interface DuplicatePassage {
+  start: number; // Character range in the open article
+  end: number;
+  words: number;
+}
+
+export interface DuplicateMatch {
+  articleId: string;
+  topic: string;
+  similarity: number; // 0-100
+  passages: DuplicatePassage[];
+}
+
+export interface PromptTemplateVersion {
+  version: number; // 1 is the built-in default
+  body: string; // Text with {{variable}} placeholders
+  savedAt: number;
+}
+
+// One article per selected Length, written from the same settings and shown in tabs.
+// The open variant's live state is the regular article state; these fields hold the others.
+export interface ArticleVariant {
+  id: string;
+  length: Length;
+  content: string;
+  status: GenerationStatus;
+  originalityHistory: OriginalityReport[];
+  savedArticleId: string | null;
+  // Each variant has its own title, so metadata made for one doesn't carry over to the others
+  seo: SeoMetadata | null;
+  headlines: HeadlineSet | null;
+  socialPosts: SocialPosts | null;
 }
 
 export interface GeneratedArticle {
   content: string;
-  isComplete: boolean;
+  isComplete: boolean; // False when the model stopped before the end; "Continue writing" picks it up
 }
 
 export interface SavedArticle {
@@ -102,6 +268,142 @@ export interface SavedArticle {
   date: number;
   type: string; // Changed to string to support custom categories
   imageUrl?: string | null;
+  language?: Language; // Missing on articles saved before translations existed
+  translationGroupId?: string; // Id of the original article, shared by all its translations
+  translatedFromId?: string;
+  seo?: SeoMetadata;
+  originalityHistory?: OriginalityReport[]; // Oldest first
+  keywords?: ArticleKeywords;
+  targetWords?: WordCountTarget;
+  isComplete?: boolean; // False when saved before generation finished; missing on older articles
+  variantGroupId?: string; // Shared by the length variants written in one run
+  variantLength?: Length;
+  headlines?: HeadlineSet;
+  socialPosts?: SocialPosts;
+}
+
+export type SocialPlatform = 'x' | 'linkedin' | 'instagram' | 'pinterest' | 'facebook';
+
+// One entry per post: an X thread has several, every other platform has one
+export type SocialPosts = Record<SocialPlatform, string[]>;
+
+export type HeadlineFormula = 'listicle' | 'howTo' | 'question' | 'numberLed' | 'curiosityGap';
+
+export type HeadlineTone = 'positive' | 'negative' | 'neutral';
+
+// Each part is worth up to 25 points; null when it can't be judged (no keyword, or no word lists for the language)
+export interface HeadlineScore {
+  total: number; // 0-100, scaled over the parts that could be judged
+  length: number;
+  powerWords: number | null;
+  keyword: number | null;
+  sentiment: number | null;
+  tone: HeadlineTone | null;
+}
+
+export interface HeadlineVariant {
+  id: string; // Stable, so A/B results from the CMS can be matched back
+  text: string;
+  formula: HeadlineFormula;
+  score: HeadlineScore;
+}
+
+// Every variant is kept, not just the chosen one, so the set can be A/B tested
+export interface HeadlineSet {
+  variants: HeadlineVariant[];
+  selectedId: string | null;
+  keyword: string | null; // Keyword the scores were computed against
+  generatedAt: number;
+}
+
+export interface ArticleKeywords {
+  focus: string;
+  secondary: string[];
+  extractedAt: number;
+}
+
+// merge: near-duplicates that should become one article; differentiate: retarget all but one;
+// link: the others should link to the article that owns the term
+export type KeywordConflictAction = 'merge' | 'differentiate' | 'link';
+
+export interface KeywordConflict {
+  term: string;
+  articleIds: string[]; // Every article targeting the term, owner first
+  ownerId: string; // The article that should keep the term
+  action: KeywordConflictAction;
+  reason: string;
+}
+
+export type OriginalityVerdict = 'safe' | 'needs_optimization' | 'unsafe';
+export type OriginalityCategory = 'seo' | 'human' | 'safety' | 'plagiarism';
+export type OriginalitySeverity = 'low' | 'medium' | 'high';
+
+export interface OriginalityFinding {
+  category: OriginalityCategory;
+  severity: OriginalitySeverity;
+  issue: string;
+  quote: string; // Passage as quoted by the model
+  suggestion: string;
+  span: { start: number; end: number } | null; // Character range in the checked content; null when the quote wasn't found
+}
+
+export interface OriginalitySource {
+  title: string;
+  uri: string;
+}
+
+export interface OriginalityReport {
+  id: string;
+  checkedAt: number;
+  seoScore: number; // 0-100
+  humanScore: number; // 0-100
+  safetyScore: number; // 0-100
+  verdict: OriginalityVerdict;
+  summary: string;
+  findings: OriginalityFinding[];
+  sources: OriginalitySource[]; // Pages returned by the web search, not by the model
+}
+
+// 'skip' checks don't apply (e.g. no readability formula for the language) and don't count towards the score
+export type SeoCheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface SeoCheck {
+  id: string;
+  label: string;
+  status: SeoCheckStatus;
+  weight: number; // Relative importance in the overall score
+  message: string; // What was found, with numbers
+  explanation: string; // Why it matters and how to fix it
+}
+
+export interface SeoReport {
+  score: number; // 0-100, weighted over the checks that apply
+  keyword: string | null;
+  checks: SeoCheck[];
+  stats: {
+    words: number;
+    sentences: number;
+    paragraphs: number;
+    keywordCount: number;
+    keywordDensity: number; // Percent of words
+    readingEase: number | null;
+  };
+}
+
+export type TwitterCardType = 'summary' | 'summary_large_image';
+
+// Search and social metadata emitted as <meta> tags in the HTML export
+export interface SeoMetadata {
+  seoTitle: string;
+  metaDescription: string;
+  slug: string;
+  excerpt: string;
+  ogTitle: string;
+  ogDescription: string;
+  twitterCard: TwitterCardType;
+  twitterTitle: string;
+  twitterDescription: string;
+  canonicalUrl: string;
 }
 
 export interface User {
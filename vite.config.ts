@@ -12,7 +12,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+        'process.env.LOCAL_MODEL_URL': JSON.stringify(env.LOCAL_MODEL_URL),
+        'process.env.LOCAL_TEXT_MODEL': JSON.stringify(env.LOCAL_TEXT_MODEL),
+        'process.env.LOCAL_IMAGE_MODEL': JSON.stringify(env.LOCAL_IMAGE_MODEL),
+        'process.env.LOCAL_MODEL_API_KEY': JSON.stringify(env.LOCAL_MODEL_API_KEY),
+        'process.env.SEARCH_API_URL': JSON.stringify(env.SEARCH_API_URL)
       },
       resolve: {
         alias: {